@@ -1,11 +1,31 @@
 import * as vscode from "vscode";
+import { AgentContext, ConversationMessage } from "./agentTools";
 import {
-  AgentContext,
-  ConversationMessage,
   executeTool,
+  getToolDefinitions,
   getToolsDocumentation,
-  ToolResult,
-} from "./agentTools";
+  listTools,
+  ToolPermission,
+} from "./toolRegistry";
+import {
+  ChatMessage,
+  ChatResponse,
+  createLLMProvider,
+  LLMApiError,
+  LLMProvider,
+  ReasoningEffort,
+  ToolCall as NativeToolCall,
+} from "./llmClient";
+import { chatWithRetry } from "./llmRetry";
+import type { TestRunResult } from "./testRunner";
+import { addTokenUsage, createTokenUsage, TokenUsage } from "./usageTracker";
+import {
+  estimateMessagesTokens,
+  estimateTokens,
+  getModelContextLength,
+  getResponseTokenLimit,
+  truncateToTokens,
+} from "./tokenBudget";
 
 /* ============================================================
  * Agent Orchestrator - Claude Code-like Agent System
@@ -17,10 +37,19 @@ import {
 export interface AgentConfig {
   apiKey: string;
   model: string;
+  provider?: LLMProvider;
+  maxTokens?: number; // Default: AGENT_MAX_TOKENS
+  temperature?: number; // Default: 0.7
+  reasoningEffort?: ReasoningEffort;
   maxTurns: number;
   enableTools: boolean;
   enableReasoning: boolean;
   streamResponse: boolean;
+  useNativeTools?: boolean; // Default: true, falls back to <tool_call> tags
+  transportRetries?: number; // Rate-limit/network retries per model
+  fallbackModels?: string[]; // Tried in order when the model is unavailable
+  toolPermissions?: ToolPermission[]; // Default: all tools
+  signal?: AbortSignal;
 }
 
 export interface AgentResponse {
@@ -29,6 +58,13 @@ export interface AgentResponse {
   reasoning?: string[];
   toolsUsed?: string[];
   error?: string;
+  cancelled?: boolean;
+  turns?: number;
+  usage?: TokenUsage;
+  modelUsed?: string; // Model that answered the last turn
+  failedModels?: string[];
+  transportRetries?: number;
+  testRun?: TestRunResult; // Last run_tests result
   conversationHistory: ConversationMessage[];
 }
 
@@ -96,6 +132,7 @@ When given a task, follow this process:
 - Check for errors
 - Ensure completeness
 - Consider testing needs
+- If run_tests is available, run the related tests and address the failures it reports
 
 # Code Quality Standards
 
@@ -136,7 +173,7 @@ When providing code fixes:
 - ALWAYS maintain existing code style
 - ALWAYS consider the full context
 
-${getToolsDocumentation()}
+${getToolsDocumentation(listTools({ permissions: task.config.toolPermissions }))}
 
 # Current Task
 
@@ -151,6 +188,169 @@ Now, let's approach this task systematically. Think through what needs to be don
   return basePrompt;
 }
 
+/**
+ * Text-based tool call instructions for models without native tool support
+ */
+function getToolCallFormatInstructions(): string {
+  return `
+
+# Calling Tools
+
+Your model endpoint does not support native tool calls. Request a tool by writing:
+<tool_call>tool_name(param1="value1", param2="value2")</tool_call>
+
+Tool results will be sent back to you in the next message.`;
+}
+
+// How servers reject the tools field itself: "does not support tools",
+// "No endpoints found that support tool use", "tools are not supported",
+// "tool choice requires --enable-auto-tool-choice", "tools param requires
+// --jinja", "Unrecognized request argument supplied: tools"
+const TOOLS_UNSUPPORTED_PATTERN =
+  /(not|n't|no endpoints found that) support (tools|tool use|tool calling|function calling|functions)|(tools|tool use|tool calling|function calling|functions) (is |are )?(not supported|unsupported)|tool[ _]choice.{0,40}requires|tools param requires|(unrecognized|unknown|unexpected|extra) .{0,40}\b(tools|functions)\b/i;
+
+/**
+ * Check whether an API error means the model/endpoint rejects the tools
+ * field (not a malformed tool conversation, e.g. a missing thinking block)
+ */
+function isToolsUnsupportedError(error: unknown): boolean {
+  return (
+    error instanceof LLMApiError &&
+    [400, 404, 422, 501].includes(error.status) &&
+    TOOLS_UNSUPPORTED_PATTERN.test(error.body) &&
+    !/thinking/i.test(error.body)
+  );
+}
+
+/* ============================================================
+ * Context Window Management
+ * ============================================================
+ */
+
+const AGENT_MAX_TOKENS = 4096;
+
+// Input budget floor: the system prompt and task always have to fit
+const MIN_INPUT_TOKENS = 1024;
+
+// Tool output kept per message when the conversation has to shrink
+const TRIMMED_TOOL_RESULT_TOKENS = 500;
+
+/**
+ * Fit the conversation into the model's context window.
+ *
+ * The system prompt (index 0) and the task (index 1) always survive.
+ * Everything after them is grouped by turn: an assistant message plus
+ * the tool results and follow-ups that answer it, so native tool calls
+ * and their results are never separated. When over budget:
+ * 1. Tool results outside the latest turn are trimmed (lowest priority)
+ * 2. Oldest turns are replaced by a short summary
+ * 3. Tool results in the latest turn are trimmed as a last resort
+ */
+export function fitConversationToContext(
+  messages: ChatMessage[],
+  budgetTokens: number
+): ChatMessage[] {
+  if (estimateMessagesTokens(messages) <= budgetTokens) {
+    return messages;
+  }
+
+  const pinned = messages.slice(0, 2);
+  const turns = groupTurns(messages.slice(2));
+  const fits = (candidate: ChatMessage[][], summary?: ChatMessage) =>
+    estimateMessagesTokens([
+      ...pinned,
+      ...(summary ? [summary] : []),
+      ...candidate.flat(),
+    ]) <= budgetTokens;
+
+  // Step 1: trim older tool results
+  let trimmed = turns.map((turn, i) =>
+    i < turns.length - 1 ? turn.map(trimToolResult) : turn
+  );
+
+  // Step 2: summarize and drop oldest turns
+  const dropped: ChatMessage[][] = [];
+  let summary: ChatMessage | undefined;
+  while (trimmed.length > 1 && !fits(trimmed, summary)) {
+    dropped.push(trimmed.shift() as ChatMessage[]);
+    summary = summarizeTurns(dropped);
+  }
+
+  // Step 3: trim the latest turn too
+  if (!fits(trimmed, summary)) {
+    trimmed = trimmed.map((turn) => turn.map(trimToolResult));
+  }
+
+  if (dropped.length > 0) {
+    console.log(`Context window: summarized ${dropped.length} older turn(s)`);
+  }
+
+  return [...pinned, ...(summary ? [summary] : []), ...trimmed.flat()];
+}
+
+/**
+ * Group messages into turns, each starting at an assistant message
+ */
+function groupTurns(messages: ChatMessage[]): ChatMessage[][] {
+  const turns: ChatMessage[][] = [];
+
+  for (const message of messages) {
+    if (message.role === "assistant" || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * Shorten a tool result (native or text-tag) to a small preview
+ */
+function trimToolResult(message: ChatMessage): ChatMessage {
+  const isToolResult =
+    message.role === "tool" ||
+    (message.role === "user" && message.content.startsWith("Tool: "));
+
+  if (!isToolResult || estimateTokens(message.content) <= TRIMMED_TOOL_RESULT_TOKENS) {
+    return message;
+  }
+
+  return {
+    ...message,
+    content: truncateToTokens(message.content, TRIMMED_TOOL_RESULT_TOKENS),
+  };
+}
+
+/**
+ * Summarize dropped turns as a single user message
+ */
+function summarizeTurns(turns: ChatMessage[][]): ChatMessage {
+  const lines: string[] = [];
+
+  for (const message of turns.flat()) {
+    if (message.role === "assistant") {
+      for (const call of message.toolCalls || []) {
+        lines.push(`- Called ${call.name}(${call.arguments.slice(0, 100)})`);
+      }
+      const text = message.content.trim();
+      if (text) {
+        lines.push(`- Assistant: ${text.slice(0, 200).replace(/\s+/g, " ")}`);
+      }
+    } else if (message.content.startsWith("Tool: ")) {
+      const firstLine = message.content.split("\n")[0];
+      const failed = /\nError:/.test(message.content);
+      lines.push(`- ${firstLine.slice(6)} ${failed ? "failed" : "returned results"}`);
+    }
+  }
+
+  return {
+    role: "user",
+    content: `[Earlier conversation summarized to fit the context window]\n${lines.join("\n")}`,
+  };
+}
+
 /* ============================================================
  * Tool Call Detection and Parsing
  * ============================================================
@@ -249,12 +449,27 @@ export class AgentOrchestrator {
   private conversationHistory: ConversationMessage[] = [];
   private toolsUsed: string[] = [];
   private reasoningSteps: string[] = [];
+  private nativeTools: boolean;
+  private usage: TokenUsage;
+  private model: string; // Switches to a fallback model once one is used
+  private failedModels: string[] = [];
+  private transportRetries = 0;
+  private testRun?: TestRunResult;
 
   constructor(private task: AgentTask) {
+    this.usage = createTokenUsage(task.config.model);
+    this.model = task.config.model;
+    this.nativeTools =
+      task.config.enableTools && task.config.useNativeTools !== false;
+
     // Initialize conversation with system prompt
     this.conversationHistory.push({
       role: "system",
-      content: getAgentSystemPrompt(task),
+      content:
+        getAgentSystemPrompt(task) +
+        (task.config.enableTools && !this.nativeTools
+          ? getToolCallFormatInstructions()
+          : ""),
       timestamp: Date.now(),
     });
 
@@ -278,25 +493,40 @@ export class AgentOrchestrator {
 
     try {
       while (currentTurn < maxTurns && !finalCode) {
+        if (this.task.config.signal?.aborted) {
+          throw new Error("Cancelled by user");
+        }
+
         currentTurn++;
         progressCallback?.(
           `Agent thinking... (turn ${currentTurn}/${maxTurns})`
         );
 
         // Get AI response
-        const aiResponse = await this.callAI();
+        const chatResponse = await this.callAI(progressCallback);
 
-        if (!aiResponse) {
-          throw new Error("Failed to get AI response");
-        }
+        const aiResponse = chatResponse.content;
+        const nativeCalls = chatResponse.toolCalls || [];
 
         // Add to conversation history
         this.conversationHistory.push({
           role: "assistant",
           content: aiResponse,
+          toolCalls: nativeCalls.length > 0 ? nativeCalls : undefined,
+          thinking: chatResponse.thinking,
           timestamp: Date.now(),
         });
 
+        // Native tool calls: run them and let the model continue
+        if (nativeCalls.length > 0) {
+          progressCallback?.(`Executing ${nativeCalls.length} tool(s)...`);
+
+          for (const call of nativeCalls) {
+            await this.executeNativeToolCall(call, progressCallback);
+          }
+          continue;
+        }
+
         // Check if task is complete
         if (isTaskComplete(aiResponse)) {
           finalCode = extractFinalCode(aiResponse);
@@ -358,37 +588,88 @@ export class AgentOrchestrator {
         finalCode: finalCode || undefined,
         reasoning: this.reasoningSteps,
         toolsUsed: this.toolsUsed,
+        turns: currentTurn,
+        usage: this.usage,
+        ...this.getTransportInfo(),
+        testRun: this.testRun,
         conversationHistory: this.conversationHistory,
         error: !finalCode ? "Failed to generate code fix" : undefined,
       };
     } catch (error) {
+      const cancelled = !!this.task.config.signal?.aborted;
       return {
         success: false,
-        error: `Agent execution failed: ${error}`,
+        cancelled,
+        error: cancelled
+          ? "Cancelled by user"
+          : `Agent execution failed: ${error instanceof Error ? error.message : error}`,
         reasoning: this.reasoningSteps,
         toolsUsed: this.toolsUsed,
+        turns: currentTurn,
+        usage: this.usage,
+        ...this.getTransportInfo(),
         conversationHistory: this.conversationHistory,
       };
     }
   }
 
+  /**
+   * Execute a structured tool call returned by the API
+   */
+  private async executeNativeToolCall(
+    call: NativeToolCall,
+    progressCallback?: (message: string) => void
+  ): Promise<void> {
+    let params: any;
+
+    try {
+      params = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+    } catch (error) {
+      // Let the model correct malformed arguments on its next turn
+      this.conversationHistory.push({
+        role: "tool",
+        content: `Tool: ${call.name}\nError: Invalid JSON arguments - ${error}`,
+        toolName: call.name,
+        toolCallId: call.id,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    await this.executeToolCall(
+      { toolName: call.name, params },
+      progressCallback,
+      call.id
+    );
+  }
+
   /**
    * Execute a tool call and add result to conversation
    */
   private async executeToolCall(
     toolCall: ToolCall,
-    progressCallback?: (message: string) => void
+    progressCallback?: (message: string) => void,
+    toolCallId?: string
   ): Promise<void> {
-    progressCallback?.(`Using tool: ${toolCall.toolName}`);
+    const target = toolCall.params?.filePath || toolCall.params?.pattern || toolCall.params?.directory;
+    progressCallback?.(
+      `Using tool: ${toolCall.toolName}${target ? ` (${target})` : ""}`
+    );
 
     const result = await executeTool(
       toolCall.toolName,
       toolCall.params,
-      this.task.context
+      this.task.context,
+      this.task.config.toolPermissions
     );
 
     this.toolsUsed.push(toolCall.toolName);
 
+    if (toolCall.toolName === "run_tests" && result.success) {
+      this.testRun = result.metadata as TestRunResult;
+      progressCallback?.(`Tests: ${this.testRun.failed} failed, ${this.testRun.passed} passed`);
+    }
+
     // Add tool result to conversation
     const toolResultMessage = result.success
       ? `Tool: ${toolCall.toolName}\nResult:\n${result.data}`
@@ -398,68 +679,106 @@ export class AgentOrchestrator {
       role: "tool",
       content: toolResultMessage,
       toolName: toolCall.toolName,
+      toolCallId,
       timestamp: Date.now(),
     });
   }
 
   /**
-   * Call OpenRouter API with conversation history
+   * Model and transport retry details for the response
+   */
+  private getTransportInfo(): Pick<
+    AgentResponse,
+    "modelUsed" | "failedModels" | "transportRetries"
+  > {
+    return {
+      modelUsed: this.model,
+      failedModels: this.failedModels,
+      transportRetries: this.transportRetries,
+    };
+  }
+
+  /**
+   * Call the configured LLM provider with conversation history.
+   * Rate limits and outages are retried, then the fallback models are tried.
    */
-  private async callAI(): Promise<string | null> {
+  private async callAI(
+    progressCallback?: (message: string) => void
+  ): Promise<ChatResponse> {
     try {
-      const messages = this.conversationHistory
-        .filter((msg) => msg.role !== "tool")
-        .map((msg) => ({
-          role: msg.role === "tool" ? "user" : msg.role,
-          content: msg.content,
-        }));
-
-      // Add tool results as user messages
-      const toolMessages = this.conversationHistory
-        .filter((msg) => msg.role === "tool")
-        .map((msg) => ({
-          role: "user" as const,
-          content: msg.content,
-        }));
-
-      const allMessages = [...messages, ...toolMessages].slice(-20); // Keep last 20 messages
-
-      const response = await fetch(
-        "https://openrouter.ai/api/v1/chat/completions",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${this.task.config.apiKey}`,
-            "HTTP-Referer": "https://github.com/malik-kurosaki/fix-code-makuro",
-            "X-Title": "Fix Code Makuro - Agent",
-          },
-          body: JSON.stringify({
-            model: this.task.config.model,
-            messages: allMessages,
-            max_tokens: 4096,
-            temperature: 0.7,
-          }),
-        }
+      // Keep original order; text-tag tool results are sent as user messages
+      // The system prompt is identical every turn, so mark it cacheable
+      const messages: ChatMessage[] = this.conversationHistory.map((msg) =>
+        msg.role === "tool" && !msg.toolCallId
+          ? { role: "user", content: msg.content }
+          : {
+              role: msg.role,
+              content: msg.content,
+              parts:
+                msg.role === "system"
+                  ? [{ text: msg.content, cacheable: true }]
+                  : undefined,
+              toolCalls: msg.toolCalls,
+              toolCallId: msg.toolCallId,
+              thinking: msg.thinking,
+            }
       );
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(
-          `API request failed: ${response.status} - ${errorText}`
+      // Capped like the other modes, so the input keeps at least half the window
+      const maxTokens = getResponseTokenLimit(
+        this.model,
+        this.task.config.maxTokens || AGENT_MAX_TOKENS
+      );
+      const budget = Math.max(getModelContextLength(this.model) - maxTokens, MIN_INPUT_TOKENS);
+      const allMessages = fitConversationToContext(messages, budget);
+
+      const provider =
+        this.task.config.provider ??
+        createLLMProvider(this.task.config.apiKey, "Fix Code Makuro - Agent");
+
+      try {
+        const result = await chatWithRetry(
+          provider,
+          {
+            model: this.model,
+            messages: allMessages,
+            maxTokens,
+            temperature: this.task.config.temperature ?? 0.7,
+            reasoningEffort: this.task.config.reasoningEffort,
+            tools: this.nativeTools
+              ? getToolDefinitions(listTools({ permissions: this.task.config.toolPermissions }))
+              : undefined,
+            signal: this.task.config.signal,
+          },
+          {
+            maxRetries: this.task.config.transportRetries,
+            fallbackModels: this.task.config.fallbackModels,
+            onRetry: progressCallback,
+          }
         );
-      }
 
-      const data = (await response.json()) as any;
+        this.model = result.model;
+        this.failedModels.push(
+          ...result.failedModels.filter((m) => !this.failedModels.includes(m))
+        );
+        this.transportRetries += result.transportRetries;
+        this.usage.model = result.model;
+        addTokenUsage(this.usage, result.model, result.response.usage);
+        return result.response;
+      } catch (error) {
+        if (!this.nativeTools || !isToolsUnsupportedError(error)) {
+          throw error;
+        }
 
-      if (!data.choices || data.choices.length === 0) {
-        throw new Error("No response from API");
+        // Model has no tool support - switch to <tool_call> tags and retry
+        console.warn("Native tool calling unsupported, falling back to text tags");
+        this.nativeTools = false;
+        this.conversationHistory[0].content += getToolCallFormatInstructions();
+        return this.callAI(progressCallback);
       }
-
-      return data.choices[0].message.content;
     } catch (error) {
       console.error("AI call failed:", error);
-      return null;
+      throw error;
     }
   }
 
@@ -1,5 +1,7 @@
 import * as path from "path";
 import * as fs from "fs/promises";
+import type { ThinkingBlock, ToolCall } from "./llmClient";
+import type { Tool, ToolContext, ToolResult } from "./toolRegistry";
 
 /* ============================================================
  * Agent Tools System - Similar to Claude Code
@@ -8,23 +10,7 @@ import * as fs from "fs/promises";
  * to understand code, search files, analyze patterns, etc.
  */
 
-export interface AgentTool {
-  name: string;
-  description: string;
-  parameters: {
-    [key: string]: {
-      type: string;
-      description: string;
-      required: boolean;
-    };
-  };
-  execute: (params: any, context: AgentContext) => Promise<ToolResult>;
-}
-
-export interface AgentContext {
-  workspacePath: string;
-  currentFile: string;
-  selectedCode?: string;
+export interface AgentContext extends ToolContext {
   conversationHistory?: ConversationMessage[];
 }
 
@@ -32,16 +18,12 @@ export interface ConversationMessage {
   role: "user" | "assistant" | "system" | "tool";
   content: string;
   toolName?: string;
+  toolCalls?: ToolCall[]; // native tool calls requested by the assistant
+  toolCallId?: string; // set when answering a native tool call
+  thinking?: ThinkingBlock[]; // Anthropic extended thinking, sent back unchanged
   timestamp?: number;
 }
 
-export interface ToolResult {
-  success: boolean;
-  data: string;
-  error?: string;
-  metadata?: any;
-}
-
 /* ============================================================
  * Code Analysis Tools
  * ============================================================
@@ -481,16 +463,21 @@ async function findRelatedFiles(
  * ============================================================
  */
 
-export const agentTools: AgentTool[] = [
+export const agentTools: Tool[] = [
   {
     name: "read_file",
     description: "Read the content of a file with context and analysis",
+    category: "code",
+    permission: "read",
     parameters: {
-      filePath: {
-        type: "string",
-        description: "Path to the file (relative to workspace or absolute)",
-        required: true,
+      type: "object",
+      properties: {
+        filePath: {
+          type: "string",
+          description: "Path to the file (relative to workspace or absolute)",
+        },
       },
+      required: ["filePath"],
     },
     execute: async (params, context) => {
       return readFileWithContext(params.filePath, context.workspacePath);
@@ -499,17 +486,21 @@ export const agentTools: AgentTool[] = [
   {
     name: "search_code",
     description: "Search for code patterns using regex across the project",
+    category: "code",
+    permission: "read",
     parameters: {
-      pattern: {
-        type: "string",
-        description: "Regex pattern to search for",
-        required: true,
-      },
-      filePattern: {
-        type: "string",
-        description: "File name pattern to filter (optional)",
-        required: false,
+      type: "object",
+      properties: {
+        pattern: {
+          type: "string",
+          description: "Regex pattern to search for",
+        },
+        filePattern: {
+          type: "string",
+          description: "File name pattern to filter (optional)",
+        },
       },
+      required: ["pattern"],
     },
     execute: async (params, context) => {
       return searchCodePattern(
@@ -522,17 +513,21 @@ export const agentTools: AgentTool[] = [
   {
     name: "list_directory",
     description: "List files and directories in a specific path",
+    category: "code",
+    permission: "read",
     parameters: {
-      directory: {
-        type: "string",
-        description: "Directory path to list",
-        required: true,
-      },
-      filter: {
-        type: "string",
-        description: "Filter files by name (optional)",
-        required: false,
+      type: "object",
+      properties: {
+        directory: {
+          type: "string",
+          description: "Directory path to list",
+        },
+        filter: {
+          type: "string",
+          description: "Filter files by name (optional)",
+        },
       },
+      required: ["directory"],
     },
     execute: async (params, context) => {
       return listFiles(params.directory, context.workspacePath, params.filter);
@@ -541,12 +536,17 @@ export const agentTools: AgentTool[] = [
   {
     name: "analyze_code",
     description: "Analyze code quality, complexity, and potential issues",
+    category: "code",
+    permission: "read",
     parameters: {
-      filePath: {
-        type: "string",
-        description: "Path to the file to analyze",
-        required: true,
+      type: "object",
+      properties: {
+        filePath: {
+          type: "string",
+          description: "Path to the file to analyze",
+        },
       },
+      required: ["filePath"],
     },
     execute: async (params, context) => {
       return analyzeCode(params.filePath, context.workspacePath);
@@ -555,84 +555,20 @@ export const agentTools: AgentTool[] = [
   {
     name: "find_related_files",
     description: "Find files related to the current file through imports",
+    category: "code",
+    permission: "read",
     parameters: {
-      filePath: {
-        type: "string",
-        description: "Path to the file",
-        required: true,
+      type: "object",
+      properties: {
+        filePath: {
+          type: "string",
+          description: "Path to the file",
+        },
       },
+      required: ["filePath"],
     },
     execute: async (params, context) => {
       return findRelatedFiles(params.filePath, context.workspacePath);
     },
   },
 ];
-
-/**
- * Execute a tool by name
- */
-export async function executeTool(
-  toolName: string,
-  params: any,
-  context: AgentContext
-): Promise<ToolResult> {
-  const tool = agentTools.find((t) => t.name === toolName);
-
-  if (!tool) {
-    return {
-      success: false,
-      data: "",
-      error: `Tool not found: ${toolName}`,
-    };
-  }
-
-  // Validate required parameters
-  for (const [paramName, paramConfig] of Object.entries(tool.parameters)) {
-    if (paramConfig.required && !params[paramName]) {
-      return {
-        success: false,
-        data: "",
-        error: `Missing required parameter: ${paramName}`,
-      };
-    }
-  }
-
-  return tool.execute(params, context);
-}
-
-/**
- * Get tools documentation for AI prompt
- */
-export function getToolsDocumentation(): string {
-  let doc = `\n\n=== Available Tools ===\n\n`;
-  doc += `You have access to the following tools to analyze and understand code:\n\n`;
-
-  agentTools.forEach((tool) => {
-    doc += `**${tool.name}**\n`;
-    doc += `  Description: ${tool.description}\n`;
-    doc += `  Parameters:\n`;
-
-    for (const [paramName, paramConfig] of Object.entries(tool.parameters)) {
-      const required = paramConfig.required ? "(required)" : "(optional)";
-      doc += `    - ${paramName}: ${paramConfig.type} ${required} - ${paramConfig.description}\n`;
-    }
-
-    doc += `\n`;
-  });
-
-  doc += `\nHow to use tools:\n`;
-  doc += `1. Think about what information you need\n`;
-  doc += `2. Use the appropriate tool to gather that information\n`;
-  doc += `3. Analyze the results\n`;
-  doc += `4. Make informed decisions about code changes\n`;
-  doc += `5. Always verify your understanding before suggesting changes\n\n`;
-
-  doc += `Best practices:\n`;
-  doc += `- Use read_file to understand the current code\n`;
-  doc += `- Use search_code to find similar patterns or related code\n`;
-  doc += `- Use analyze_code to identify complexity and issues\n`;
-  doc += `- Use find_related_files to understand dependencies\n`;
-  doc += `- Always consider the full context before making changes\n`;
-
-  return doc;
-}
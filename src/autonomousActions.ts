@@ -67,7 +67,14 @@ export class AutonomousActionExecutor {
   /**
    * Execute an action
    */
-  async execute(action: ActionRequest): Promise<ActionResult> {
+  async execute(
+    action: ActionRequest,
+    signal?: AbortSignal
+  ): Promise<ActionResult> {
+    if (signal?.aborted) {
+      return cancelledActionResult();
+    }
+
     // Check if action is allowed
     if (!this.isActionAllowed(action.type)) {
       return {
@@ -86,6 +93,11 @@ export class AutonomousActionExecutor {
           message: "Action cancelled by user",
         };
       }
+
+      // The whole request may have been cancelled while the prompt was open
+      if (signal?.aborted) {
+        return cancelledActionResult();
+      }
     }
 
     // Execute the action
@@ -94,7 +106,7 @@ export class AutonomousActionExecutor {
     try {
       switch (action.type) {
         case "install_package":
-          result = await this.installPackage(action.params);
+          result = await this.installPackage(action.params, signal);
           break;
         case "create_file":
           result = await this.createFile(action.params);
@@ -106,13 +118,13 @@ export class AutonomousActionExecutor {
           result = await this.modifyFile(action.params);
           break;
         case "run_script":
-          result = await this.runScript(action.params);
+          result = await this.runScript(action.params, signal);
           break;
         case "git_operation":
-          result = await this.gitOperation(action.params);
+          result = await this.gitOperation(action.params, signal);
           break;
         case "format_code":
-          result = await this.formatCode(action.params);
+          result = await this.formatCode(action.params, signal);
           break;
         case "update_imports":
           result = await this.updateImports(action.params);
@@ -132,6 +144,9 @@ export class AutonomousActionExecutor {
 
       return result;
     } catch (error) {
+      if (signal?.aborted) {
+        return cancelledActionResult();
+      }
       return {
         success: false,
         message: "Action execution failed",
@@ -179,10 +194,13 @@ export class AutonomousActionExecutor {
   /**
    * Install npm package
    */
-  private async installPackage(params: {
-    packages: string[];
-    dev?: boolean;
-  }): Promise<ActionResult> {
+  private async installPackage(
+    params: {
+      packages: string[];
+      dev?: boolean;
+    },
+    signal?: AbortSignal
+  ): Promise<ActionResult> {
     const { packages, dev = false } = params;
     const packageList = packages.join(" ");
     const devFlag = dev ? "-D" : "";
@@ -194,7 +212,7 @@ export class AutonomousActionExecutor {
 
       const { stdout, stderr } = await execAsync(
         `npm install ${devFlag} ${packageList}`,
-        { cwd: this.workspacePath }
+        { cwd: this.workspacePath, signal }
       );
 
       return {
@@ -304,10 +322,13 @@ export class AutonomousActionExecutor {
   /**
    * Run npm script
    */
-  private async runScript(params: {
-    script: string;
-    args?: string;
-  }): Promise<ActionResult> {
+  private async runScript(
+    params: {
+      script: string;
+      args?: string;
+    },
+    signal?: AbortSignal
+  ): Promise<ActionResult> {
     const { script, args = "" } = params;
 
     try {
@@ -315,7 +336,7 @@ export class AutonomousActionExecutor {
 
       const { stdout, stderr } = await execAsync(
         `npm run ${script} ${args}`,
-        { cwd: this.workspacePath }
+        { cwd: this.workspacePath, signal }
       );
 
       return {
@@ -335,11 +356,14 @@ export class AutonomousActionExecutor {
   /**
    * Git operations
    */
-  private async gitOperation(params: {
-    operation: "add" | "commit" | "push";
-    files?: string[];
-    message?: string;
-  }): Promise<ActionResult> {
+  private async gitOperation(
+    params: {
+      operation: "add" | "commit" | "push";
+      files?: string[];
+      message?: string;
+    },
+    signal?: AbortSignal
+  ): Promise<ActionResult> {
     const { operation, files = ["."], message = "Auto-commit by AI" } = params;
 
     try {
@@ -361,6 +385,7 @@ export class AutonomousActionExecutor {
 
       const { stdout } = await execAsync(command, {
         cwd: this.workspacePath,
+        signal,
       });
 
       return {
@@ -380,9 +405,12 @@ export class AutonomousActionExecutor {
   /**
    * Format code
    */
-  private async formatCode(params: {
-    filePath: string;
-  }): Promise<ActionResult> {
+  private async formatCode(
+    params: {
+      filePath: string;
+    },
+    signal?: AbortSignal
+  ): Promise<ActionResult> {
     const { filePath } = params;
 
     try {
@@ -390,6 +418,7 @@ export class AutonomousActionExecutor {
       try {
         const { stdout } = await execAsync(`npx prettier --write ${filePath}`, {
           cwd: this.workspacePath,
+          signal,
         });
 
         return {
@@ -398,6 +427,10 @@ export class AutonomousActionExecutor {
           output: stdout,
         };
       } catch {
+        if (signal?.aborted) {
+          return cancelledActionResult();
+        }
+
         // Fallback to VSCode formatting
         const fullPath = path.join(this.workspacePath, filePath);
         const doc = await vscode.workspace.openTextDocument(fullPath);
@@ -482,6 +515,17 @@ export class AutonomousActionExecutor {
   }
 }
 
+/**
+ * Result returned for actions skipped or stopped by cancellation
+ */
+function cancelledActionResult(): ActionResult {
+  return {
+    success: false,
+    message: "Action cancelled",
+    error: "Cancelled",
+  };
+}
+
 /* ============================================================
  * Action Parser - Parse AI suggestions to actions
  * ============================================================
@@ -0,0 +1,156 @@
+import type { ChatMessage } from "./llmClient";
+import { estimateMessagesTokens, estimateTokens } from "./tokenBudget";
+
+/* ============================================================
+ * Continuation - Resuming Truncated Responses
+ * ============================================================
+ * When a response stops with finish_reason "length", the model is
+ * asked to resume exactly where it stopped. A heuristic check then
+ * catches output that still ends mid-statement.
+ */
+
+export const MAX_CONTINUATIONS = 5;
+const CONTINUATION_TAIL_LENGTH = 1000;
+
+// Endings that mean the code stops mid-statement
+const INCOMPLETE_ENDINGS = [
+  /\(\s*$/, // Opening parenthesis
+  /\[\s*$/, // Opening bracket
+  /\{\s*$/, // Opening brace
+  /,\s*$/, // Comma
+  /[^.]\.\s*$/, // Dot (member access)
+  /->\s*$/, // Arrow
+  /[^=!<>]=\s*$/, // Assignment
+  /:\s*$/, // Colon
+  /\+\s*$/, // Plus
+  /[^-]-\s*$/, // Minus
+  /\|\s*$/, // Pipe
+  /&\s*$/, // Ampersand
+];
+
+/**
+ * Get the last N characters of text for continuation context
+ */
+export function getTailText(text: string, length: number): string {
+  if (text.length <= length) {
+    return text;
+  }
+  return text.slice(-length);
+}
+
+/**
+ * Build continuation prompt that resumes from last character
+ */
+export function buildContinuationPrompt(lastOutputEnd: string): string {
+  return `Continue generating the code.
+Resume EXACTLY from the last character below.
+Do NOT repeat or explain anything.
+Do NOT add markdown code fences or any formatting.
+Just continue with the raw code.
+
+<<<LAST_OUTPUT_END>>>
+${lastOutputEnd}`;
+}
+
+/**
+ * Build the messages for the next continuation request. The output
+ * so far is sent back as the assistant turn when it fits the budget,
+ * otherwise only its tail is.
+ */
+export function buildContinuationMessages(
+  messages: ChatMessage[],
+  accumulatedOutput: string,
+  budgetTokens: number
+): ChatMessage[] {
+  const tail = getTailText(accumulatedOutput, CONTINUATION_TAIL_LENGTH);
+  const continuation: ChatMessage = {
+    role: "user",
+    content: buildContinuationPrompt(tail),
+  };
+  const used = estimateMessagesTokens([...messages, continuation]);
+  const assistantContent =
+    used + estimateTokens(accumulatedOutput) <= budgetTokens ? accumulatedOutput : tail;
+
+  return [...messages, { role: "assistant", content: assistantContent }, continuation];
+}
+
+/**
+ * Heuristic check that code output does not end mid-statement.
+ * With the original code as reference, endings and open brackets
+ * the original already had are allowed (partial selections).
+ */
+export function isOutputComplete(output: string, reference?: string): boolean {
+  const trimmed = output.trim();
+
+  if (trimmed.length === 0) {
+    return false;
+  }
+
+  const referenceTrimmed = reference?.trim() ?? "";
+  const scan = scanCode(trimmed);
+  const referenceScan = scanCode(referenceTrimmed);
+
+  // Ends inside a string or block comment
+  if (scan.unclosed && !referenceScan.unclosed) {
+    return false;
+  }
+
+  // Check for obvious incomplete endings (comment lines are prose)
+  const lastLine = trimmed.split("\n").pop() || "";
+  if (!/^\s*(\/\/|#|\*|\/\*)/.test(lastLine)) {
+    for (const pattern of INCOMPLETE_ENDINGS) {
+      if (pattern.test(trimmed) && !pattern.test(referenceTrimmed)) {
+        return false;
+      }
+    }
+  }
+
+  // More brackets left open than in the original code
+  if (reference !== undefined && scan.depth > Math.max(0, referenceScan.depth)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Count open brackets outside strings and comments, and report
+ * whether the text ends inside a string or block comment
+ */
+function scanCode(code: string): { depth: number; unclosed: boolean } {
+  let depth = 0;
+  let quote: string | null = null;
+  let blockComment = false;
+
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i];
+    const next = code[i + 1];
+
+    if (blockComment) {
+      if (char === "*" && next === "/") {
+        blockComment = false;
+        i++;
+      }
+    } else if (quote) {
+      if (char === "\\") {
+        i++;
+      } else if (char === quote || (char === "\n" && quote !== "`")) {
+        quote = null;
+      }
+    } else if (char === "/" && next === "/") {
+      const lineEnd = code.indexOf("\n", i);
+      i = lineEnd === -1 ? code.length : lineEnd;
+    } else if (char === "/" && next === "*") {
+      blockComment = true;
+      i++;
+    } else if (char === '"' || char === "'" || char === "`") {
+      quote = char;
+    } else if ("([{".includes(char)) {
+      depth++;
+    } else if (")]}".includes(char)) {
+      depth--;
+    }
+  }
+
+  return { depth, unclosed: blockComment || quote !== null };
+}
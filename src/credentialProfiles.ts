@@ -0,0 +1,134 @@
+import * as vscode from "vscode";
+import type { ProviderType } from "./llmClient";
+
+/* ============================================================
+ * Credential Profiles - Named API Keys per Provider
+ * ============================================================
+ * A profile bundles a provider, an optional base URL and an API
+ * key source: a key kept in SecretStorage or an environment
+ * variable such as OPENROUTER_API_KEY. Each workspace picks its
+ * profile with fixCode.credentialProfile; without one the plain
+ * fixCode.provider / fixCode.baseUrl settings are used.
+ */
+
+export interface CredentialProfile {
+  name: string;
+  provider: ProviderType;
+  baseUrl?: string; // Empty = provider default
+  envVar?: string; // Read the key from this variable instead of SecretStorage
+}
+
+// Environment variables checked for each provider's API key
+export const PROVIDER_ENV_VARS: Record<ProviderType, string> = {
+  openrouter: "OPENROUTER_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  "openai-compatible": "OPENAI_API_KEY",
+};
+
+const PROFILES_SECRET = "credentialProfiles";
+const PROFILE_KEY_PREFIX = "credentialProfile.";
+
+let secrets: vscode.SecretStorage | null = null;
+let profiles: CredentialProfile[] = [];
+let loaded: Promise<void> = Promise.resolve();
+
+/**
+ * Load profiles from SecretStorage and keep them in sync
+ */
+export function initCredentialProfiles(storage: vscode.SecretStorage): vscode.Disposable {
+  secrets = storage;
+  loaded = reloadProfiles();
+
+  return storage.onDidChange((event) => {
+    if (event.key === PROFILES_SECRET) {
+      loaded = reloadProfiles();
+    }
+  });
+}
+
+/**
+ * Resolves once the profiles have been read from SecretStorage
+ */
+export function whenCredentialProfilesLoaded(): Promise<void> {
+  return loaded;
+}
+
+export function listCredentialProfiles(): CredentialProfile[] {
+  return [...profiles];
+}
+
+/**
+ * Name of the profile selected for this workspace ("" = none)
+ */
+export function getActiveProfileName(): string {
+  const config = vscode.workspace.getConfiguration("fixCode");
+  return config.get<string>("credentialProfile", "").trim();
+}
+
+export function getActiveProfile(): CredentialProfile | undefined {
+  const name = getActiveProfileName();
+  return name ? profiles.find((profile) => profile.name === name) : undefined;
+}
+
+/**
+ * Create or update a profile. The API key is stored only for
+ * profiles without an environment variable source.
+ */
+export async function saveCredentialProfile(
+  profile: CredentialProfile,
+  apiKey?: string
+): Promise<void> {
+  const storage = getSecrets();
+  profiles = [...profiles.filter((p) => p.name !== profile.name), profile].sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+
+  await storage.store(PROFILES_SECRET, JSON.stringify(profiles));
+  if (profile.envVar) {
+    await storage.delete(PROFILE_KEY_PREFIX + profile.name);
+  } else if (apiKey) {
+    await storage.store(PROFILE_KEY_PREFIX + profile.name, apiKey);
+  }
+}
+
+export async function deleteCredentialProfile(name: string): Promise<void> {
+  const storage = getSecrets();
+  profiles = profiles.filter((profile) => profile.name !== name);
+
+  await storage.store(PROFILES_SECRET, JSON.stringify(profiles));
+  await storage.delete(PROFILE_KEY_PREFIX + name);
+}
+
+/**
+ * Resolve a profile's API key from its environment variable or SecretStorage
+ */
+export async function getProfileApiKey(profile: CredentialProfile): Promise<string | null> {
+  if (profile.envVar) {
+    return process.env[profile.envVar]?.trim() || null;
+  }
+  return (await getSecrets().get(PROFILE_KEY_PREFIX + profile.name)) || null;
+}
+
+/**
+ * Describe where a profile's key comes from (for lists and errors)
+ */
+export function describeKeySource(profile: CredentialProfile): string {
+  return profile.envVar ? `env ${profile.envVar}` : "SecretStorage";
+}
+
+async function reloadProfiles(): Promise<void> {
+  try {
+    const stored = await getSecrets().get(PROFILES_SECRET);
+    profiles = stored ? (JSON.parse(stored) as CredentialProfile[]) : [];
+  } catch (error) {
+    console.warn("Could not load credential profiles:", error);
+    profiles = [];
+  }
+}
+
+function getSecrets(): vscode.SecretStorage {
+  if (!secrets) {
+    throw new Error("Credential profiles not initialized");
+  }
+  return secrets;
+}
@@ -0,0 +1,447 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { BUILTIN_SOURCE, registerTools, Tool, ToolContext, ToolResult } from "./toolRegistry";
+
+/* ============================================================
+ * Editor Tools - VSCode Language Features for the Agent
+ * ============================================================
+ * Diagnostics, definitions, references, symbols and hover types
+ * from the language servers VSCode already runs, so the agent
+ * sees real types and call sites instead of guessing from text.
+ * Positions are 1-based lines; a symbol name on the line picks
+ * the column.
+ */
+
+const MAX_DIAGNOSTICS = 100;
+const MAX_LOCATIONS = 100;
+const MAX_SYMBOLS = 200;
+const MAX_HOVER_CHARS = 4000;
+const DIAGNOSTICS_WAIT_MS = 3000;
+
+const SEVERITIES = ["error", "warning", "information", "hint"];
+
+/**
+ * Register the editor tools (they need the VSCode API, so they
+ * are added on activation rather than seeded in the registry)
+ */
+export function initEditorTools(): vscode.Disposable {
+  const registration = registerTools(editorTools.map((tool) => ({ ...tool, source: BUILTIN_SOURCE })));
+  return new vscode.Disposable(() => registration.dispose());
+}
+
+/* ============================================================
+ * Diagnostics
+ * ============================================================
+ */
+
+async function getDiagnostics(
+  context: ToolContext,
+  filePath?: string,
+  minSeverity: string = "warning"
+): Promise<ToolResult> {
+  const maxSeverity = Math.max(SEVERITIES.indexOf(minSeverity), 0);
+  let entries: Array<[vscode.Uri, readonly vscode.Diagnostic[]]>;
+
+  if (filePath) {
+    const uri = vscode.Uri.file(resolvePath(filePath, context.workspacePath));
+    await vscode.workspace.openTextDocument(uri);
+    entries = [[uri, await waitForDiagnostics(uri)]];
+  } else {
+    entries = vscode.languages.getDiagnostics();
+  }
+
+  let output = "";
+  let count = 0;
+  let errors = 0;
+  for (const [uri, diagnostics] of entries) {
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.severity > maxSeverity) {
+        continue;
+      }
+      if (diagnostic.severity === vscode.DiagnosticSeverity.Error) {
+        errors++;
+      }
+      if (++count > MAX_DIAGNOSTICS) {
+        continue;
+      }
+      const start = diagnostic.range.start;
+      const code = typeof diagnostic.code === "object" ? diagnostic.code.value : diagnostic.code;
+      const origin = [diagnostic.source, code].filter((part) => part !== undefined && part !== "").join(" ");
+      output += `${relativePath(uri, context.workspacePath)}:${start.line + 1}:${start.character + 1} ${SEVERITIES[diagnostic.severity]}: ${diagnostic.message}${origin ? ` [${origin}]` : ""}\n`;
+    }
+  }
+
+  if (count === 0) {
+    return {
+      success: true,
+      data: filePath ? `No problems in ${filePath}` : "No problems in the workspace",
+      metadata: { count, errors },
+    };
+  }
+  if (count > MAX_DIAGNOSTICS) {
+    output += `... ${count - MAX_DIAGNOSTICS} more\n`;
+  }
+  return { success: true, data: `${count} problems (${errors} errors):\n${output}`, metadata: { count, errors } };
+}
+
+/**
+ * Files that were not open get their diagnostics once the
+ * language server has checked them
+ */
+function waitForDiagnostics(uri: vscode.Uri): Promise<readonly vscode.Diagnostic[]> {
+  const current = vscode.languages.getDiagnostics(uri);
+  if (current.length > 0) {
+    return Promise.resolve(current);
+  }
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      listener.dispose();
+      resolve(vscode.languages.getDiagnostics(uri));
+    }, DIAGNOSTICS_WAIT_MS);
+    const listener = vscode.languages.onDidChangeDiagnostics((event) => {
+      if (event.uris.some((changed) => changed.toString() === uri.toString())) {
+        clearTimeout(timer);
+        listener.dispose();
+        resolve(vscode.languages.getDiagnostics(uri));
+      }
+    });
+  });
+}
+
+/* ============================================================
+ * Navigation
+ * ============================================================
+ */
+
+async function goToDefinition(context: ToolContext, params: PositionParams): Promise<ToolResult> {
+  const { document, position } = await resolvePosition(context, params);
+  const results = await vscode.commands.executeCommand<Array<vscode.Location | vscode.LocationLink>>(
+    "vscode.executeDefinitionProvider",
+    document.uri,
+    position
+  );
+  const locations = (results || []).map(toLocation);
+
+  if (locations.length === 0) {
+    return { success: false, data: "", error: `No definition found at ${params.filePath}:${params.line}` };
+  }
+  return {
+    success: true,
+    data: `Definitions:\n${await formatLocations(locations, context.workspacePath)}`,
+    metadata: { count: locations.length },
+  };
+}
+
+async function findReferences(context: ToolContext, params: PositionParams): Promise<ToolResult> {
+  const { document, position } = await resolvePosition(context, params);
+  const locations =
+    (await vscode.commands.executeCommand<vscode.Location[]>(
+      "vscode.executeReferenceProvider",
+      document.uri,
+      position
+    )) || [];
+
+  if (locations.length === 0) {
+    return { success: true, data: `No references found at ${params.filePath}:${params.line}`, metadata: { count: 0 } };
+  }
+
+  const files = new Set(locations.map((location) => location.uri.toString())).size;
+  let output = `${locations.length} references in ${files} files:\n`;
+  output += await formatLocations(locations.slice(0, MAX_LOCATIONS), context.workspacePath);
+  if (locations.length > MAX_LOCATIONS) {
+    output += `... ${locations.length - MAX_LOCATIONS} more\n`;
+  }
+  return { success: true, data: output, metadata: { count: locations.length, files } };
+}
+
+async function getHoverType(context: ToolContext, params: PositionParams): Promise<ToolResult> {
+  const { document, position } = await resolvePosition(context, params);
+  const hovers =
+    (await vscode.commands.executeCommand<vscode.Hover[]>(
+      "vscode.executeHoverProvider",
+      document.uri,
+      position
+    )) || [];
+
+  const text = hovers
+    .flatMap((hover) => hover.contents)
+    .map((content) => (typeof content === "string" ? content : content.value))
+    .filter((value) => value.trim())
+    .join("\n\n");
+
+  if (!text) {
+    return { success: false, data: "", error: `No type information at ${params.filePath}:${params.line}` };
+  }
+  return {
+    success: true,
+    data: text.length > MAX_HOVER_CHARS ? `${text.slice(0, MAX_HOVER_CHARS)}\n... (truncated)` : text,
+  };
+}
+
+/* ============================================================
+ * Symbols
+ * ============================================================
+ */
+
+async function getDocumentSymbols(context: ToolContext, filePath: string): Promise<ToolResult> {
+  const uri = vscode.Uri.file(resolvePath(filePath, context.workspacePath));
+  const document = await vscode.workspace.openTextDocument(uri);
+  const symbols =
+    (await vscode.commands.executeCommand<Array<vscode.DocumentSymbol | vscode.SymbolInformation>>(
+      "vscode.executeDocumentSymbolProvider",
+      document.uri
+    )) || [];
+
+  if (symbols.length === 0) {
+    return { success: true, data: `No symbols found in ${filePath}`, metadata: { count: 0 } };
+  }
+
+  const lines: string[] = [];
+  const visit = (symbol: vscode.DocumentSymbol | vscode.SymbolInformation, depth: number) => {
+    if (lines.length >= MAX_SYMBOLS) {
+      return;
+    }
+    const range = "range" in symbol ? symbol.range : symbol.location.range;
+    const detail = "detail" in symbol && symbol.detail ? ` - ${symbol.detail}` : "";
+    lines.push(
+      `${"  ".repeat(depth)}${vscode.SymbolKind[symbol.kind]} ${symbol.name} (lines ${range.start.line + 1}-${range.end.line + 1})${detail}`
+    );
+    if ("children" in symbol) {
+      symbol.children.forEach((child) => visit(child, depth + 1));
+    }
+  };
+  symbols.forEach((symbol) => visit(symbol, 0));
+
+  return {
+    success: true,
+    data: `Symbols in ${relativePath(document.uri, context.workspacePath)}:\n${lines.join("\n")}`,
+    metadata: { count: lines.length },
+  };
+}
+
+async function getWorkspaceSymbols(context: ToolContext, query: string): Promise<ToolResult> {
+  const symbols =
+    (await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+      "vscode.executeWorkspaceSymbolProvider",
+      query
+    )) || [];
+
+  if (symbols.length === 0) {
+    return { success: true, data: `No symbols match "${query}"`, metadata: { count: 0 } };
+  }
+
+  let output = `${symbols.length} symbols match "${query}":\n`;
+  symbols.slice(0, MAX_LOCATIONS).forEach((symbol) => {
+    const container = symbol.containerName ? ` in ${symbol.containerName}` : "";
+    output += `  ${vscode.SymbolKind[symbol.kind]} ${symbol.name}${container} - ${relativePath(symbol.location.uri, context.workspacePath)}:${symbol.location.range.start.line + 1}\n`;
+  });
+  if (symbols.length > MAX_LOCATIONS) {
+    output += `... ${symbols.length - MAX_LOCATIONS} more\n`;
+  }
+  return { success: true, data: output, metadata: { count: symbols.length } };
+}
+
+/* ============================================================
+ * Helpers
+ * ============================================================
+ */
+
+interface PositionParams {
+  filePath: string;
+  line: number; // 1-based
+  symbol?: string;
+  column?: number; // 1-based, used when no symbol is given
+}
+
+/**
+ * Find the position of a symbol (or column) on a line
+ */
+async function resolvePosition(
+  context: ToolContext,
+  params: PositionParams
+): Promise<{ document: vscode.TextDocument; position: vscode.Position }> {
+  const uri = vscode.Uri.file(resolvePath(params.filePath, context.workspacePath));
+  const document = await vscode.workspace.openTextDocument(uri);
+  if (params.line < 1 || params.line > document.lineCount) {
+    throw new Error(`Line ${params.line} is outside ${params.filePath} (${document.lineCount} lines)`);
+  }
+
+  const text = document.lineAt(params.line - 1).text;
+  let character = params.column ? params.column - 1 : text.search(/\S/);
+  if (params.symbol) {
+    const match = new RegExp(`\\b${params.symbol.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`).exec(text);
+    character = match ? match.index : text.indexOf(params.symbol);
+    if (character === -1) {
+      throw new Error(`"${params.symbol}" not found on line ${params.line} of ${params.filePath}`);
+    }
+  }
+  return { document, position: new vscode.Position(params.line - 1, Math.max(character, 0)) };
+}
+
+function toLocation(location: vscode.Location | vscode.LocationLink): vscode.Location {
+  return "targetUri" in location
+    ? new vscode.Location(location.targetUri, location.targetSelectionRange || location.targetRange)
+    : location;
+}
+
+/**
+ * "path:line  <source line>" for each location
+ */
+async function formatLocations(locations: vscode.Location[], workspacePath: string): Promise<string> {
+  let output = "";
+  for (const location of locations) {
+    const line = location.range.start.line;
+    let preview = "";
+    try {
+      const document = await vscode.workspace.openTextDocument(location.uri);
+      preview = document.lineAt(line).text.trim();
+    } catch {
+      // Virtual or deleted documents have no preview
+    }
+    output += `  ${relativePath(location.uri, workspacePath)}:${line + 1}${preview ? `  ${preview}` : ""}\n`;
+  }
+  return output;
+}
+
+function resolvePath(filePath: string, workspacePath: string): string {
+  return path.isAbsolute(filePath) ? filePath : path.join(workspacePath, filePath);
+}
+
+function relativePath(uri: vscode.Uri, workspacePath: string): string {
+  if (uri.scheme !== "file") {
+    return uri.toString();
+  }
+  const relative = path.relative(workspacePath, uri.fsPath);
+  return relative.startsWith("..") || path.isAbsolute(relative) ? uri.fsPath : relative;
+}
+
+/* ============================================================
+ * Tools
+ * ============================================================
+ */
+
+const POSITION_PROPERTIES = {
+  filePath: {
+    type: "string",
+    description: "File containing the symbol (relative to workspace or absolute)",
+  },
+  line: {
+    type: "integer",
+    description: "Line number (1-based)",
+  },
+  symbol: {
+    type: "string",
+    description: "Name of the symbol on that line (recommended)",
+  },
+  column: {
+    type: "integer",
+    description: "Column (1-based), used when no symbol is given (optional)",
+  },
+};
+
+const editorTools: Tool[] = [
+  {
+    name: "get_diagnostics",
+    description: "Get compiler and linter errors/warnings reported by the editor for a file or the whole workspace",
+    category: "editor",
+    permission: "read",
+    parameters: {
+      type: "object",
+      properties: {
+        filePath: {
+          type: "string",
+          description: "File to check (optional, default: all files with problems)",
+        },
+        severity: {
+          type: "string",
+          description: "Lowest severity to include (default: warning)",
+          enum: SEVERITIES,
+        },
+      },
+    },
+    execute: async (params, context) => {
+      return getDiagnostics(context, params.filePath, params.severity);
+    },
+  },
+  {
+    name: "go_to_definition",
+    description: "Find where a symbol used at a position is defined",
+    category: "editor",
+    permission: "read",
+    parameters: {
+      type: "object",
+      properties: POSITION_PROPERTIES,
+      required: ["filePath", "line"],
+    },
+    execute: async (params, context) => {
+      return goToDefinition(context, params);
+    },
+  },
+  {
+    name: "find_references",
+    description: "Find all call sites and usages of the symbol at a position",
+    category: "editor",
+    permission: "read",
+    parameters: {
+      type: "object",
+      properties: POSITION_PROPERTIES,
+      required: ["filePath", "line"],
+    },
+    execute: async (params, context) => {
+      return findReferences(context, params);
+    },
+  },
+  {
+    name: "hover_type",
+    description: "Get the type signature and documentation of the symbol at a position",
+    category: "editor",
+    permission: "read",
+    parameters: {
+      type: "object",
+      properties: POSITION_PROPERTIES,
+      required: ["filePath", "line"],
+    },
+    execute: async (params, context) => {
+      return getHoverType(context, params);
+    },
+  },
+  {
+    name: "document_symbols",
+    description: "List the classes, functions, methods and variables declared in a file with their line ranges",
+    category: "editor",
+    permission: "read",
+    parameters: {
+      type: "object",
+      properties: {
+        filePath: {
+          type: "string",
+          description: "File to outline (relative to workspace or absolute)",
+        },
+      },
+      required: ["filePath"],
+    },
+    execute: async (params, context) => {
+      return getDocumentSymbols(context, params.filePath);
+    },
+  },
+  {
+    name: "workspace_symbols",
+    description: "Search symbols (classes, functions, types) by name across the workspace",
+    category: "editor",
+    permission: "read",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Symbol name or part of it",
+        },
+      },
+      required: ["query"],
+    },
+    execute: async (params, context) => {
+      return getWorkspaceSymbols(context, params.query);
+    },
+  },
+];
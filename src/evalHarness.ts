@@ -0,0 +1,416 @@
+import * as path from "path";
+import * as os from "os";
+import * as fs from "fs/promises";
+import { exec } from "child_process";
+import { promisify } from "util";
+import { validateCode } from "./codeValidator";
+import {
+  executeSmartAgent,
+  SmartAgentConfig,
+  SmartAgentResult,
+  withModelForAllModes,
+} from "./smartAgent";
+
+const execAsync = promisify(exec);
+
+/* ============================================================
+ * Evaluation Harness - Benchmark Tasks for the Smart Agent
+ * ============================================================
+ * Runs a folder of tasks (input file, selection, prompt and the
+ * checks the output must pass) through executeSmartAgent and
+ * aggregates pass rate, validation score, retries, tokens and time
+ * by mode and model. With fixCode.replayMode "replay" or "mock"
+ * the whole suite runs offline and deterministically.
+ *
+ * Task file (<name>.task.json):
+ * {
+ *   "file": "input/fetch.ts",              // Relative to the task file
+ *   "range": { "startLine": 3, "endLine": 12 }, // 1-based, omit for the whole file
+ *   "prompt": "Convert to async/await",
+ *   "mode": "smart",                        // Optional forced mode
+ *   "expect": { "minScore": 80, "contains": ["await"], "command": "npx tsc --noEmit" }
+ * }
+ */
+
+type AgentMode = NonNullable<SmartAgentConfig["forceMode"]>;
+
+export interface EvalExpectation {
+  validator?: boolean; // validateCode must report no errors (default: true)
+  minScore?: number; // Minimum validateCode score
+  contains?: string[]; // Substrings the output must contain
+  notContains?: string[]; // Substrings the output must not contain
+  matches?: string; // Regular expression the output must match
+  mode?: AgentMode; // Mode the router is expected to pick
+  command?: string; // Shell command run on a copy with the output applied (exit 0 = pass)
+  timeoutMs?: number; // Command timeout (default: 60s)
+}
+
+export interface EvalTask {
+  name: string;
+  taskFile: string; // Absolute path of the .task.json
+  file: string;
+  range?: { startLine: number; endLine: number };
+  prompt: string;
+  mode?: AgentMode;
+  expect?: EvalExpectation;
+}
+
+export interface EvalRunResult {
+  task: string;
+  model: string;
+  mode: string;
+  passed: boolean;
+  failures: string[];
+  validationScore: number;
+  retries: number;
+  tokens: number;
+  cost: number;
+  time: number; // Seconds
+  result?: SmartAgentResult;
+}
+
+export interface EvalSummary {
+  model: string;
+  mode: string; // "all" for the per-model total
+  runs: number;
+  passed: number;
+  passRate: number; // 0-1
+  avgScore: number;
+  retries: number;
+  tokens: number;
+  cost: number;
+  avgTime: number;
+}
+
+export const TASK_FILE_SUFFIX = ".task.json";
+const DEFAULT_COMMAND_TIMEOUT = 60000;
+const MAX_COMMAND_OUTPUT = 1000;
+const SKIPPED_DIRS = new Set(["node_modules", ".git"]);
+
+/**
+ * Load every *.task.json below the evaluation folder
+ */
+export async function loadEvalTasks(dir: string): Promise<EvalTask[]> {
+  const tasks: EvalTask[] = [];
+
+  const walk = async (current: string): Promise<void> => {
+    const entries = await fs.readdir(current, { withFileTypes: true });
+    for (const entry of entries) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory() && !SKIPPED_DIRS.has(entry.name)) {
+        await walk(fullPath);
+      } else if (entry.isFile() && entry.name.endsWith(TASK_FILE_SUFFIX)) {
+        tasks.push(await loadEvalTask(fullPath, dir));
+      }
+    }
+  };
+
+  await walk(dir);
+  return tasks.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+async function loadEvalTask(taskFile: string, rootDir: string): Promise<EvalTask> {
+  let raw: Partial<EvalTask>;
+  try {
+    raw = JSON.parse(await fs.readFile(taskFile, "utf8"));
+  } catch (error) {
+    throw new Error(`Invalid task file ${taskFile}: ${error}`);
+  }
+
+  if (!raw.file || !raw.prompt) {
+    throw new Error(`Task file ${taskFile} needs "file" and "prompt"`);
+  }
+
+  return {
+    ...raw,
+    name: raw.name || path.relative(rootDir, taskFile).slice(0, -TASK_FILE_SUFFIX.length),
+    taskFile,
+    file: raw.file,
+    prompt: raw.prompt,
+  };
+}
+
+/**
+ * Run one task, optionally with every mode routed to one model.
+ * Command checks only run with allowCommands (fixCode.allowScriptExecution).
+ */
+export async function runEvalTask(
+  task: EvalTask,
+  baseConfig: SmartAgentConfig,
+  model?: string,
+  progressCallback?: (message: string) => void,
+  options: { allowCommands?: boolean } = {}
+): Promise<EvalRunResult> {
+  const taskDir = path.dirname(task.taskFile);
+  const filePath = path.resolve(taskDir, task.file);
+  const fullText = await fs.readFile(filePath, "utf8");
+  const selection = selectRange(fullText, task.range);
+
+  const config: SmartAgentConfig = {
+    ...(model ? withModelForAllModes(baseConfig, model) : baseConfig),
+    workspacePath: taskDir,
+    currentFile: filePath,
+    selectedCode: selection.text,
+    fullFileContent: fullText,
+    selectionOffset: selection.start,
+    userPrompt: task.prompt,
+    forceMode: task.mode,
+    enableWebSearch: false, // Live results would change the prompt between runs
+    executeActions: false,
+  };
+
+  const startTime = Date.now();
+  let result: SmartAgentResult | undefined;
+  const failures: string[] = [];
+
+  try {
+    result = await executeSmartAgent(config, progressCallback);
+    if (result.cancelled) {
+      throw new Error("Cancelled by user");
+    }
+    if (!result.code) {
+      failures.push(result.error || "No code returned");
+    } else {
+      if (!result.success) {
+        failures.push(result.error || "Agent reported failure");
+      }
+      failures.push(
+        ...(await checkExpectations(task, result, filePath, fullText, selection, {
+          allowCommands: options.allowCommands,
+          signal: config.signal,
+        }))
+      );
+    }
+  } catch (error) {
+    if (config.signal?.aborted) {
+      throw error;
+    }
+    failures.push(error instanceof Error ? error.message : String(error));
+  }
+
+  const code = result?.code;
+  return {
+    task: task.name,
+    model: result?.modelUsed || model || baseConfig.model,
+    mode: result?.mode || task.mode || "unknown",
+    passed: failures.length === 0,
+    failures,
+    validationScore: code ? validateCode(code, path.basename(filePath)).score : 0,
+    retries: result?.retries || 0,
+    tokens: result?.usage?.totalTokens || 0,
+    cost: result?.usage?.cost || 0,
+    time: (Date.now() - startTime) / 1000,
+    result,
+  };
+}
+
+/**
+ * Check the output against the task's expectations
+ * (returns the failed checks)
+ */
+async function checkExpectations(
+  task: EvalTask,
+  result: SmartAgentResult,
+  filePath: string,
+  fullText: string,
+  selection: { start: number; end: number },
+  options: { allowCommands?: boolean; signal?: AbortSignal }
+): Promise<string[]> {
+  const expect = task.expect || {};
+  const code = result.code || "";
+  const failures: string[] = [];
+
+  if (expect.validator !== false || expect.minScore !== undefined) {
+    const validation = validateCode(code, path.basename(filePath));
+    if (expect.validator !== false && !validation.isValid) {
+      failures.push(`Validation errors: ${validation.errors.map((e) => e.message).slice(0, 3).join("; ")}`);
+    }
+    if (expect.minScore !== undefined && validation.score < expect.minScore) {
+      failures.push(`Score ${validation.score} < ${expect.minScore}`);
+    }
+  }
+
+  for (const text of expect.contains || []) {
+    if (!code.includes(text)) {
+      failures.push(`Missing "${text}"`);
+    }
+  }
+  for (const text of expect.notContains || []) {
+    if (code.includes(text)) {
+      failures.push(`Unexpected "${text}"`);
+    }
+  }
+  if (expect.matches && !new RegExp(expect.matches, "m").test(code)) {
+    failures.push(`No match for /${expect.matches}/`);
+  }
+  if (expect.mode && result.mode !== expect.mode) {
+    failures.push(`Routed to ${result.mode}, expected ${expect.mode}`);
+  }
+
+  if (expect.command && !options.allowCommands) {
+    failures.push(`Command check not run (${expect.command}) - enable fixCode.allowScriptExecution`);
+  } else if (expect.command) {
+    const patched = fullText.slice(0, selection.start) + code + fullText.slice(selection.end);
+    const commandFailure = await runCheckCommand(task, filePath, patched, expect, options.signal);
+    if (commandFailure) {
+      failures.push(commandFailure);
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Run the check command in a temporary copy of the task folder with
+ * the output applied (null when it exits with 0)
+ */
+async function runCheckCommand(
+  task: EvalTask,
+  filePath: string,
+  patchedContent: string,
+  expect: EvalExpectation,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const taskDir = path.dirname(task.taskFile);
+  const relativeFile = path.relative(taskDir, filePath);
+  if (relativeFile.startsWith("..")) {
+    return `Command checks need the input file inside the task folder (${task.file})`;
+  }
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "fixcode-eval-"));
+  try {
+    await fs.cp(taskDir, workDir, { recursive: true });
+    await fs.writeFile(path.join(workDir, relativeFile), patchedContent, "utf8");
+
+    await execAsync(expect.command!, {
+      cwd: workDir,
+      timeout: expect.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT,
+      signal,
+    });
+    return null;
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new Error("Cancelled by user");
+    }
+    const output = getCommandOutput(error);
+    return `Command failed: ${expect.command}\n${output.slice(-MAX_COMMAND_OUTPUT)}`;
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * stdout and stderr of a failed command (exec adds them to the error)
+ */
+function getCommandOutput(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return String(error);
+  }
+  const { stdout, stderr } = error as Error & { stdout?: string; stderr?: string };
+  return `${stdout || ""}${stderr || ""}`.trim() || error.message;
+}
+
+/**
+ * Character offsets and text of a 1-based inclusive line range
+ */
+function selectRange(
+  text: string,
+  range?: EvalTask["range"]
+): { start: number; end: number; text: string } {
+  if (!range) {
+    return { start: 0, end: text.length, text };
+  }
+
+  const lines = text.split("\n");
+  const startLine = Math.max(1, range.startLine);
+  const endLine = Math.min(lines.length, range.endLine);
+  const start = lines.slice(0, startLine - 1).reduce((sum, line) => sum + line.length + 1, 0);
+  const selected = lines.slice(startLine - 1, endLine).join("\n");
+
+  return { start, end: start + selected.length, text: selected };
+}
+
+/**
+ * Aggregate runs by model and mode, plus one "all" row per model
+ */
+export function aggregateEvalResults(results: EvalRunResult[]): EvalSummary[] {
+  const groups = new Map<string, EvalRunResult[]>();
+  for (const result of results) {
+    for (const mode of [result.mode, "all"]) {
+      const key = `${result.model}\u0000${mode}`;
+      groups.set(key, [...(groups.get(key) || []), result]);
+    }
+  }
+
+  return [...groups.entries()]
+    .map(([key, runs]) => {
+      const [model, mode] = key.split("\u0000");
+      const passed = runs.filter((run) => run.passed).length;
+      const sum = (pick: (run: EvalRunResult) => number) =>
+        runs.reduce((total, run) => total + pick(run), 0);
+
+      return {
+        model,
+        mode,
+        runs: runs.length,
+        passed,
+        passRate: passed / runs.length,
+        avgScore: sum((run) => run.validationScore) / runs.length,
+        retries: sum((run) => run.retries),
+        tokens: sum((run) => run.tokens),
+        cost: sum((run) => run.cost),
+        avgTime: sum((run) => run.time) / runs.length,
+      };
+    })
+    .sort((a, b) =>
+      a.model.localeCompare(b.model) ||
+      Number(a.mode === "all") - Number(b.mode === "all") ||
+      a.mode.localeCompare(b.mode)
+    );
+}
+
+/**
+ * Format results as a Markdown report
+ */
+export function formatEvalReport(
+  results: EvalRunResult[],
+  summaries: EvalSummary[],
+  info: { startedAt: Date; tasksDir: string; replayMode: string }
+): string {
+  const passed = results.filter((result) => result.passed).length;
+  let report = `# Fix Code Evaluation - ${info.startedAt.toLocaleString()}\n\n`;
+  report += `- **Tasks:** ${info.tasksDir}\n`;
+  report += `- **Replay mode:** ${info.replayMode}\n`;
+  report += `- **Passed:** ${passed}/${results.length} (${formatPercent(passed / Math.max(1, results.length))})\n\n`;
+
+  report += `## Summary\n\n`;
+  report += `| Model | Mode | Runs | Pass Rate | Avg Score | Retries | Tokens | Cost | Avg Time |\n`;
+  report += `|-------|------|------|-----------|-----------|---------|--------|------|----------|\n`;
+  for (const s of summaries) {
+    const mode = s.mode === "all" ? "**all**" : s.mode;
+    report += `| ${s.model} | ${mode} | ${s.runs} | ${formatPercent(s.passRate)} | ${s.avgScore.toFixed(1)} | ${s.retries} | ${s.tokens.toLocaleString()} | $${s.cost.toFixed(4)} | ${s.avgTime.toFixed(1)}s |\n`;
+  }
+
+  report += `\n## Tasks\n\n`;
+  report += `| Task | Model | Mode | Result | Score | Retries | Tokens | Time |\n`;
+  report += `|------|-------|------|--------|-------|---------|--------|------|\n`;
+  for (const r of results) {
+    report += `| ${r.task} | ${r.model} | ${r.mode} | ${r.passed ? "✅ pass" : "❌ fail"} | ${r.validationScore} | ${r.retries} | ${r.tokens.toLocaleString()} | ${r.time.toFixed(1)}s |\n`;
+  }
+
+  const failed = results.filter((result) => !result.passed);
+  if (failed.length > 0) {
+    report += `\n## Failures\n\n`;
+    for (const r of failed) {
+      report += `### ${r.task} (${r.model})\n\n`;
+      report += r.failures.map((failure) => `- ${failure.replace(/\n/g, "\n  ")}`).join("\n");
+      report += `\n\n`;
+    }
+  }
+
+  return report;
+}
+
+function formatPercent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
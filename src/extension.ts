@@ -3,8 +3,14 @@ import path from "path";
 import fs from "fs/promises";
 import { FixCodeActionProvider } from "./FixCodeActionProvider";
 import {
+  executePlan,
   executeSmartAgent,
+  generatePlan,
+  getTaskMode,
+  ModeSettings,
   SmartAgentConfig,
+  SmartAgentResult,
+  withModelForAllModes,
   clearProjectCache,
   clearAllCaches,
   getCacheStats,
@@ -17,12 +23,103 @@ import {
   clearTaskNotes,
   getTaskNotesStats,
 } from "./taskNotes";
+import { StreamPreview } from "./streamPreview";
+import { validateCode, ValidationResult } from "./codeValidator";
+import { configureHttp, HttpSettings } from "./httpClient";
+import { describeBudgetReport } from "./promptBuilder";
+import { buildContinuationPrompt, getTailText, isOutputComplete } from "./continuation";
+import { getResponseTokenLimit } from "./tokenBudget";
+import {
+  CatalogModel,
+  DEFAULT_CATALOG_REFRESH_HOURS,
+  ModelCatalog,
+  ModelFilter,
+  checkModelFilter,
+  describeModelFilter,
+  filterModels,
+  getCatalogModel,
+  getModelCatalog,
+  initModelCatalog,
+  mergeModelFilters,
+  supportsImageInput,
+  supportsTools,
+} from "./modelCatalog";
+import {
+  checkBudget,
+  clearUsage,
+  formatCost,
+  getUsageReport,
+  hasModelPricing,
+  initUsageTracker,
+  recordUsage,
+} from "./usageTracker";
+import {
+  CredentialProfile,
+  PROVIDER_ENV_VARS,
+  deleteCredentialProfile,
+  describeKeySource,
+  getActiveProfile,
+  getActiveProfileName,
+  getProfileApiKey,
+  initCredentialProfiles,
+  listCredentialProfiles,
+  saveCredentialProfile,
+  whenCredentialProfilesLoaded,
+} from "./credentialProfiles";
+import {
+  ChatMessage,
+  ProviderType,
+  createLLMProvider,
+  getProviderSettings,
+  getReplaySettings,
+  providerRequiresApiKey,
+} from "./llmClient";
+import {
+  EvalRunResult,
+  aggregateEvalResults,
+  formatEvalReport,
+  loadEvalTasks,
+  runEvalTask,
+  TASK_FILE_SUFFIX,
+} from "./evalHarness";
+import {
+  getMCPServerStatus,
+  initMCPServers,
+  restartMCPServers,
+  whenMCPServersReady,
+} from "./mcpServers";
+import {
+  FixCodeToolRequest,
+  FixCodeToolResult,
+  getToolServerSocketPath,
+  MCPToolServer,
+} from "./mcpToolServer";
+import { initEditorTools } from "./editorTools";
+import { describePlanProgress, ExecutionPlan, formatPlan, PlanStep } from "./planMode";
+import { configureTestRunner, TestRunnerSettings } from "./testRunner";
+import {
+  generateToolDocumentation,
+  listTools,
+  registerTool,
+  Tool,
+  ToolFilter,
+} from "./toolRegistry";
 
 /* ============================================================
  * Types
  * ============================================================
  */
 
+/**
+ * API returned from activate, for extensions that add agent tools:
+ *   const api = vscode.extensions.getExtension("<id>")?.exports;
+ *   context.subscriptions.push(api.registerTool({ name, description, parameters, permission, execute }));
+ */
+export interface FixCodeApi {
+  registerTool(tool: Tool): vscode.Disposable;
+  listTools(filter?: ToolFilter): Tool[];
+}
+
 interface FixPayload {
   fileName: string;
   filePath: string;
@@ -30,52 +127,11 @@ interface FixPayload {
   prompt: string;
   rangeText: string;
   fullText: string;
+  rangeOffset?: number; // Offset of rangeText in fullText
+  forceMode?: SmartAgentConfig["forceMode"];
 }
 
-interface OpenRouterMessage {
-  role: "user" | "assistant" | "system";
-  content: string;
-}
-
-interface OpenRouterResponse {
-  id: string;
-  model: string;
-  choices: Array<{
-    message: {
-      role: string;
-      content: string;
-    };
-    finish_reason: "stop" | "length" | "content_filter" | null;
-  }>;
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
-
-interface OpenRouterModel {
-  id: string;
-  name: string;
-  description?: string;
-  pricing: {
-    prompt: string;
-    completion: string;
-  };
-  context_length: number;
-  architecture?: {
-    modality?: string;
-    tokenizer?: string;
-    instruct_type?: string;
-  };
-  top_provider?: {
-    max_completion_tokens?: number;
-  };
-}
-
-interface OpenRouterModelsResponse {
-  data: OpenRouterModel[];
-}
+type FixMode = NonNullable<SmartAgentConfig["forceMode"]>;
 
 /* ============================================================
  * Constants
@@ -83,9 +139,13 @@ interface OpenRouterModelsResponse {
  */
 
 const SECRET_KEY = "openRouterApiKey";
-const OPENROUTER_API_URL = "https://openrouter.ai/api/v1/chat/completions";
-const OPENROUTER_MODELS_URL = "https://openrouter.ai/api/v1/models";
+const ANTHROPIC_SECRET_KEY = "anthropicApiKey";
+const OPENAI_COMPATIBLE_SECRET_KEY = "openAICompatibleApiKey";
 const DEFAULT_MODEL = "anthropic/claude-sonnet-4.5:beta";
+const FIX_MODES: FixMode[] = ["instant", "smart", "deep", "agent"];
+const DEFAULT_MODE_REQUIREMENTS: { [mode in FixMode]?: ModelFilter } = {
+  agent: { tools: true },
+};
 
 // Legacy fallback (.env) – optional
 const ENV_FILE_PATH = (() => {
@@ -129,13 +189,20 @@ async function writeTaskNoteFromResult(
         linesModified: (payload.rangeText.match(/\n/g) || []).length + 1,
         language: language || "unknown",
       },
-      whatIDid: extractWhatIDid(
-        payload.prompt,
-        result.mode || "smart",
-        result.validated !== false,
-        result.retries || 0,
-        result.webSearchUsed || false
-      ),
+      whatIDid: [
+        ...extractWhatIDid(
+          payload.prompt,
+          result.mode || "smart",
+          result.validated !== false && !result.cancelled,
+          result.retries || 0,
+          result.webSearchUsed || false
+        ),
+        // Plan mode: one line per step with its outcome
+        ...(result.plan?.steps || []).map(
+          (step: PlanStep) =>
+            `Plan step ${step.id} (${step.status}): ${step.title}${step.note ? ` - ${step.note}` : ""}`
+        ),
+      ],
       changesMade: result.changesMade || {},
       webSearchUsed: result.webSearchUsed || false,
       webSearchDetails: result.webSearchDetails,
@@ -146,7 +213,18 @@ async function writeTaskNoteFromResult(
       },
       complexity: result.mode || "smart",
       executionTime: result.executionTime || 0,
-      result: result.success ? "success" : "failed",
+      usage: result.usage,
+      contextTrimmed: result.promptBudget
+        ? describeBudgetReport(result.promptBudget) || undefined
+        : undefined,
+      model: result.modelUsed
+        ? {
+            used: result.modelUsed,
+            failedModels: result.failedModels || [],
+            transportRetries: result.transportRetries || 0,
+          }
+        : undefined,
+      result: result.cancelled ? "cancelled" : result.success ? "success" : "failed",
       errorMessage: result.error,
     };
 
@@ -169,12 +247,53 @@ async function writeTaskNoteFromResult(
  * ============================================================
  */
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): FixCodeApi {
   console.log("===================================");
   console.log("Fix Code with makuro - ACTIVATING");
   console.log("Version: 1.0.19");
   console.log("===================================");
 
+  initUsageTracker(context.globalState);
+  configureHttp(getHttpSettings());
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("http") || event.affectsConfiguration("fixCode.caCertificates")) {
+        configureHttp(getHttpSettings());
+      }
+    })
+  );
+  context.subscriptions.push(initCredentialProfiles(context.secrets));
+  initModelCatalog(context.globalStorageUri.fsPath).catch((error) =>
+    console.warn("Could not load cached model catalog:", error)
+  );
+  context.subscriptions.push(initEditorTools());
+  configureTestRunner(getTestRunnerSettings());
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (
+        event.affectsConfiguration("fixCode.allowScriptExecution") ||
+        event.affectsConfiguration("fixCode.testCommand") ||
+        event.affectsConfiguration("fixCode.testTimeoutSeconds")
+      ) {
+        configureTestRunner(getTestRunnerSettings());
+      }
+    }),
+    vscode.workspace.onDidGrantWorkspaceTrust(() => configureTestRunner(getTestRunnerSettings()))
+  );
+  context.subscriptions.push(initMCPServers(context.extension.packageJSON.version));
+  updateMCPToolServer(context);
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (
+        event.affectsConfiguration("fixCode.enableMCPToolServer") ||
+        event.affectsConfiguration("fixCode.allowMCPFixCode")
+      ) {
+        updateMCPToolServer(context);
+      }
+    }),
+    { dispose: () => toolServer?.close() }
+  );
+
   // Show activation notification (only on first install)
   const hasShownWelcome = context.globalState.get<boolean>("hasShownWelcome");
   if (!hasShownWelcome) {
@@ -213,221 +332,49 @@ export function activate(context: vscode.ExtensionContext) {
 
   // Main Command: Fix Code
   context.subscriptions.push(
-    vscode.commands.registerCommand(
-      "fixCode.open",
-      async () => {
-        const editor = vscode.window.activeTextEditor;
-        if (!editor) {
-          vscode.window.showWarningMessage("No active editor found.");
-          return;
-        }
-
-        const document = editor.document;
-        const selection = editor.selection;
-
-        // Determine range: use selection if exists, otherwise use full document
-        let range: vscode.Range;
-        let isFullFile = false;
-
-        if (selection.isEmpty) {
-          // No selection - use entire file
-          range = new vscode.Range(
-            document.positionAt(0),
-            document.positionAt(document.getText().length)
-          );
-          isFullFile = true;
-        } else {
-          // Has selection - use selected range
-          range = new vscode.Range(selection.start, selection.end);
-          isFullFile = false;
-        }
-
-        // 1. Save document context BEFORE async operations
-        // This ensures we can reopen/find the file even if user closes it
-        const documentUri = document.uri;
-        const documentPath = document.fileName;
-        const originalEditor = editor; // Keep reference but don't rely on it later
-
-        // 2. Ensure API Key exists
-        const apiKey = await ensureApiKey(context);
-        if (!apiKey) { return; }
-
-        // 3. File & workspace info
-        const fileName = path.basename(document.fileName);
-        const filePath = document.fileName;
-        const workspaceFolder = vscode.workspace.getWorkspaceFolder(
-          document.uri
-        );
-        const workspacePath = workspaceFolder?.uri.fsPath ?? null;
-
-        // 4. Decoration (highlight) - only if editor still active
-        const decoration = vscode.window.createTextEditorDecorationType({
-          isWholeLine: true,
-          backgroundColor: "rgba(80, 140, 255, 0.2)",
-          border: "1px solid rgba(80, 140, 255, 0.5)",
-        });
-
-        try {
-          // Try to set decoration if editor still active
-          if (originalEditor && !originalEditor.document.isClosed) {
-            originalEditor.setDecorations(decoration, [range]);
-          }
-
-          // 4. Prompt user
-          const linesCount = range.end.line - range.start.line + 1;
-          const scopeInfo = isFullFile
-            ? `Full file (${linesCount} lines)`
-            : `Selected code (${linesCount} lines)`;
-
-          const prompt = await vscode.window.showInputBox({
-            title: `Fix Code - ${scopeInfo}`,
-            prompt: "Describe what you want to fix or improve",
-            placeHolder: "e.g. Refactor this function to be async",
-            ignoreFocusOut: true,
-          });
-
-          if (!prompt) {
-            vscode.window.showInformationMessage("Operation cancelled.");
-            return;
-          }
-
-          // 5. Payload
-          const payload: FixPayload = {
-            fileName,
-            filePath,
-            workspacePath,
-            prompt,
-            rangeText: document.getText(range),
-            fullText: document.getText(),
-          };
-
-          vscode.window.showInformationMessage(
-            `Processing "${fileName}"...`
-          );
-
-          console.log("Fix payload prepared", payload);
-
-          // 6. Send to Smart AI Agent
-          const result = await vscode.window.withProgress(
-            {
-              location: vscode.ProgressLocation.Notification,
-              title: "Smart AI analyzing code...",
-              cancellable: false,
-            },
-            async (progress) => {
-              return await sendToAIAgent(payload, apiKey, (message) => {
-                progress.report({ message });
-              });
-            }
-          );
-
-          if (result.success && result.code) {
-            // Show mode used
-            const modeEmoji: { [key: string]: string } = {
-              instant: "⚡",
-              smart: "🧠",
-              deep: "🔬",
-            };
-            const mode = result.mode || "smart";
-            const emoji = modeEmoji[mode] || "🧠";
-            const cacheInfo = result.cachedUsed ? " (cached)" : "";
-
-            // Build success message with validation info
-            let successMsg = `${emoji} ${mode.toUpperCase()} mode used${cacheInfo}`;
-
-            if (result.validated) {
-              const scoreEmoji = result.validationScore && result.validationScore >= 90 ? "✅" : result.validationScore && result.validationScore >= 70 ? "✓" : "⚠️";
-              successMsg += ` ${scoreEmoji} Validated (${result.validationScore}/100)`;
-
-              if (result.retries && result.retries > 0) {
-                successMsg += ` - Fixed after ${result.retries} ${result.retries === 1 ? "retry" : "retries"}`;
-              }
-            }
-
-            // Show actions executed
-            if (result.actionsExecuted && result.actionsExecuted.length > 0) {
-              successMsg += ` 🤖 ${result.actionsExecuted.length} action(s)`;
-            }
-
-            // Show web search usage
-            if (result.webSearchUsed && result.webSearchResults && result.webSearchResults > 0) {
-              successMsg += ` 🌐 Web search: ${result.webSearchResults} result(s)`;
-            }
-
-            vscode.window.showInformationMessage(successMsg);
-
-            // Show detailed actions if any
-            if (result.actionsSummary) {
-              vscode.window.showInformationMessage(
-                `Autonomous Actions:\n${result.actionsSummary}`,
-                "OK"
-              );
-            }
-
-            // Apply fix - works even if file was closed/switched
-            await applyCodeFixSafe(documentUri, documentPath, range, result.code);
-
-            // Write task note
-            await writeTaskNoteFromResult(
-              payload,
-              result,
-              context
-            );
-          } else if (!result.success && result.code && result.validationErrors) {
-            // Validation failed but we have code
-            const config = vscode.workspace.getConfiguration("fixCode");
-            const showDetails = config.get<boolean>("showValidationDetails", true);
-
-            let errorMsg = `⚠️ Validation failed (Score: ${result.validationScore}/100)`;
-            if (result.retries) {
-              errorMsg += ` after ${result.retries} retries`;
-            }
+    vscode.commands.registerCommand("fixCode.open", () => runFixCode(context))
+  );
 
-            if (showDetails && result.validationErrors.length > 0) {
-              errorMsg += `\n\nErrors:\n${result.validationErrors.slice(0, 3).join("\n")}`;
-              if (result.validationErrors.length > 3) {
-                errorMsg += `\n... and ${result.validationErrors.length - 3} more`;
-              }
-            }
+  // Command: Fix Code with Deep Agent (multi-turn, tool-using)
+  context.subscriptions.push(
+    vscode.commands.registerCommand("fixCode.deepAgent", () =>
+      runFixCode(context, "agent")
+    )
+  );
 
-            const action = await vscode.window.showWarningMessage(
-              errorMsg,
-              "Apply Anyway",
-              "Cancel"
-            );
+  // Command: Fix Code with Plan Review (approve the steps before they run)
+  context.subscriptions.push(
+    vscode.commands.registerCommand("fixCode.planAndFix", () =>
+      runFixCode(context, undefined, true)
+    )
+  );
 
-            if (action === "Apply Anyway") {
-              // Apply fix - works even if file was closed/switched
-              await applyCodeFixSafe(documentUri, documentPath, range, result.code);
+  // Command: Compare Models (same request, 2-4 models in parallel)
+  context.subscriptions.push(
+    vscode.commands.registerCommand("fixCode.compareModels", () =>
+      runCompareModels(context)
+    )
+  );
 
-              // Write task note even for failed validation
-              await writeTaskNoteFromResult(
-                payload,
-                result,
-                context
-              );
-            }
-          } else {
-            throw new Error(result.error || "Agent failed to generate fix");
-          }
-        } catch (error) {
-          vscode.window.showErrorMessage(
-            `Error: ${error instanceof Error ? error.message : String(error)
-            }`
-          );
-          console.error("Fix code error:", error);
-        } finally {
-          decoration.dispose();
-        }
-      }
+  // Command: Run Evaluation (benchmark tasks through the smart agent)
+  context.subscriptions.push(
+    vscode.commands.registerCommand("fixCode.runEvaluation", () =>
+      runEvaluation(context)
     )
   );
 
+  // Read-only documents shown in model comparison diffs
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(COMPARE_SCHEME, {
+      provideTextDocumentContent: (uri) => compareDocuments.get(uri.toString()) ?? "",
+    })
+  );
+
   // Command: Reset API Key
   context.subscriptions.push(
     vscode.commands.registerCommand("fixCode.resetApiKey", async () => {
       try {
-        await context.secrets.delete(SECRET_KEY);
+        await context.secrets.delete(getSecretKey());
         vscode.window.showInformationMessage(
           "API Key removed successfully. You'll be prompted for a new one next time."
         );
@@ -444,46 +391,79 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.commands.registerCommand("fixCode.selectModel", async () => {
       try {
-        // Fetch models from OpenRouter
-        const models = await vscode.window.withProgress(
+        const target = await pickModelTarget();
+        if (!target) {
+          vscode.window.showInformationMessage("Model selection cancelled.");
+          return;
+        }
+
+        const filterChoice = await pickModelFilter();
+        if (!filterChoice) {
+          vscode.window.showInformationMessage("Model selection cancelled.");
+          return;
+        }
+
+        // Load the catalog (from disk unless stale or a refresh was requested)
+        const catalog = await vscode.window.withProgress(
           {
             location: vscode.ProgressLocation.Notification,
-            title: "Fetching available models from OpenRouter...",
+            title: "Loading available models from OpenRouter...",
             cancellable: false,
           },
           async () => {
-            return await fetchModelsFromOpenRouter();
+            return await loadModelCatalog(filterChoice.forceRefresh);
           }
         );
 
-        if (!models || models.length === 0) {
+        if (catalog.models.length === 0) {
           vscode.window.showErrorMessage("Failed to fetch models from OpenRouter.");
           return;
         }
 
+        // Mode requirements always apply on top of the chosen filters
+        const filter =
+          target === "default"
+            ? filterChoice.filter
+            : mergeModelFilters(filterChoice.filter, getModeRequirements(target));
+        const models = filterModels(catalog.models, filter);
+        const filterLabel = describeModelFilter(filter);
+
+        if (models.length === 0) {
+          vscode.window.showWarningMessage(
+            `No models match the filters: ${filterLabel}`
+          );
+          return;
+        }
+
         // Get current model
         const config = vscode.workspace.getConfiguration("fixCode");
-        const currentModel = config.get<string>("model") || DEFAULT_MODEL;
+        const modeOverrides = config.get<{ [mode: string]: Partial<ModeSettings> }>("modeSettings", {});
+        const currentModel =
+          target === "default"
+            ? config.get<string>("model") || DEFAULT_MODEL
+            : getModeSettings()[target].model;
 
         // Create QuickPick items
-        const quickPickItems: vscode.QuickPickItem[] = models.map((model) => {
-          const promptPrice = parseFloat(model.pricing.prompt) * 1000000;
-          const completionPrice = parseFloat(model.pricing.completion) * 1000000;
-
-          return {
-            label: model.name,
-            description: model.id,
-            detail: `Context: ${model.context_length.toLocaleString()} tokens | Pricing: $${promptPrice.toFixed(2)}/$${completionPrice.toFixed(2)} per 1M tokens`,
-            picked: model.id === currentModel,
-          };
-        });
+        const quickPickItems: vscode.QuickPickItem[] = models.map((model) => ({
+          label: model.name,
+          description: model.id,
+          detail: formatModelDetail(model),
+          picked: model.id === currentModel,
+        }));
 
         // Show QuickPick
+        const targetLabel =
+          target === "default"
+            ? "Default AI Model"
+            : `${target.charAt(0).toUpperCase()}${target.slice(1)} Mode Model`;
+        const catalogAge = catalog.stale
+          ? ` • offline, list from ${new Date(catalog.fetchedAt).toLocaleDateString()}`
+          : "";
         const selected = await vscode.window.showQuickPick(quickPickItems, {
-          placeHolder: "Search and select a model to set as default",
+          placeHolder: `Search and select a model (${models.length} of ${catalog.models.length} models)`,
           matchOnDescription: true,
           matchOnDetail: true,
-          title: "Select Default AI Model",
+          title: `Select ${targetLabel}${filterLabel ? ` • ${filterLabel}` : ""}${catalogAge}`,
         });
 
         if (!selected || !selected.description) {
@@ -492,10 +472,21 @@ export function activate(context: vscode.ExtensionContext) {
         }
 
         // Save selected model to settings
-        await config.update("model", selected.description, vscode.ConfigurationTarget.Global);
-        vscode.window.showInformationMessage(
-          `Default model set to: ${selected.label}`
-        );
+        if (target === "default") {
+          await config.update("model", selected.description, vscode.ConfigurationTarget.Global);
+          vscode.window.showInformationMessage(
+            `Default model set to: ${selected.label}`
+          );
+        } else {
+          await config.update(
+            "modeSettings",
+            { ...modeOverrides, [target]: { ...modeOverrides[target], model: selected.description } },
+            vscode.ConfigurationTarget.Global
+          );
+          vscode.window.showInformationMessage(
+            `${targetLabel} set to: ${selected.label}`
+          );
+        }
       } catch (error) {
         vscode.window.showErrorMessage(
           `Failed to select model: ${error instanceof Error ? error.message : String(error)
@@ -508,10 +499,11 @@ export function activate(context: vscode.ExtensionContext) {
   // Command: Set API Key
   context.subscriptions.push(
     vscode.commands.registerCommand("fixCode.setApiKey", async () => {
+      const keyInfo = getApiKeyInfo();
       const input = await vscode.window.showInputBox({
-        title: "Set OpenRouter API Key",
-        prompt: "Enter your OpenRouter API Key",
-        placeHolder: "sk-or-v1-...",
+        title: `Set ${keyInfo.label} API Key`,
+        prompt: `Enter your ${keyInfo.label} API Key`,
+        placeHolder: keyInfo.placeHolder,
         password: true,
         ignoreFocusOut: true,
         validateInput: (value) =>
@@ -524,8 +516,8 @@ export function activate(context: vscode.ExtensionContext) {
       }
 
       try {
-        await context.secrets.store(SECRET_KEY, input.trim());
-        vscode.window.showInformationMessage("API Key saved securely.");
+        await context.secrets.store(getSecretKey(), input.trim());
+        vscode.window.showInformationMessage(`${keyInfo.label} API Key saved securely.`);
       } catch (error) {
         vscode.window.showErrorMessage(
           `Failed to save API Key: ${error instanceof Error ? error.message : String(error)
@@ -535,6 +527,160 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // Command: Set Credential Profile (create or edit)
+  context.subscriptions.push(
+    vscode.commands.registerCommand("fixCode.setCredentialProfile", async () => {
+      try {
+        await editCredentialProfile();
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to save credential profile: ${error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    })
+  );
+
+  // Command: Reset Credential Profile
+  context.subscriptions.push(
+    vscode.commands.registerCommand("fixCode.resetCredentialProfile", async () => {
+      try {
+        const profile = await pickCredentialProfile("Select a profile to delete");
+        if (!profile) {
+          return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+          `Delete credential profile "${profile.name}"${profile.envVar ? "" : " and its stored API key"}?`,
+          { modal: true },
+          "Delete"
+        );
+        if (confirm !== "Delete") {
+          return;
+        }
+
+        await deleteCredentialProfile(profile.name);
+        if (getActiveProfileName() === profile.name) {
+          await setWorkspaceProfile("");
+        }
+        vscode.window.showInformationMessage(`Credential profile "${profile.name}" deleted.`);
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to delete credential profile: ${error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    })
+  );
+
+  // Command: List Credential Profiles (and pick one for this workspace)
+  context.subscriptions.push(
+    vscode.commands.registerCommand("fixCode.listCredentialProfiles", async () => {
+      await whenCredentialProfilesLoaded();
+      const activeName = getActiveProfileName();
+      const profiles = listCredentialProfiles();
+
+      const items: Array<vscode.QuickPickItem & { profileName: string }> = [
+        {
+          label: `${activeName ? "" : "✓ "}Default Settings`,
+          description: "fixCode.provider / fixCode.baseUrl",
+          detail: "Key from Set API Key, environment variable or ~/.openrouter.env",
+          profileName: "",
+        },
+        ...(await Promise.all(
+          profiles.map(async (profile) => {
+            const hasKey = (await getProfileApiKey(profile)) !== null;
+            return {
+              label: `${profile.name === activeName ? "✓ " : ""}${profile.name}`,
+              description: `${profile.provider}${profile.baseUrl ? ` • ${profile.baseUrl}` : ""}`,
+              detail: `Key: ${describeKeySource(profile)} ${hasKey ? "✅" : "❌ missing"}`,
+              profileName: profile.name,
+            };
+          })
+        )),
+      ];
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder:
+          profiles.length > 0
+            ? "Select the credential profile for this workspace"
+            : "No profiles yet - use 'Fix Code: Set Credential Profile' to create one",
+        matchOnDescription: true,
+        title: `Credential Profiles (${profiles.length})`,
+      });
+
+      if (!selected || selected.profileName === activeName) {
+        return;
+      }
+
+      await setWorkspaceProfile(selected.profileName);
+      vscode.window.showInformationMessage(
+        selected.profileName
+          ? `This workspace now uses credential profile "${selected.profileName}".`
+          : "This workspace now uses the default provider settings."
+      );
+    })
+  );
+
+  // Command: Show MCP Servers
+  context.subscriptions.push(
+    vscode.commands.registerCommand("fixCode.showMCPServers", async () => {
+      await whenMCPServersReady();
+      const servers = getMCPServerStatus();
+      const stateIcons = { starting: "$(loading~spin)", running: "$(pass)", failed: "$(error)" };
+
+      const items: Array<vscode.QuickPickItem & { action?: "restart" | "configure" }> = [
+        ...servers.map((server) => ({
+          label: `${stateIcons[server.state]} ${server.name}`,
+          description:
+            server.state === "running"
+              ? `${server.tools.length} tools, ${server.resources} resources${server.serverInfo ? ` • ${server.serverInfo}` : ""}`
+              : server.state,
+          detail: server.error || server.tools.join(", ") || undefined,
+        })),
+        { label: "$(refresh) Restart MCP Servers", action: "restart" },
+        { label: "$(gear) Configure MCP Servers", action: "configure" },
+      ];
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder:
+          servers.length > 0
+            ? "MCP servers available to the deep agent"
+            : "No MCP servers configured - add them to fixCode.mcpServers",
+        title: `MCP Servers (${servers.length})`,
+      });
+
+      if (selected?.action === "restart") {
+        await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: "Restarting MCP servers..." },
+          () => restartMCPServers()
+        );
+        const failed = getMCPServerStatus().filter((server) => server.state === "failed");
+        if (failed.length > 0) {
+          vscode.window.showWarningMessage(
+            `MCP servers failed to start: ${failed.map((server) => server.name).join(", ")}`
+          );
+        } else {
+          vscode.window.showInformationMessage("✓ MCP servers restarted");
+        }
+      } else if (selected?.action === "configure") {
+        await vscode.commands.executeCommand("workbench.action.openSettings", "fixCode.mcpServers");
+      }
+    })
+  );
+
+  // Command: Show Agent Tools
+  context.subscriptions.push(
+    vscode.commands.registerCommand("fixCode.showAgentTools", () => showAgentTools())
+  );
+
+  // Command: Copy MCP Tool Server Config
+  context.subscriptions.push(
+    vscode.commands.registerCommand("fixCode.copyMCPToolServerConfig", () =>
+      copyMCPToolServerConfig(context)
+    )
+  );
+
   // Command: Clear Project Cache
   context.subscriptions.push(
     vscode.commands.registerCommand("fixCode.clearCache", async () => {
@@ -575,6 +721,7 @@ export function activate(context: vscode.ExtensionContext) {
       const smartMode = config.get<boolean>("useSmartMode", true);
       const cacheDuration = config.get<number>("cacheDuration", 5);
       const autoApply = config.get<boolean>("autoApply", true);
+      const modeSettings = getModeSettings();
 
       // Parse model info
       const modelParts = currentModel.split("/");
@@ -613,11 +760,18 @@ ID: ${currentModel}
 Provider: ${provider.toUpperCase()}
 
 Settings:
+• Credential Profile: ${getActiveProfileName() || "Default settings"}
 • Max Tokens: ${maxTokens}
 • Smart Mode: ${smartMode ? "✅ Enabled" : "❌ Disabled"}
 • Cache Duration: ${cacheDuration} minutes
 • Auto Apply: ${autoApply ? "✅ Enabled" : "❌ Disabled"}
 
+Mode Routing:
+${formatModeSettings("⚡ Instant", "instant", modeSettings.instant)}
+${formatModeSettings("🧠 Smart", "smart", modeSettings.smart)}
+${formatModeSettings("🔬 Deep", "deep", modeSettings.deep)}
+${formatModeSettings("🤖 Agent", "agent", modeSettings.agent)}
+
 Performance:
 • Simple fixes: ~1-2 seconds
 • Medium tasks: ~3-5 seconds
@@ -643,6 +797,58 @@ Tip: Use "Fix Code: Select Default Model" to change`;
     })
   );
 
+  // Command: Show Usage & Spend
+  context.subscriptions.push(
+    vscode.commands.registerCommand("fixCode.usageStats", async () => {
+      const config = vscode.workspace.getConfiguration("fixCode");
+      const dailyBudget = config.get<number>("dailyBudget", 0);
+      const monthlyBudget = config.get<number>("monthlyBudget", 0);
+      const report = getUsageReport();
+
+      const budgetInfo = (limit: number) =>
+        limit > 0 ? ` of $${limit.toFixed(2)}` : " (no budget)";
+
+      let message = `💰 Usage & Spend\n\n`;
+      message += `Today: ${formatCost(report.today.cost)}${budgetInfo(dailyBudget)} • ${report.today.requests} request(s) • ${(report.today.promptTokens + report.today.completionTokens).toLocaleString()} tokens\n`;
+      message += `This Month: ${formatCost(report.month.cost)}${budgetInfo(monthlyBudget)} • ${report.month.requests} request(s) • ${(report.month.promptTokens + report.month.completionTokens).toLocaleString()} tokens\n`;
+      if (report.month.cacheReadTokens) {
+        message += `Prompt Cache (this month): ${report.month.cacheReadTokens.toLocaleString()} cached tokens • saved ${formatCost(report.month.cacheSavings || 0)}\n`;
+      }
+
+      const models = Object.entries(report.byModel).sort((a, b) => b[1].cost - a[1].cost);
+      if (models.length > 0) {
+        message += `\nBy Model (this month):\n`;
+        models.forEach(([model, totals]) => {
+          message += `• ${model}: ${formatCost(totals.cost)} (${totals.requests} request(s))\n`;
+        });
+      }
+
+      const workspaces = Object.entries(report.byWorkspace).sort((a, b) => b[1].cost - a[1].cost);
+      if (workspaces.length > 0) {
+        message += `\nBy Workspace (this month):\n`;
+        workspaces.forEach(([workspace, totals]) => {
+          message += `• ${path.basename(workspace)}: ${formatCost(totals.cost)} (${totals.requests} request(s))\n`;
+        });
+      }
+
+      const action = await vscode.window.showInformationMessage(
+        message,
+        "Adjust Budgets",
+        "Reset Usage"
+      );
+
+      if (action === "Adjust Budgets") {
+        await vscode.commands.executeCommand(
+          "workbench.action.openSettings",
+          "fixCode budget"
+        );
+      } else if (action === "Reset Usage") {
+        await clearUsage();
+        vscode.window.showInformationMessage("Usage history cleared.");
+      }
+    })
+  );
+
   // Command: Open Task Notes
   context.subscriptions.push(
     vscode.commands.registerCommand("fixCode.openTaskNotes", async () => {
@@ -750,61 +956,1266 @@ Tip: Use "Fix Code: Select Default Model" to change`;
           workspacePath: workspaceFolder.uri.fsPath,
         };
 
-        const stats = await getTaskNotesStats(taskNotesConfig);
+        const stats = await getTaskNotesStats(taskNotesConfig);
+
+        let message = `📝 Task Notes Statistics\n\n`;
+        message += `Status: ${enableTaskNotes ? "✅ Enabled" : "❌ Disabled"}\n`;
+        message += `File: ${taskNotesFile}\n`;
+        message += `Exists: ${stats.exists ? "Yes" : "No"}\n\n`;
+
+        if (stats.exists) {
+          message += `Tasks Recorded: ${stats.taskCount}\n`;
+          message += `File Size: ${(stats.size / 1024).toFixed(2)} KB\n`;
+          if (stats.lastModified) {
+            message += `Last Modified: ${stats.lastModified.toLocaleString()}\n`;
+          }
+        } else {
+          message += `No task notes file found yet.\n`;
+          message += `Complete a task to create notes automatically.`;
+        }
+
+        // Build action buttons
+        const buttons: string[] = [];
+        if (stats.exists) {
+          buttons.push("Open Notes");
+        }
+        if (stats.exists && stats.taskCount > 0) {
+          buttons.push("Clear Notes");
+        }
+
+        const action = await vscode.window.showInformationMessage(
+          message,
+          ...buttons
+        );
+
+        if (action === "Open Notes") {
+          await vscode.commands.executeCommand("fixCode.openTaskNotes");
+        } else if (action === "Clear Notes") {
+          await vscode.commands.executeCommand("fixCode.clearTaskNotes");
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to get task notes stats: ${error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    })
+  );
+
+  // Log successful activation
+  const commandCount = context.subscriptions.length;
+  console.log(`✓ All commands registered (${commandCount} subscriptions)`);
+  console.log("✓ Fix Code with makuro - READY");
+  console.log("===================================");
+
+  return {
+    registerTool: (tool) => {
+      const registration = registerTool({ ...tool, source: tool.source || "extension" });
+      return new vscode.Disposable(() => registration.dispose());
+    },
+    listTools,
+  };
+}
+
+export function deactivate() {
+  console.log("Extension 'fixCode' deactivated");
+}
+
+/* ============================================================
+ * Fix Command
+ * ============================================================
+ */
+
+/**
+ * Run a fix request on the active editor's selection (or whole file).
+ * With planFirst (or fixCode.planDeepTasks for deep tasks) the request
+ * is planned, reviewed and then run step by step.
+ */
+async function runFixCode(
+  context: vscode.ExtensionContext,
+  forceMode?: SmartAgentConfig["forceMode"],
+  planFirst = false
+): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showWarningMessage("No active editor found.");
+    return;
+  }
+
+  const document = editor.document;
+  const selection = editor.selection;
+
+  // Determine range: use selection if exists, otherwise use full document
+  let range: vscode.Range;
+  let isFullFile = false;
+
+  if (selection.isEmpty) {
+    // No selection - use entire file
+    range = new vscode.Range(
+      document.positionAt(0),
+      document.positionAt(document.getText().length)
+    );
+    isFullFile = true;
+  } else {
+    // Has selection - use selected range
+    range = new vscode.Range(selection.start, selection.end);
+    isFullFile = false;
+  }
+
+  // 1. Save document context BEFORE async operations
+  // This ensures we can reopen/find the file even if user closes it
+  const documentUri = document.uri;
+  const documentPath = document.fileName;
+  const originalEditor = editor; // Keep reference but don't rely on it later
+
+  // 2. Ensure API Key exists
+  const apiKey = await ensureApiKey(context);
+  if (apiKey === null) { return; }
+
+  // Spend budgets: warn first, then block
+  const budget = checkBudget();
+  if (budget.status === "blocked") {
+    const action = await vscode.window.showErrorMessage(
+      `💸 ${budget.message}. Requests are blocked until the budget resets.`,
+      "Show Usage",
+      "Adjust Budgets"
+    );
+    if (action === "Show Usage") {
+      await vscode.commands.executeCommand("fixCode.usageStats");
+    } else if (action === "Adjust Budgets") {
+      await vscode.commands.executeCommand(
+        "workbench.action.openSettings",
+        "fixCode budget"
+      );
+    }
+    return;
+  }
+  if (budget.status === "warn") {
+    vscode.window.showWarningMessage(`💸 ${budget.message}`);
+  }
+
+  // 3. File & workspace info
+  const fileName = path.basename(document.fileName);
+  const filePath = document.fileName;
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(
+    document.uri
+  );
+  const workspacePath = workspaceFolder?.uri.fsPath ?? null;
+
+  // 4. Decoration (highlight) - only if editor still active
+  const decoration = vscode.window.createTextEditorDecorationType({
+    isWholeLine: true,
+    backgroundColor: "rgba(80, 140, 255, 0.2)",
+    border: "1px solid rgba(80, 140, 255, 0.5)",
+  });
+
+  let preview: StreamPreview | undefined;
+
+  try {
+    // Try to set decoration if editor still active
+    if (originalEditor && !originalEditor.document.isClosed) {
+      originalEditor.setDecorations(decoration, [range]);
+    }
+
+    // 4. Prompt user
+    const linesCount = range.end.line - range.start.line + 1;
+    const scopeInfo = isFullFile
+      ? `Full file (${linesCount} lines)`
+      : `Selected code (${linesCount} lines)`;
+
+    const prompt = await vscode.window.showInputBox({
+      title: `${forceMode === "agent" ? "Deep Agent" : planFirst ? "Fix Code with Plan" : "Fix Code"} - ${scopeInfo}`,
+      prompt: "Describe what you want to fix or improve",
+      placeHolder: "e.g. Refactor this function to be async",
+      ignoreFocusOut: true,
+    });
+
+    if (!prompt) {
+      vscode.window.showInformationMessage("Operation cancelled.");
+      return;
+    }
+
+    // 5. Payload
+    const payload: FixPayload = {
+      fileName,
+      filePath,
+      workspacePath,
+      prompt,
+      rangeText: document.getText(range),
+      fullText: document.getText(),
+      rangeOffset: document.offsetAt(range.start),
+      forceMode,
+    };
+
+    vscode.window.showInformationMessage(
+      `Processing "${fileName}"...`
+    );
+
+    console.log("Fix payload prepared", payload);
+
+    // 6. Plan review: only the approved steps run (each streams nothing)
+    const planned = await shouldPlanFix(payload, apiKey, planFirst);
+    const plan = planned ? await createReviewedPlan(payload, apiKey) : undefined;
+    if (planned && !plan) {
+      return;
+    }
+
+    // Ghost preview of streamed code over the highlighted range
+    const enableStreaming = vscode.workspace
+      .getConfiguration("fixCode")
+      .get<boolean>("enableStreaming", true);
+    if (enableStreaming && !plan && !originalEditor.document.isClosed) {
+      preview = new StreamPreview(originalEditor, range);
+    }
+
+    // 7. Send to Smart AI Agent
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title:
+          forceMode === "agent"
+            ? "Deep agent working..."
+            : plan
+            ? "Running the approved plan..."
+            : "Smart AI analyzing code...",
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const controller = new AbortController();
+        const cancelListener = token.onCancellationRequested(() =>
+          controller.abort()
+        );
+
+        try {
+          if (plan) {
+            return await executePlan(
+              await buildSmartAgentConfig(payload, apiKey, controller.signal),
+              plan,
+              (message) => progress.report({ message }),
+              (step) => reportPlanStep(plan, step)
+            );
+          }
+
+          return await sendToAIAgent(
+            payload,
+            apiKey,
+            (message) => {
+              progress.report({ message });
+            },
+            preview && ((partialText) => preview?.update(partialText)),
+            controller.signal
+          );
+        } finally {
+          cancelListener.dispose();
+        }
+      }
+    );
+
+    // Remove ghost text before the real edit lands
+    preview?.dispose();
+    preview = undefined;
+
+    // Tokens are spent whether or not the fix succeeded
+    if (result.usage) {
+      await recordUsage(result.usage, workspacePath);
+    }
+
+    if (result.plan) {
+      showPlanResult(result.plan);
+    }
+
+    if (result.cancelled) {
+      vscode.window.showInformationMessage("Fix request cancelled.");
+      await writeTaskNoteFromResult(payload, result, context);
+      return;
+    }
+
+    if (result.success && result.code) {
+      // Show mode used
+      const modeEmoji: { [key: string]: string } = {
+        instant: "⚡",
+        smart: "🧠",
+        deep: "🔬",
+        agent: "🤖",
+      };
+      const mode = result.mode || "smart";
+      const emoji = modeEmoji[mode] || "🧠";
+      const cacheInfo = result.cachedUsed ? " (cached)" : "";
+
+      // Build success message with validation info
+      let successMsg = `${emoji} ${mode.toUpperCase()} mode used${cacheInfo}`;
+
+      if (result.validated) {
+        const scoreEmoji = result.validationScore && result.validationScore >= 90 ? "✅" : result.validationScore && result.validationScore >= 70 ? "✓" : "⚠️";
+        successMsg += ` ${scoreEmoji} Validated (${result.validationScore}/100)`;
+
+        if (result.retries && result.retries > 0) {
+          successMsg += ` - Fixed after ${result.retries} ${result.retries === 1 ? "retry" : "retries"}`;
+        }
+      }
+
+      // Show fallback model when the selected one was unavailable
+      if (result.modelUsed && result.failedModels && result.failedModels.length > 0) {
+        successMsg += ` 🔁 Answered by ${result.modelUsed} (fallback)`;
+      }
+
+      // Show agent tool usage
+      if (result.mode === "agent" && result.toolsUsed) {
+        successMsg += ` 🛠️ ${result.toolsUsed.length} tool call(s) in ${result.agentTurns || 0} turn(s)`;
+      }
+
+      // Show actions executed
+      if (result.actionsExecuted && result.actionsExecuted.length > 0) {
+        successMsg += ` 🤖 ${result.actionsExecuted.length} action(s)`;
+      }
+
+      // Show web search usage
+      if (result.webSearchUsed && result.webSearchResults && result.webSearchResults > 0) {
+        successMsg += ` 🌐 Web search: ${result.webSearchResults} result(s)`;
+      }
+
+      // Show context trimmed to fit the model
+      if (result.promptBudget && describeBudgetReport(result.promptBudget)) {
+        successMsg += ` ✂️ Context trimmed`;
+      }
+
+      // Show token usage and cost
+      if (result.usage && result.usage.totalTokens > 0) {
+        successMsg += ` 💰 ${result.usage.totalTokens.toLocaleString()} tokens (${formatCost(result.usage.cost)})`;
+      }
+
+      vscode.window.showInformationMessage(successMsg);
+
+      // Show detailed actions if any
+      if (result.actionsSummary) {
+        vscode.window.showInformationMessage(
+          `Autonomous Actions:\n${result.actionsSummary}`,
+          "OK"
+        );
+      }
+
+      // Apply fix - works even if file was closed/switched
+      await applyCodeFixSafe(documentUri, documentPath, range, result.code);
+
+      // Write task note
+      await writeTaskNoteFromResult(
+        payload,
+        result,
+        context
+      );
+    } else if (!result.success && result.code && result.incomplete) {
+      // Output is cut off - never apply it automatically
+      const action = await vscode.window.showWarningMessage(
+        `⚠️ ${result.error || "Generated code is incomplete"}. The fix was not applied.`,
+        "Review Diff",
+        "Cancel"
+      );
+
+      if (action === "Review Diff") {
+        await showDiffWithReopenSupport(documentUri, range, result.code, documentPath);
+      }
+
+      await writeTaskNoteFromResult(payload, result, context);
+    } else if (!result.success && result.code && result.validationErrors) {
+      // Validation failed but we have code
+      const config = vscode.workspace.getConfiguration("fixCode");
+      const showDetails = config.get<boolean>("showValidationDetails", true);
+
+      let errorMsg = `⚠️ Validation failed (Score: ${result.validationScore}/100)`;
+      if (result.retries) {
+        errorMsg += ` after ${result.retries} retries`;
+      }
+
+      if (showDetails && result.validationErrors.length > 0) {
+        errorMsg += `\n\nErrors:\n${result.validationErrors.slice(0, 3).join("\n")}`;
+        if (result.validationErrors.length > 3) {
+          errorMsg += `\n... and ${result.validationErrors.length - 3} more`;
+        }
+      }
+
+      const action = await vscode.window.showWarningMessage(
+        errorMsg,
+        "Apply Anyway",
+        "Cancel"
+      );
+
+      if (action === "Apply Anyway") {
+        // Apply fix - works even if file was closed/switched
+        await applyCodeFixSafe(documentUri, documentPath, range, result.code);
+
+        // Write task note even for failed validation
+        await writeTaskNoteFromResult(
+          payload,
+          result,
+          context
+        );
+      }
+    } else {
+      throw new Error(result.error || "Agent failed to generate fix");
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error: ${error instanceof Error ? error.message : String(error)
+      }`
+    );
+    console.error("Fix code error:", error);
+  } finally {
+    preview?.dispose();
+    decoration.dispose();
+  }
+}
+
+/* ============================================================
+ * Plan Review
+ * ============================================================
+ */
+
+interface PlanStepItem extends vscode.QuickPickItem {
+  step: PlanStep;
+}
+
+const EDIT_STEP_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("edit"),
+  tooltip: "Edit step",
+};
+
+/**
+ * Plan first when asked, or for deep tasks with fixCode.planDeepTasks
+ * (explicit modes such as the deep agent command run as usual)
+ */
+async function shouldPlanFix(
+  payload: FixPayload,
+  apiKey: string,
+  planFirst: boolean
+): Promise<boolean> {
+  if (planFirst) {
+    return true;
+  }
+  const planDeepTasks = vscode.workspace
+    .getConfiguration("fixCode")
+    .get<boolean>("planDeepTasks", false);
+  if (!planDeepTasks || payload.forceMode) {
+    return false;
+  }
+
+  const mode = getTaskMode(await buildSmartAgentConfig(payload, apiKey));
+  return mode === "deep" || mode === "agent";
+}
+
+/**
+ * Generate a plan and let the user review it (undefined when the
+ * plan was cancelled or rejected)
+ */
+async function createReviewedPlan(
+  payload: FixPayload,
+  apiKey: string
+): Promise<ExecutionPlan | undefined> {
+  const planResult = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: "Planning the change...",
+      cancellable: true,
+    },
+    async (progress, token) => {
+      const controller = new AbortController();
+      const cancelListener = token.onCancellationRequested(() =>
+        controller.abort()
+      );
+
+      try {
+        return await generatePlan(
+          await buildSmartAgentConfig(payload, apiKey, controller.signal),
+          (message) => progress.report({ message })
+        );
+      } finally {
+        cancelListener.dispose();
+      }
+    }
+  );
+
+  // Planning tokens count even when the plan is rejected
+  await recordUsage(planResult.usage, payload.workspacePath);
+
+  if (planResult.cancelled) {
+    vscode.window.showInformationMessage("Planning cancelled.");
+    return undefined;
+  }
+  if (!planResult.success || !planResult.plan) {
+    throw new Error(planResult.error || "Failed to create a plan");
+  }
+
+  return reviewPlan(planResult.plan);
+}
+
+/**
+ * Show the plan beside the editor and pick the steps to run. Unchecked
+ * steps are skipped; the edit button changes a step's instruction.
+ */
+async function reviewPlan(plan: ExecutionPlan): Promise<ExecutionPlan | undefined> {
+  const document = await vscode.workspace.openTextDocument({
+    content: formatPlan(plan, "Plan Review"),
+    language: "markdown",
+  });
+  await vscode.window.showTextDocument(document, {
+    viewColumn: vscode.ViewColumn.Beside,
+    preview: true,
+    preserveFocus: true,
+  });
+
+  const risks = plan.risks.length > 0 ? `, ${plan.risks.length} risk(s)` : "";
+
+  // The picker closes while a step is edited, so it is rebuilt each round
+  for (;;) {
+    const quickPick = vscode.window.createQuickPick<PlanStepItem>();
+    quickPick.title = `Review Plan - ${plan.steps.length} step(s)${risks}`;
+    quickPick.placeholder = "Uncheck steps to skip them, edit a step with the pencil, Enter to run";
+    quickPick.canSelectMany = true;
+    quickPick.ignoreFocusOut = true;
+    quickPick.matchOnDetail = true;
+    quickPick.items = plan.steps.map((step) => ({
+      label: `${step.id}. ${step.title}`,
+      description: [...step.files, ...step.actions].join(" · "),
+      detail: `${step.edited ? "(edited) " : ""}${step.description}`,
+      buttons: [EDIT_STEP_BUTTON],
+      step,
+    }));
+    quickPick.selectedItems = quickPick.items.filter((item) => item.step.approved);
+
+    const action = await new Promise<"run" | PlanStep | undefined>((resolve) => {
+      quickPick.onDidAccept(() => resolve("run"));
+      quickPick.onDidTriggerItemButton((event) => resolve(event.item.step));
+      quickPick.onDidHide(() => resolve(undefined));
+      quickPick.show();
+    });
+
+    const approved = new Set(quickPick.selectedItems.map((item) => item.step.id));
+    plan.steps.forEach((step) => (step.approved = approved.has(step.id)));
+    quickPick.dispose();
+
+    if (action === undefined) {
+      vscode.window.showInformationMessage("Plan rejected - nothing was changed.");
+      return undefined;
+    }
+    if (action === "run") {
+      break;
+    }
+
+    const description = await vscode.window.showInputBox({
+      title: `Edit step ${action.id}: ${action.title}`,
+      prompt: "What this step should do",
+      value: action.description,
+      ignoreFocusOut: true,
+    });
+    if (description?.trim() && description.trim() !== action.description) {
+      action.description = description.trim();
+      action.edited = true;
+    }
+  }
+
+  if (!plan.steps.some((step) => step.approved)) {
+    vscode.window.showWarningMessage("No steps approved - nothing was changed.");
+    return undefined;
+  }
+  return plan;
+}
+
+/**
+ * Log step status changes while the plan runs
+ */
+function reportPlanStep(plan: ExecutionPlan, step: PlanStep): void {
+  if (step.status === "done" || step.status === "failed") {
+    console.log(
+      `Plan step ${step.id} ${step.status}${step.note ? `: ${step.note}` : ""} (${describePlanProgress(plan)})`
+    );
+  }
+}
+
+/**
+ * Summarize a finished plan run, with the step statuses on request
+ */
+function showPlanResult(plan: ExecutionPlan): void {
+  const failed = plan.steps.find((step) => step.status === "failed");
+  const message = failed
+    ? `📋 Plan stopped at step ${failed.id} (${describePlanProgress(plan)})`
+    : `📋 Plan finished: ${describePlanProgress(plan)}`;
+
+  vscode.window
+    .showInformationMessage(message, "Show Plan")
+    .then(async (action) => {
+      if (action === "Show Plan") {
+        const document = await vscode.workspace.openTextDocument({
+          content: formatPlan(plan, "Plan Result"),
+          language: "markdown",
+        });
+        await vscode.window.showTextDocument(document, { preview: true });
+      }
+    });
+}
+
+/* ============================================================
+ * Model Comparison
+ * ============================================================
+ */
+
+interface CompareCandidate {
+  model: string;
+  result?: SmartAgentResult;
+  code?: string; // Cleaned output (undefined when the run produced none)
+  validation?: ValidationResult;
+  latency: number; // Seconds
+  cost: number; // USD
+  error?: string;
+}
+
+const COMPARE_SCHEME = "fixcode-compare";
+const MIN_COMPARE_MODELS = 2;
+const MAX_COMPARE_MODELS = 4;
+const COMPARE_COLUMNS = [
+  vscode.ViewColumn.One,
+  vscode.ViewColumn.Two,
+  vscode.ViewColumn.Three,
+  vscode.ViewColumn.Four,
+];
+
+// Contents of the comparison documents, by URI (replaced on every run)
+const compareDocuments = new Map<string, string>();
+
+/**
+ * Send the same request to several models, show their outputs side
+ * by side and apply the one the user picks
+ */
+async function runCompareModels(context: vscode.ExtensionContext): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showWarningMessage("No active editor found.");
+    return;
+  }
+
+  const document = editor.document;
+  const range = editor.selection.isEmpty
+    ? new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length))
+    : new vscode.Range(editor.selection.start, editor.selection.end);
+  const documentUri = document.uri;
+  const documentPath = document.fileName;
+  const fileName = path.basename(document.fileName);
+  const workspacePath = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath ?? null;
+
+  const apiKey = await ensureApiKey(context);
+  if (apiKey === null) { return; }
+
+  // Every model is billed, so a blocked budget stops the whole comparison
+  const budget = checkBudget();
+  if (budget.status === "blocked") {
+    vscode.window.showErrorMessage(`💸 ${budget.message}. Requests are blocked until the budget resets.`);
+    return;
+  }
+  if (budget.status === "warn") {
+    vscode.window.showWarningMessage(`💸 ${budget.message}`);
+  }
+
+  const models = await pickCompareModels();
+  if (!models) { return; }
+
+  const prompt = await vscode.window.showInputBox({
+    title: `Compare ${models.length} Models - ${fileName}`,
+    prompt: "Describe what you want to fix or improve",
+    placeHolder: "e.g. Refactor this function to be async",
+    ignoreFocusOut: true,
+  });
+  if (!prompt) {
+    vscode.window.showInformationMessage("Operation cancelled.");
+    return;
+  }
+
+  const payload: FixPayload = {
+    fileName,
+    filePath: documentPath,
+    workspacePath,
+    prompt,
+    rangeText: document.getText(range),
+    fullText: document.getText(),
+  };
+
+  try {
+    const candidates = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Comparing ${models.length} models...`,
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const controller = new AbortController();
+        const cancelListener = token.onCancellationRequested(() => controller.abort());
+
+        try {
+          const baseConfig = await buildSmartAgentConfig(payload, apiKey, controller.signal);
+          return await Promise.all(
+            models.map((model) =>
+              runCompareCandidate(baseConfig, model, fileName, (message) =>
+                progress.report({ message: `${model}: ${message}` })
+              )
+            )
+          );
+        } finally {
+          cancelListener.dispose();
+        }
+      }
+    );
+
+    // Tokens are spent whether or not a run succeeded
+    for (const candidate of candidates) {
+      if (candidate.result?.usage) {
+        await recordUsage(candidate.result.usage, workspacePath);
+      }
+    }
+
+    if (candidates.some((candidate) => candidate.result?.cancelled)) {
+      vscode.window.showInformationMessage("Model comparison cancelled.");
+      return;
+    }
+
+    const ranked = rankCompareCandidates(candidates);
+    const failed = ranked.filter((candidate) => !candidate.code);
+    if (failed.length === ranked.length) {
+      throw new Error(
+        `No model produced code: ${failed.map((c) => `${c.model} (${c.error})`).join("; ")}`
+      );
+    }
+    if (failed.length > 0) {
+      vscode.window.showWarningMessage(
+        `⚠️ ${failed.map((c) => `${c.model}: ${c.error || "no code"}`).join(" • ")}`
+      );
+    }
+
+    await showCompareDiffs(document, range, ranked);
+
+    const winner = await pickCompareWinner(ranked);
+    if (!winner?.code || !winner.result) {
+      vscode.window.showInformationMessage("No output applied.");
+      return;
+    }
+
+    await applyCodeFixToDocument(documentUri, range, winner.code, documentPath);
+    await writeTaskNoteFromResult(payload, winner.result, context);
+    vscode.window.showInformationMessage(`🏆 Applied output of ${winner.model}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error: ${error instanceof Error ? error.message : String(error)
+      }`
+    );
+    console.error("Compare models error:", error);
+  }
+}
+
+/**
+ * Run the smart agent with every mode routed to one model. Fallback
+ * models and autonomous actions are off so runs stay comparable and
+ * do not touch the workspace.
+ */
+async function runCompareCandidate(
+  baseConfig: SmartAgentConfig,
+  model: string,
+  fileName: string,
+  progressCallback: (message: string) => void
+): Promise<CompareCandidate> {
+  const startTime = Date.now();
+  try {
+    const result = await executeSmartAgent(
+      { ...withModelForAllModes(baseConfig, model), executeActions: false },
+      progressCallback
+    );
+    const code = result.code ? cleanMarkdownCodeFences(result.code) : undefined;
+
+    return {
+      model,
+      result,
+      code,
+      validation: code ? validateCode(code, fileName) : undefined,
+      latency: (Date.now() - startTime) / 1000,
+      cost: result.usage?.cost ?? 0,
+      error: result.success ? undefined : result.error,
+    };
+  } catch (error) {
+    return {
+      model,
+      latency: (Date.now() - startTime) / 1000,
+      cost: 0,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Best first: runs with code, then validation score, cost and latency
+ */
+function rankCompareCandidates(candidates: CompareCandidate[]): CompareCandidate[] {
+  return [...candidates].sort(
+    (a, b) =>
+      Number(!!b.code) - Number(!!a.code) ||
+      (b.validation?.score ?? 0) - (a.validation?.score ?? 0) ||
+      a.cost - b.cost ||
+      a.latency - b.latency
+  );
+}
+
+/**
+ * Format score, latency and cost of a comparison run
+ */
+function formatCompareSummary(candidate: CompareCandidate): string {
+  const score = candidate.validation ? `${candidate.validation.score}/100` : "not validated";
+  return `${score} • ${candidate.latency.toFixed(1)}s • ${formatCost(candidate.cost)}`;
+}
+
+/**
+ * Ask for 2-4 models, preselecting fixCode.compareModels (or the current model)
+ */
+async function pickCompareModels(): Promise<string[] | undefined> {
+  const config = vscode.workspace.getConfiguration("fixCode");
+  const preset = config.get<string[]>("compareModels", []);
+  const picked = new Set(preset.length > 0 ? preset : [getSelectedModel()]);
+  const countError = (count: number) =>
+    count < MIN_COMPARE_MODELS || count > MAX_COMPARE_MODELS
+      ? `Select ${MIN_COMPARE_MODELS} to ${MAX_COMPARE_MODELS} models (${count} selected)`
+      : null;
+
+  let catalogModels: CatalogModel[] = [];
+  try {
+    catalogModels = (await loadModelCatalog()).models;
+  } catch (error) {
+    console.warn("Could not load model catalog for comparison:", error);
+  }
+
+  // Without a catalog (offline, local servers) the IDs are typed in
+  if (catalogModels.length === 0) {
+    const input = await vscode.window.showInputBox({
+      title: "Compare Models",
+      prompt: `Enter ${MIN_COMPARE_MODELS}-${MAX_COMPARE_MODELS} model IDs, separated by commas`,
+      value: [...picked].join(", "),
+      ignoreFocusOut: true,
+      validateInput: (value) => countError(value.split(",").filter((id) => id.trim()).length),
+    });
+    return input?.split(",").map((id) => id.trim()).filter(Boolean);
+  }
+
+  const known = new Set(catalogModels.map((model) => model.id));
+  const items: vscode.QuickPickItem[] = [
+    ...[...picked]
+      .filter((id) => !known.has(id))
+      .map((id) => ({ label: id, description: id, picked: true })),
+    ...catalogModels.map((model) => ({
+      label: model.name,
+      description: model.id,
+      detail: formatModelDetail(model),
+      picked: picked.has(model.id),
+    })),
+  ].sort((a, b) => Number(!!b.picked) - Number(!!a.picked));
+
+  const selected = await vscode.window.showQuickPick(items, {
+    canPickMany: true,
+    matchOnDescription: true,
+    placeHolder: `Select ${MIN_COMPARE_MODELS}-${MAX_COMPARE_MODELS} models to compare`,
+    title: "Compare Models",
+  });
+  if (!selected) { return undefined; }
+
+  const error = countError(selected.length);
+  if (error) {
+    vscode.window.showWarningMessage(error);
+    return undefined;
+  }
+  return selected.map((item) => item.description || item.label);
+}
+
+/**
+ * Open one diff per model (original vs output) in side-by-side columns
+ */
+async function showCompareDiffs(
+  document: vscode.TextDocument,
+  range: vscode.Range,
+  candidates: CompareCandidate[]
+): Promise<void> {
+  compareDocuments.clear();
+  const runId = Date.now().toString(36);
+  const baseName = path.basename(document.fileName);
+  const toUri = (name: string) =>
+    vscode.Uri.from({ scheme: COMPARE_SCHEME, path: `/${runId}/${name}/${baseName}` });
+
+  const originalUri = toUri("original");
+  compareDocuments.set(originalUri.toString(), document.getText(range));
+
+  const withCode = candidates.filter((candidate) => candidate.code);
+  for (let i = 0; i < withCode.length && i < COMPARE_COLUMNS.length; i++) {
+    const candidate = withCode[i];
+    const outputUri = toUri(`${i + 1}-${candidate.model.replace(/[^\w.-]+/g, "_")}`);
+    compareDocuments.set(outputUri.toString(), candidate.code!);
+
+    await vscode.commands.executeCommand(
+      "vscode.diff",
+      originalUri,
+      outputUri,
+      `${i === 0 ? "🏆 " : ""}${candidate.model} • ${formatCompareSummary(candidate)}`,
+      { viewColumn: COMPARE_COLUMNS[i], preview: false }
+    );
+  }
+}
+
+/**
+ * Ask which model's output to apply (ranked best first)
+ */
+async function pickCompareWinner(
+  candidates: CompareCandidate[]
+): Promise<CompareCandidate | undefined> {
+  const items = candidates
+    .filter((candidate) => candidate.code)
+    .map((candidate, index) => {
+      const errors = candidate.validation?.errors.length ?? 0;
+      return {
+        label: `${index === 0 ? "🏆 " : ""}${candidate.model}`,
+        description: formatCompareSummary(candidate),
+        detail:
+          errors > 0
+            ? `⚠️ ${errors} validation error(s): ${candidate.validation!.errors[0].message}`
+            : candidate.error
+              ? `⚠️ ${candidate.error}`
+              : "✅ No validation errors",
+        candidate,
+      };
+    });
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: "Select the output to apply (Esc to keep the current code)",
+    title: "Apply Winner",
+    ignoreFocusOut: true,
+  });
+  return selected?.candidate;
+}
+
+/* ============================================================
+ * Evaluation
+ * ============================================================
+ */
+
+const EVAL_RESULTS_DIR = ".fixcode/eval-results";
+
+/**
+ * Run the benchmark tasks of fixCode.evalDir for each of
+ * fixCode.evalModels and write a report
+ */
+async function runEvaluation(context: vscode.ExtensionContext): Promise<void> {
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+  if (!workspaceFolder) {
+    vscode.window.showWarningMessage("No workspace folder open.");
+    return;
+  }
+
+  // Task files come from the workspace and can run commands
+  if (!vscode.workspace.isTrusted) {
+    vscode.window.showWarningMessage("Evaluation tasks only run in a trusted workspace.");
+    return;
+  }
+
+  const config = vscode.workspace.getConfiguration("fixCode");
+  const workspacePath = workspaceFolder.uri.fsPath;
+  const evalDir = path.resolve(workspacePath, config.get<string>("evalDir", ".fixcode/eval"));
+  const models = config.get<string[]>("evalModels", []);
+  const allowCommands = config.get<boolean>("allowScriptExecution", false);
+
+  let tasks;
+  try {
+    tasks = await loadEvalTasks(evalDir);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to load evaluation tasks from ${evalDir}: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return;
+  }
+
+  if (tasks.length === 0) {
+    vscode.window.showWarningMessage(
+      `No evaluation tasks found. Add *${TASK_FILE_SUFFIX} files to ${evalDir}.`
+    );
+    return;
+  }
+
+  const apiKey = await ensureApiKey(context);
+  if (apiKey === null) { return; }
+
+  // An empty model list runs the configured mode routing as-is
+  const runModels: Array<string | undefined> = models.length > 0 ? models : [undefined];
+  const replayMode = getReplaySettings().mode;
+  const startedAt = new Date();
+  const results: EvalRunResult[] = [];
+
+  let completed = false;
+  try {
+    completed = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Evaluating ${tasks.length} task(s)`,
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const controller = new AbortController();
+        const cancelListener = token.onCancellationRequested(() => controller.abort());
+        const total = tasks.length * runModels.length;
+
+        try {
+          // File, selection and prompt are filled in per task
+          const baseConfig = await buildSmartAgentConfig(
+            { fileName: "", filePath: "", workspacePath, prompt: "", rangeText: "", fullText: "" },
+            apiKey,
+            controller.signal
+          );
+
+          for (const model of runModels) {
+            for (const task of tasks) {
+              // Budgets apply to evaluation runs too
+              if (checkBudget().status === "blocked") {
+                vscode.window.showErrorMessage("💸 Spend budget reached, evaluation stopped.");
+                return false;
+              }
+
+              const label = `${task.name}${model ? ` (${model})` : ""}`;
+              progress.report({
+                message: `${results.length + 1}/${total} ${label}`,
+                increment: 100 / total,
+              });
+
+              const result = await runEvalTask(
+                task,
+                baseConfig,
+                model,
+                (message) =>
+                  progress.report({ message: `${results.length + 1}/${total} ${label}: ${message}` }),
+                { allowCommands }
+              );
+
+              results.push(result);
+              if (result.result?.usage) {
+                await recordUsage(result.result.usage, workspacePath);
+              }
+            }
+          }
+          return true;
+        } catch (error) {
+          if (controller.signal.aborted) {
+            return false;
+          }
+          throw error;
+        } finally {
+          cancelListener.dispose();
+        }
+      }
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Evaluation failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (results.length === 0) {
+    return;
+  }
+
+  // Write the report (partial when cancelled)
+  const summaries = aggregateEvalResults(results);
+  const report = formatEvalReport(results, summaries, { startedAt, tasksDir: evalDir, replayMode });
+  const resultsDir = path.join(workspacePath, EVAL_RESULTS_DIR);
+  const stamp = startedAt.toISOString().replace(/[:.]/g, "-");
+  const reportPath = path.join(resultsDir, `eval-${stamp}.md`);
+
+  await fs.mkdir(resultsDir, { recursive: true });
+  await fs.writeFile(reportPath, report, "utf8");
+  await fs.writeFile(
+    path.join(resultsDir, `eval-${stamp}.json`),
+    JSON.stringify(
+      { startedAt, replayMode, summaries, results: results.map(({ result, ...run }) => run) },
+      null,
+      2
+    ),
+    "utf8"
+  );
+
+  const passed = results.filter((result) => result.passed).length;
+  const action = await vscode.window.showInformationMessage(
+    `📊 Evaluation${completed ? "" : " (incomplete)"}: ${passed}/${results.length} passed (${Math.round((passed / results.length) * 100)}%)`,
+    "Open Report"
+  );
+  if (action === "Open Report") {
+    const doc = await vscode.workspace.openTextDocument(reportPath);
+    await vscode.window.showTextDocument(doc);
+  }
+}
+
+/* ============================================================
+ * MCP Tool Server
+ * ============================================================
+ */
+
+let toolServer: MCPToolServer | null = null;
+let toolServerUpdate: Promise<void> = Promise.resolve();
+
+/**
+ * Start or stop the tool server to match fixCode.enableMCPToolServer
+ * (updates are queued so restarts never overlap)
+ */
+function updateMCPToolServer(context: vscode.ExtensionContext): Promise<void> {
+  toolServerUpdate = toolServerUpdate.then(async () => {
+    toolServer?.close();
+    toolServer = null;
+
+    const config = vscode.workspace.getConfiguration("fixCode");
+    const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!config.get<boolean>("enableMCPToolServer", false) || !workspacePath) {
+      return;
+    }
+
+    const server = new MCPToolServer({
+      socketPath: getToolServerSocketPath(context.globalStorageUri.fsPath, workspacePath),
+      workspacePath,
+      version: context.extension.packageJSON.version,
+      fixCode: config.get<boolean>("allowMCPFixCode", true)
+        ? (request, signal) => runToolServerFix(context, workspacePath, request, signal)
+        : undefined,
+    });
+
+    try {
+      await server.start();
+      toolServer = server;
+      console.log(`✓ MCP tool server listening on ${server.socketPath}`);
+    } catch (error) {
+      vscode.window.showWarningMessage(
+        `MCP tool server not started: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  });
+  return toolServerUpdate;
+}
+
+/**
+ * fix_code tool: run the smart agent on a file (or line range) and
+ * return the new code. Nothing is applied and no actions run.
+ */
+async function runToolServerFix(
+  context: vscode.ExtensionContext,
+  workspacePath: string,
+  request: FixCodeToolRequest,
+  signal: AbortSignal
+): Promise<FixCodeToolResult> {
+  const apiKey = await ensureApiKey(context);
+  if (apiKey === null) {
+    throw new Error("No API key configured in Fix Code");
+  }
+  if (checkBudget().status === "blocked") {
+    throw new Error("Fix Code spend budget reached");
+  }
+
+  const fullText = await fs.readFile(request.filePath, "utf8");
+  const lines = fullText.split("\n");
+  const rangeText = request.startLine
+    ? lines.slice(request.startLine - 1, request.endLine ?? lines.length).join("\n")
+    : fullText;
+  const rangeOffset = request.startLine
+    ? lines.slice(0, request.startLine - 1).reduce((sum, line) => sum + line.length + 1, 0)
+    : 0;
+
+  const payload: FixPayload = {
+    fileName: path.basename(request.filePath),
+    filePath: request.filePath,
+    workspacePath,
+    prompt: request.instruction,
+    rangeText,
+    fullText,
+    rangeOffset,
+    forceMode: request.mode,
+  };
+  const result = await executeSmartAgent({
+    ...(await buildSmartAgentConfig(payload, apiKey, signal)),
+    executeActions: false,
+  });
+
+  if (result.usage) {
+    await recordUsage(result.usage, workspacePath);
+  }
+  if (result.cancelled) {
+    throw new Error("Cancelled");
+  }
+  if (!result.code) {
+    throw new Error(result.error || "No code returned");
+  }
+
+  const summary = [
+    `Mode: ${result.mode || "smart"}`,
+    result.modelUsed ? `Model: ${result.modelUsed}` : "",
+    result.validated === false
+      ? `Validation failed: ${(result.validationErrors || []).slice(0, 3).join("; ")}`
+      : `Validation score: ${result.validationScore ?? "n/a"}`,
+    result.incomplete ? "Output may be truncated" : "",
+  ]
+    .filter(Boolean)
+    .join(" | ");
+
+  return { code: result.code, summary };
+}
 
-        let message = `📝 Task Notes Statistics\n\n`;
-        message += `Status: ${enableTaskNotes ? "✅ Enabled" : "❌ Disabled"}\n`;
-        message += `File: ${taskNotesFile}\n`;
-        message += `Exists: ${stats.exists ? "Yes" : "No"}\n\n`;
+/**
+ * Copy an MCP client config that launches the stdio bridge
+ */
+async function copyMCPToolServerConfig(context: vscode.ExtensionContext): Promise<void> {
+  await toolServerUpdate;
 
-        if (stats.exists) {
-          message += `Tasks Recorded: ${stats.taskCount}\n`;
-          message += `File Size: ${(stats.size / 1024).toFixed(2)} KB\n`;
-          if (stats.lastModified) {
-            message += `Last Modified: ${stats.lastModified.toLocaleString()}\n`;
-          }
-        } else {
-          message += `No task notes file found yet.\n`;
-          message += `Complete a task to create notes automatically.`;
-        }
+  if (!toolServer) {
+    const choice = await vscode.window.showInformationMessage(
+      "The MCP tool server is off. Enable it for this workspace?",
+      "Enable"
+    );
+    if (choice !== "Enable") {
+      return;
+    }
 
-        // Build action buttons
-        const buttons: string[] = [];
-        if (stats.exists) {
-          buttons.push("Open Notes");
-        }
-        if (stats.exists && stats.taskCount > 0) {
-          buttons.push("Clear Notes");
-        }
+    const target = vscode.workspace.workspaceFolders
+      ? vscode.ConfigurationTarget.Workspace
+      : vscode.ConfigurationTarget.Global;
+    await vscode.workspace.getConfiguration("fixCode").update("enableMCPToolServer", true, target);
+    await updateMCPToolServer(context);
+    if (!toolServer) {
+      return;
+    }
+  }
 
-        const action = await vscode.window.showInformationMessage(
-          message,
-          ...buttons
-        );
+  // VSCode's own runtime acts as Node, so the client needs no Node install
+  const clientConfig = {
+    mcpServers: {
+      "fix-code": {
+        command: process.execPath,
+        args: [context.asAbsolutePath(path.join("out", "mcpBridge.js")), toolServer.socketPath],
+        env: { ELECTRON_RUN_AS_NODE: "1" },
+      },
+    },
+  };
+  await vscode.env.clipboard.writeText(JSON.stringify(clientConfig, null, 2));
 
-        if (action === "Open Notes") {
-          await vscode.commands.executeCommand("fixCode.openTaskNotes");
-        } else if (action === "Clear Notes") {
-          await vscode.commands.executeCommand("fixCode.clearTaskNotes");
-        }
-      } catch (error) {
-        vscode.window.showErrorMessage(
-          `Failed to get task notes stats: ${error instanceof Error ? error.message : String(error)
-          }`
-        );
-      }
-    })
+  vscode.window.showInformationMessage(
+    `📋 MCP client config copied. Tools: ${toolServer.getToolNames().join(", ")}`
   );
-
-  // Log successful activation
-  const commandCount = context.subscriptions.length;
-  console.log(`✓ All commands registered (${commandCount} subscriptions)`);
-  console.log("✓ Fix Code with makuro - READY");
-  console.log("===================================");
 }
 
-export function deactivate() {
-  console.log("Extension 'fixCode' deactivated");
+/**
+ * Open the registered agent tools as Markdown, grouped by source
+ */
+async function showAgentTools(): Promise<void> {
+  await whenMCPServersReady();
+  const tools = listTools();
+  const sources = Array.from(new Set(tools.map((tool) => tool.source || "extension")));
+
+  let markdown = `# Fix Code Agent Tools (${tools.length})\n\n`;
+  for (const source of sources) {
+    markdown += `## ${source}\n\n`;
+    markdown += generateToolDocumentation(tools.filter((tool) => (tool.source || "extension") === source));
+  }
+
+  const document = await vscode.workspace.openTextDocument({ content: markdown, language: "markdown" });
+  await vscode.window.showTextDocument(document, { preview: true });
 }
 
 /* ============================================================
@@ -822,58 +2233,218 @@ function getSelectedModel(): string {
 }
 
 /**
- * Fetch available models from OpenRouter API
+ * Get model and parameters for each mode. Fields missing from
+ * fixCode.modeSettings fall back to the selected model, fixCode.maxTokens
+ * and a temperature of 0.7.
  */
-async function fetchModelsFromOpenRouter(): Promise<OpenRouterModel[]> {
-  try {
-    const response = await fetch(OPENROUTER_MODELS_URL, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
+function getModeSettings(): Record<"instant" | "smart" | "deep" | "agent", ModeSettings> {
+  const config = vscode.workspace.getConfiguration("fixCode");
+  const overrides = config.get<{ [mode: string]: Partial<ModeSettings> }>("modeSettings", {});
+  const defaults: ModeSettings = {
+    model: getSelectedModel(),
+    maxTokens: config.get<number>("maxTokens", 4096),
+    temperature: 0.7,
+  };
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `Failed to fetch models: ${response.status} ${response.statusText} - ${errorText}`
-      );
+  const resolve = (mode: FixMode): ModeSettings => {
+    const override = overrides[mode] || {};
+    let model = override.model || defaults.model;
+
+    // A mode model that fails the mode's requirements falls back to the default model
+    const issues = getModeModelIssues(mode, model);
+    if (issues.length > 0 && model !== defaults.model) {
+      console.warn(`${model} not allowed for ${mode} mode (${issues.join(", ")}), using ${defaults.model}`);
+      model = defaults.model;
     }
 
-    const data: OpenRouterModelsResponse = await response.json() as OpenRouterModelsResponse;
+    return {
+      model,
+      maxTokens: override.maxTokens || defaults.maxTokens,
+      temperature: override.temperature ?? defaults.temperature,
+      reasoningEffort: override.reasoningEffort,
+    };
+  };
 
-    if (!data.data || data.data.length === 0) {
-      throw new Error("No models received from OpenRouter API");
-    }
+  return {
+    instant: resolve("instant"),
+    smart: resolve("smart"),
+    deep: resolve("deep"),
+    agent: resolve("agent"),
+  };
+}
+
+/**
+ * Format one mode's settings for the model info message
+ */
+function formatModeSettings(label: string, mode: FixMode, settings: ModeSettings): string {
+  const effort = settings.reasoningEffort ? ` • effort ${settings.reasoningEffort}` : "";
+  const issues = getModeModelIssues(mode, settings.model);
+  const warning = issues.length > 0 ? ` • ⚠️ ${issues.join(", ")}` : "";
+  return `• ${label}: ${settings.model} • ${settings.maxTokens} tokens • temp ${settings.temperature}${effort}${warning}`;
+}
 
-    // Sort models by name for better UX
-    const sortedModels = data.data.sort((a, b) => {
-      // Prioritize popular models
-      const priorityProviders = ['anthropic', 'openai', 'google', 'meta-llama'];
-      const aProvider = a.id.split('/')[0];
-      const bProvider = b.id.split('/')[0];
+/**
+ * Read proxy and certificate settings for the shared HTTP layer
+ * (VSCode http.* settings, plus fixCode.caCertificates)
+ */
+function getHttpSettings(): HttpSettings {
+  const httpConfig = vscode.workspace.getConfiguration("http");
+  const config = vscode.workspace.getConfiguration("fixCode");
+  const proxySupport = httpConfig.get<string>("proxySupport", "override");
+
+  return {
+    proxy: proxySupport === "off" ? undefined : httpConfig.get<string>("proxy", "").trim() || undefined,
+    proxyAuthorization: httpConfig.get<string | null>("proxyAuthorization") || undefined,
+    noProxy: httpConfig.get<string[]>("noProxy", []),
+    strictSSL: httpConfig.get<boolean>("proxyStrictSSL", true),
+    caFiles: config.get<string[]>("caCertificates", []),
+  };
+}
 
-      const aPriority = priorityProviders.indexOf(aProvider);
-      const bPriority = priorityProviders.indexOf(bProvider);
+/**
+ * Settings of the agent's run_tests tool
+ */
+function getTestRunnerSettings(): TestRunnerSettings {
+  const config = vscode.workspace.getConfiguration("fixCode");
+  // The command runs in a shell, so an untrusted workspace cannot set it
+  const command = vscode.workspace.isTrusted
+    ? config.get<string>("testCommand", "")
+    : config.inspect<string>("testCommand")?.globalValue ?? "";
+
+  return {
+    enabled: config.get<boolean>("allowScriptExecution", false),
+    command: command.trim() || undefined,
+    timeoutMs: config.get<number>("testTimeoutSeconds", 120) * 1000,
+  };
+}
 
-      if (aPriority !== -1 && bPriority !== -1) {
-        if (aPriority !== bPriority) {
-          return aPriority - bPriority;
-        }
-      } else if (aPriority !== -1) {
-        return -1;
-      } else if (bPriority !== -1) {
-        return 1;
-      }
+/**
+ * Get the model requirements of a mode (fixCode.modeRequirements
+ * overrides the built-in defaults per mode)
+ */
+function getModeRequirements(mode: FixMode): ModelFilter {
+  const config = vscode.workspace.getConfiguration("fixCode");
+  const overrides = config.get<{ [mode: string]: ModelFilter }>("modeRequirements", {});
+  return overrides[mode] ?? DEFAULT_MODE_REQUIREMENTS[mode] ?? {};
+}
+
+/**
+ * List the requirements of a mode that a model does not meet.
+ * Models missing from the catalog (local models, unknown IDs) pass.
+ */
+function getModeModelIssues(mode: FixMode, model: string): string[] {
+  const catalogModel = getCatalogModel(model);
+  return catalogModel ? checkModelFilter(catalogModel, getModeRequirements(mode)) : [];
+}
+
+/**
+ * Load the model catalog, refreshing it after fixCode.modelCatalogRefreshHours
+ */
+async function loadModelCatalog(forceRefresh = false): Promise<ModelCatalog> {
+  const config = vscode.workspace.getConfiguration("fixCode");
+  return getModelCatalog({
+    refreshHours: config.get<number>("modelCatalogRefreshHours", DEFAULT_CATALOG_REFRESH_HOURS),
+    forceRefresh,
+  });
+}
+
+/**
+ * Ask which model to set: the default model or one mode's model
+ */
+async function pickModelTarget(): Promise<FixMode | "default" | undefined> {
+  const items: Array<vscode.QuickPickItem & { target: FixMode | "default" }> = [
+    { label: "⭐ Default Model", description: "fixCode.model", detail: "Used by every mode without its own model", target: "default" },
+    ...FIX_MODES.map((mode) => {
+      const requirements = describeModelFilter(getModeRequirements(mode));
+      return {
+        label: `${mode.charAt(0).toUpperCase()}${mode.slice(1)} Mode`,
+        description: `fixCode.modeSettings.${mode}.model`,
+        detail: requirements ? `Requires ${requirements}` : undefined,
+        target: mode,
+      };
+    }),
+  ];
 
-      return a.name.localeCompare(b.name);
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: "Which model do you want to set?",
+    title: "Select Model",
+  });
+  return selected?.target;
+}
+
+/**
+ * Ask for picker filters: capabilities, minimum context, price ceiling
+ */
+async function pickModelFilter(): Promise<{ filter: ModelFilter; forceRefresh: boolean } | undefined> {
+  type FilterItem = vscode.QuickPickItem & {
+    key: "tools" | "images" | "minContext" | "maxPrice" | "refresh";
+  };
+  const items: FilterItem[] = [
+    { label: "🛠️ Tool calling", detail: "Only models that support native tool calling", key: "tools" },
+    { label: "🖼️ Image input", detail: "Only models that accept images", key: "images" },
+    { label: "📏 Minimum context length...", detail: "Only models with at least N tokens of context", key: "minContext" },
+    { label: "💲 Price ceiling...", detail: "Only models up to a prompt price per 1M tokens", key: "maxPrice" },
+    { label: "🔄 Refresh model list", detail: "Download the latest catalog from OpenRouter", key: "refresh" },
+  ];
+
+  const selected = await vscode.window.showQuickPick(items, {
+    canPickMany: true,
+    placeHolder: "Filter models (press Enter without a selection to list all)",
+    title: "Model Filters",
+  });
+  if (!selected) {
+    return undefined;
+  }
+
+  const keys = new Set(selected.map((item) => item.key));
+  const filter: ModelFilter = {
+    tools: keys.has("tools") || undefined,
+    images: keys.has("images") || undefined,
+  };
+
+  if (keys.has("minContext")) {
+    const input = await vscode.window.showInputBox({
+      title: "Minimum Context Length",
+      prompt: "Minimum context window in tokens",
+      value: "32000",
+      validateInput: (value) =>
+        /^\d+$/.test(value.trim()) ? null : "Enter a whole number of tokens",
     });
+    if (input === undefined) {
+      return undefined;
+    }
+    filter.minContext = parseInt(input.trim(), 10);
+  }
 
-    return sortedModels;
-  } catch (error) {
-    console.error("Error fetching models from OpenRouter:", error);
-    throw error;
+  if (keys.has("maxPrice")) {
+    const input = await vscode.window.showInputBox({
+      title: "Price Ceiling",
+      prompt: "Maximum prompt price in USD per 1M tokens",
+      value: "3",
+      validateInput: (value) =>
+        isNaN(parseFloat(value)) || parseFloat(value) < 0 ? "Enter a price in USD" : null,
+    });
+    if (input === undefined) {
+      return undefined;
+    }
+    filter.maxPrice = parseFloat(input);
   }
+
+  return { filter, forceRefresh: keys.has("refresh") };
+}
+
+/**
+ * Format a catalog model's context, pricing and capabilities for the picker
+ */
+function formatModelDetail(model: CatalogModel): string {
+  const promptPrice = parseFloat(model.pricing.prompt) * 1000000;
+  const completionPrice = parseFloat(model.pricing.completion) * 1000000;
+  const capabilities = [
+    supportsTools(model) ? "🛠️ tools" : null,
+    supportsImageInput(model) ? "🖼️ images" : null,
+  ].filter(Boolean);
+
+  return `Context: ${model.context_length.toLocaleString()} tokens | Pricing: $${promptPrice.toFixed(2)}/$${completionPrice.toFixed(2)} per 1M tokens${capabilities.length > 0 ? ` | ${capabilities.join(" ")}` : ""}`;
 }
 
 /* ============================================================
@@ -884,27 +2455,65 @@ async function fetchModelsFromOpenRouter(): Promise<OpenRouterModel[]> {
 async function sendToAIAgent(
   payload: FixPayload,
   apiKey: string,
-  progressCallback?: (message: string) => void
+  progressCallback?: (message: string) => void,
+  streamCallback?: (partialText: string) => void,
+  signal?: AbortSignal
 ): Promise<any> {
+  const agentConfig = await buildSmartAgentConfig(payload, apiKey, signal);
+
+  // Execute smart agent (auto-detects complexity and chooses best mode)
+  return await executeSmartAgent(agentConfig, progressCallback, streamCallback);
+}
+
+/**
+ * Build the smart agent config for a fix request from the settings
+ */
+async function buildSmartAgentConfig(
+  payload: FixPayload,
+  apiKey: string,
+  signal?: AbortSignal
+): Promise<SmartAgentConfig> {
   const model = getSelectedModel();
   const config = vscode.workspace.getConfiguration("fixCode");
 
+  // Load pricing, context lengths and capabilities from the model catalog (best-effort)
+  const modeModels = Object.values(getModeSettings()).map((s) => s.model);
+  if (providerRequiresApiKey() && !modeModels.every(hasModelPricing)) {
+    await loadModelCatalog().catch((error) =>
+      console.warn("Could not load model pricing:", error)
+    );
+  }
+
+  // Resolved after loading so mode requirements see the catalog
+  const modeSettings = getModeSettings();
+  const replayMode = getReplaySettings().mode;
+
   // Build smart agent config with validation options
   const agentConfig: SmartAgentConfig = {
     apiKey,
     model,
+    provider: createLLMProvider(apiKey),
     workspacePath: payload.workspacePath,
     currentFile: payload.filePath,
     selectedCode: payload.rangeText,
     fullFileContent: payload.fullText,
+    selectionOffset: payload.rangeOffset,
     userPrompt: payload.prompt,
     enableValidation: config.get<boolean>("enableValidation", true),
     maxRetries: config.get<number>("maxRetries", 2),
+    transportRetries: config.get<number>("transportRetries", 3),
+    fallbackModels: config.get<string[]>("fallbackModels", []),
     enableWebSearch: config.get<boolean>("enableWebSearch", true),
+    forceMode: payload.forceMode,
+    modeSettings,
+    useAgentForComplexTasks: config.get<boolean>("useAgentForComplexTasks", false),
+    maxTurns: config.get<number>("agentMaxTurns", 10),
+    // Replayed and mocked responses never run actions
+    executeActions: replayMode === "off" || replayMode === "record",
+    signal,
   };
 
-  // Execute smart agent (auto-detects complexity and chooses best mode)
-  return await executeSmartAgent(agentConfig, progressCallback);
+  return agentConfig;
 }
 
 /* ============================================================
@@ -1005,7 +2614,7 @@ Please provide the improved code.`;
 }
 
 /**
- * Call OpenRouter API with automatic continuation support for truncated responses
+ * Call the configured LLM provider with automatic continuation support for truncated responses
  */
 async function callOpenRouterWithContinuation(
   systemPrompt: string,
@@ -1016,7 +2625,12 @@ async function callOpenRouterWithContinuation(
   const MAX_CONTINUATION_ATTEMPTS = 10;
   const CONTINUATION_TAIL_LENGTH = 1000;
 
-  const messages: OpenRouterMessage[] = [
+  const provider = createLLMProvider(apiKey);
+  const maxTokens = getResponseTokenLimit(
+    model,
+    vscode.workspace.getConfiguration("fixCode").get<number>("maxTokens", 4096)
+  );
+  const messages: ChatMessage[] = [
     {
       role: "system",
       content: systemPrompt,
@@ -1033,36 +2647,14 @@ async function callOpenRouterWithContinuation(
   while (continuationCount < MAX_CONTINUATION_ATTEMPTS) {
     console.log(`API call attempt ${continuationCount + 1}/${MAX_CONTINUATION_ATTEMPTS}`);
 
-    const response = await fetch(OPENROUTER_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${apiKey}`,
-        "HTTP-Referer": "https://github.com/malik-kurosaki/fix-code-makuro",
-        "X-Title": "Fix Code Makuro",
-      },
-      body: JSON.stringify({
-        model: model,
-        max_tokens: 4096,
-        messages: messages,
-      }),
+    const response = await provider.chat({
+      model,
+      messages,
+      maxTokens,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `API request failed: ${response.status} ${response.statusText} - ${errorText}`
-      );
-    }
-
-    const data: OpenRouterResponse = await response.json() as OpenRouterResponse;
-
-    if (!data.choices || data.choices.length === 0) {
-      throw new Error("No choices received from API");
-    }
-
     // Extract text content from response
-    const textContent = data.choices[0].message.content;
+    const textContent = response.content;
 
     if (!textContent) {
       throw new Error("Empty text content received from API");
@@ -1071,10 +2663,10 @@ async function callOpenRouterWithContinuation(
     // Accumulate the output
     accumulatedOutput += textContent;
 
-    console.log(`Received ${textContent.length} characters. Finish reason: ${data.choices[0].finish_reason}`);
+    console.log(`Received ${textContent.length} characters. Finish reason: ${response.finishReason}`);
 
     // Check if response was truncated
-    if (data.choices[0].finish_reason === "length") {
+    if (response.finishReason === "length") {
       console.log("Response truncated due to max_tokens. Preparing continuation...");
 
       // Add assistant's response to conversation history
@@ -1122,70 +2714,6 @@ async function callOpenRouterWithContinuation(
   return accumulatedOutput;
 }
 
-/**
- * Get the last N characters of text for continuation context
- */
-function getTailText(text: string, length: number): string {
-  if (text.length <= length) {
-    return text;
-  }
-  return text.slice(-length);
-}
-
-/**
- * Build continuation prompt that resumes from last character
- */
-function buildContinuationPrompt(lastOutputEnd: string): string {
-  return `Continue generating the code.
-Resume EXACTLY from the last character below.
-Do NOT repeat or explain anything.
-Do NOT add markdown code fences or any formatting.
-Just continue with the raw code.
-
-<<<LAST_OUTPUT_END>>>
-${lastOutputEnd}`;
-}
-
-/**
- * Basic validation to check if code output appears complete
- */
-function isOutputComplete(output: string): boolean {
-  const trimmed = output.trim();
-
-  if (trimmed.length === 0) {
-    return false;
-  }
-
-  // Check for obvious incomplete patterns
-  const incompleteSigns = [
-    /\(\s*$/,           // Ends with opening parenthesis
-    /\[\s*$/,           // Ends with opening bracket
-    /\{\s*$/,           // Ends with opening brace
-    /,\s*$/,            // Ends with comma
-    /\.\s*$/,           // Ends with dot (member access)
-    /->\s*$/,           // Ends with arrow
-    /=\s*$/,            // Ends with assignment
-    /:\s*$/,            // Ends with colon
-    /\+\s*$/,           // Ends with plus
-    /-\s*$/,            // Ends with minus
-    /\|\s*$/,           // Ends with pipe
-    /&\s*$/,            // Ends with ampersand
-    /\/\*[^*]*$/,       // Unclosed block comment
-    /\/\/[^\n]*$/,      // Ends with line comment (incomplete)
-    /"\s*[^"]*$/,       // Unclosed double quote
-    /'\s*[^']*$/,       // Unclosed single quote
-    /`\s*[^`]*$/,       // Unclosed backtick
-  ];
-
-  for (const pattern of incompleteSigns) {
-    if (pattern.test(trimmed)) {
-      return false;
-    }
-  }
-
-  return true;
-}
-
 /* ============================================================
  * Code Application
  * ============================================================
@@ -1512,12 +3040,35 @@ async function showDiff(
 async function ensureApiKey(
   context: vscode.ExtensionContext
 ): Promise<string | null> {
+  await whenCredentialProfilesLoaded();
+
+  // 0. Credential profile selected for this workspace
+  const profileName = getActiveProfileName();
+  if (profileName) {
+    return ensureProfileApiKey(profileName);
+  }
+
+  const secretKey = getSecretKey();
+  const keyInfo = getApiKeyInfo();
+
+  // Local OpenAI-compatible servers usually run without auth; they only
+  // ever get their own optional key, never the OpenRouter or Anthropic one
+  if (!providerRequiresApiKey()) {
+    return getProviderSettings().type === "openai-compatible"
+      ? (await context.secrets.get(secretKey)) || ""
+      : "";
+  }
+
   // 1. SecretStorage
-  const stored = await context.secrets.get(SECRET_KEY);
+  const stored = await context.secrets.get(secretKey);
   if (stored) { return stored; }
 
-  // 2. Legacy .env fallback
-  const legacy = await loadEnvApiKey();
+  // 2. Environment variable (OPENROUTER_API_KEY, ANTHROPIC_API_KEY)
+  const envKey = process.env[PROVIDER_ENV_VARS[getProviderSettings().type]]?.trim();
+  if (envKey) { return envKey; }
+
+  // 3. Legacy .env fallback (OpenRouter only)
+  const legacy = secretKey === SECRET_KEY ? await loadEnvApiKey() : null;
   if (legacy) {
     await context.secrets.store(SECRET_KEY, legacy);
     vscode.window.showInformationMessage(
@@ -1526,11 +3077,11 @@ async function ensureApiKey(
     return legacy;
   }
 
-  // 3. Prompt user
+  // 4. Prompt user
   const input = await vscode.window.showInputBox({
-    title: "Setup OpenRouter API Key",
-    prompt: "Enter your OpenRouter API Key (get it from https://openrouter.ai/keys)",
-    placeHolder: "sk-or-v1-...",
+    title: `Setup ${keyInfo.label} API Key`,
+    prompt: `Enter your ${keyInfo.label} API Key (get it from ${keyInfo.url})`,
+    placeHolder: keyInfo.placeHolder,
     password: true,
     ignoreFocusOut: true,
     validateInput: (value) => {
@@ -1547,12 +3098,232 @@ async function ensureApiKey(
     return null;
   }
 
-  await context.secrets.store(SECRET_KEY, input.trim());
+  await context.secrets.store(secretKey, input.trim());
   vscode.window.showInformationMessage("API Key saved securely.");
 
   return input.trim();
 }
 
+/**
+ * Resolve the API key of the workspace's credential profile
+ * (no prompt: the profile itself says where the key comes from)
+ */
+async function ensureProfileApiKey(profileName: string): Promise<string | null> {
+  const profile = getActiveProfile();
+  if (!profile) {
+    vscode.window
+      .showErrorMessage(`Credential profile "${profileName}" does not exist.`, "Select Profile")
+      .then((action) => {
+        if (action === "Select Profile") {
+          vscode.commands.executeCommand("fixCode.listCredentialProfiles");
+        }
+      });
+    return null;
+  }
+
+  const apiKey = await getProfileApiKey(profile);
+  if (apiKey) { return apiKey; }
+  if (!providerRequiresApiKey()) { return ""; }
+
+  const reason = profile.envVar
+    ? `environment variable ${profile.envVar} is not set`
+    : "no key stored";
+  vscode.window
+    .showErrorMessage(`Credential profile "${profile.name}" has no API key (${reason}).`, "Edit Profile")
+    .then((action) => {
+      if (action === "Edit Profile") {
+        vscode.commands.executeCommand("fixCode.setCredentialProfile");
+      }
+    });
+  return null;
+}
+
+/**
+ * SecretStorage entry for the configured provider's API key
+ * (each provider has its own, so a key only goes to its provider)
+ */
+function getSecretKey(): string {
+  const secretKeys: Record<ProviderType, string> = {
+    openrouter: SECRET_KEY,
+    anthropic: ANTHROPIC_SECRET_KEY,
+    "openai-compatible": OPENAI_COMPATIBLE_SECRET_KEY,
+  };
+  return secretKeys[getProviderSettings().type];
+}
+
+/**
+ * Labels for the API key prompts of the configured provider
+ */
+function getApiKeyInfo(): { label: string; placeHolder: string; url: string } {
+  const { type, baseUrl } = getProviderSettings();
+  if (type === "anthropic") {
+    return { label: "Anthropic", placeHolder: "sk-ant-...", url: "https://console.anthropic.com/settings/keys" };
+  }
+  if (type === "openai-compatible") {
+    return { label: "OpenAI-Compatible Server", placeHolder: "Optional server API key", url: baseUrl };
+  }
+  return { label: "OpenRouter", placeHolder: "sk-or-v1-...", url: "https://openrouter.ai/keys" };
+}
+
+/* ============================================================
+ * Credential Profiles
+ * ============================================================
+ */
+
+/**
+ * Create a profile or edit an existing one: provider, base URL and key source
+ */
+async function editCredentialProfile(): Promise<void> {
+  await whenCredentialProfilesLoaded();
+  const profiles = listCredentialProfiles();
+
+  let existing: CredentialProfile | undefined;
+  if (profiles.length > 0) {
+    const choice = await vscode.window.showQuickPick(
+      [
+        { label: "➕ New Profile", profile: undefined },
+        ...profiles.map((profile) => ({
+          label: profile.name,
+          description: `${profile.provider} • key: ${describeKeySource(profile)}`,
+          profile,
+        })),
+      ],
+      { placeHolder: "Create a profile or select one to edit", title: "Set Credential Profile" }
+    );
+    if (!choice) { return; }
+    existing = choice.profile;
+  }
+
+  const name =
+    existing?.name ??
+    (await vscode.window.showInputBox({
+      title: "Profile Name",
+      prompt: "Name of the credential profile (e.g. client-acme)",
+      ignoreFocusOut: true,
+      validateInput: (value) => {
+        const trimmed = value.trim();
+        if (trimmed.length === 0) { return "Name cannot be empty"; }
+        if (profiles.some((profile) => profile.name === trimmed)) {
+          return "A profile with this name already exists";
+        }
+        return null;
+      },
+    }))?.trim();
+  if (!name) { return; }
+
+  const providers: Array<vscode.QuickPickItem & { provider: ProviderType }> = [
+    { label: "OpenRouter", description: "openrouter", provider: "openrouter" },
+    { label: "Anthropic", description: "anthropic", provider: "anthropic" },
+    { label: "OpenAI-compatible", description: "openai-compatible", provider: "openai-compatible" },
+  ];
+  const providerChoice = await vscode.window.showQuickPick(
+    providers.map((item) => ({ ...item, picked: item.provider === existing?.provider })),
+    { placeHolder: "Provider for this profile", title: `Profile "${name}": Provider` }
+  );
+  if (!providerChoice) { return; }
+  const provider = providerChoice.provider;
+
+  const baseUrl = await vscode.window.showInputBox({
+    title: `Profile "${name}": Base URL`,
+    prompt: "Base URL of the provider API. Leave empty to use the provider default",
+    value: existing?.provider === provider ? existing.baseUrl ?? "" : "",
+    ignoreFocusOut: true,
+  });
+  if (baseUrl === undefined) { return; }
+
+  const sourceChoice = await vscode.window.showQuickPick(
+    [
+      { label: "🔒 Store API key in SecretStorage", env: false },
+      { label: "🌱 Read API key from an environment variable", env: true },
+    ],
+    { placeHolder: "Where does the API key come from?", title: `Profile "${name}": API Key` }
+  );
+  if (!sourceChoice) { return; }
+
+  let envVar: string | undefined;
+  let apiKey: string | undefined;
+
+  if (sourceChoice.env) {
+    envVar = (await vscode.window.showInputBox({
+      title: `Profile "${name}": Environment Variable`,
+      prompt: "Name of the environment variable holding the API key",
+      value: existing?.envVar ?? PROVIDER_ENV_VARS[provider],
+      ignoreFocusOut: true,
+      validateInput: (value) =>
+        /^[A-Za-z_][A-Za-z0-9_]*$/.test(value.trim()) ? null : "Enter a valid variable name",
+    }))?.trim();
+    if (!envVar) { return; }
+  } else {
+    const hasStoredKey = existing !== undefined && !existing.envVar;
+    const input = await vscode.window.showInputBox({
+      title: `Profile "${name}": API Key`,
+      prompt: hasStoredKey
+        ? "Enter a new API key, or leave empty to keep the stored one"
+        : "Enter the API key",
+      password: true,
+      ignoreFocusOut: true,
+      validateInput: (value) =>
+        value.trim().length === 0 && !hasStoredKey && provider !== "openai-compatible"
+          ? "API Key cannot be empty"
+          : null,
+    });
+    if (input === undefined) { return; }
+    apiKey = input.trim() || undefined;
+  }
+
+  await saveCredentialProfile(
+    { name, provider, baseUrl: baseUrl.trim() || undefined, envVar },
+    apiKey
+  );
+
+  if (getActiveProfileName() === name) {
+    vscode.window.showInformationMessage(`Credential profile "${name}" saved.`);
+    return;
+  }
+
+  const action = await vscode.window.showInformationMessage(
+    `Credential profile "${name}" saved.`,
+    "Use in This Workspace"
+  );
+  if (action === "Use in This Workspace") {
+    await setWorkspaceProfile(name);
+  }
+}
+
+/**
+ * Ask for one of the saved profiles
+ */
+async function pickCredentialProfile(placeHolder: string): Promise<CredentialProfile | undefined> {
+  await whenCredentialProfilesLoaded();
+  const profiles = listCredentialProfiles();
+
+  if (profiles.length === 0) {
+    vscode.window.showInformationMessage("No credential profiles saved.");
+    return undefined;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    profiles.map((profile) => ({
+      label: profile.name,
+      description: `${profile.provider} • key: ${describeKeySource(profile)}`,
+      profile,
+    })),
+    { placeHolder }
+  );
+  return selected?.profile;
+}
+
+/**
+ * Select a profile for the current workspace ("" = default settings)
+ */
+async function setWorkspaceProfile(name: string): Promise<void> {
+  const config = vscode.workspace.getConfiguration("fixCode");
+  const target = vscode.workspace.workspaceFolders
+    ? vscode.ConfigurationTarget.Workspace
+    : vscode.ConfigurationTarget.Global;
+  await config.update("credentialProfile", name || undefined, target);
+}
+
 /* ============================================================
  * Legacy ENV Support (Optional)
  * ============================================================
@@ -0,0 +1,220 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { Tool, ToolResult } from "./toolRegistry";
+
+const execFileAsync = promisify(execFile);
+
+/* ============================================================
+ * Git Tools - Read-Only Version History for the Agent
+ * ============================================================
+ * Diffs, history, blame and commits of the workspace repository,
+ * so the agent can see what the user changed recently and why
+ * code looks the way it does. These only read; committing and
+ * pushing stay with the gitOperation action (autonomousActions.ts).
+ * git runs without a shell and the output is capped.
+ */
+
+const MAX_OUTPUT_CHARS = 20000;
+const MAX_LOG_ENTRIES = 100;
+const MAX_BLAME_LINES = 200;
+const GIT_TIMEOUT = 15000;
+
+// Commit-ish: hashes, branches, tags, HEAD~2, main^, v1.0..v1.1 - never an option
+const REVISION_PATTERN = /^[\w./~^@{}-]+$/;
+
+/**
+ * Run git in the workspace; failures come back as a failed ToolResult
+ */
+async function runGit(
+  args: string[],
+  workspacePath: string,
+  signal?: AbortSignal
+): Promise<{ output: string } | ToolResult> {
+  try {
+    const { stdout } = await execFileAsync("git", ["--no-pager", ...args], {
+      cwd: workspacePath,
+      timeout: GIT_TIMEOUT,
+      maxBuffer: 10 * 1024 * 1024,
+      signal,
+      windowsHide: true,
+    });
+    return { output: stdout };
+  } catch (error) {
+    const { code, stderr } = (error instanceof Error ? error : {}) as { code?: unknown; stderr?: string };
+    const message =
+      code === "ENOENT"
+        ? "git is not installed or not on PATH"
+        : (stderr || (error instanceof Error ? error.message : String(error))).trim();
+    return { success: false, data: "", error: `git ${args[0]} failed: ${message}` };
+  }
+}
+
+function truncate(output: string, hint: string): string {
+  if (output.length <= MAX_OUTPUT_CHARS) {
+    return output;
+  }
+  return `${output.slice(0, MAX_OUTPUT_CHARS)}\n... (truncated ${output.length - MAX_OUTPUT_CHARS} chars, ${hint})`;
+}
+
+function pathArgs(filePath?: string): string[] {
+  return filePath ? ["--", filePath] : [];
+}
+
+/* ============================================================
+ * Tools
+ * ============================================================
+ */
+
+export const gitTools: Tool[] = [
+  {
+    name: "git_diff",
+    description: "Show uncommitted changes in the working tree, or the staged changes (untracked files are not included)",
+    category: "git",
+    permission: "read",
+    parameters: {
+      type: "object",
+      properties: {
+        staged: {
+          type: "boolean",
+          description: "Show staged changes instead of unstaged ones (default: false)",
+        },
+        filePath: {
+          type: "string",
+          description: "Only show changes to this file or directory (optional)",
+        },
+      },
+    },
+    execute: async (params, context): Promise<ToolResult> => {
+      const args = ["diff", "--no-color", "--stat", "--patch"];
+      if (params.staged) {
+        args.push("--cached");
+      }
+      const result = await runGit([...args, ...pathArgs(params.filePath)], context.workspacePath, context.signal);
+      if (!("output" in result)) {
+        return result;
+      }
+
+      const kind = params.staged ? "staged" : "unstaged";
+      if (!result.output.trim()) {
+        return { success: true, data: `No ${kind} changes${params.filePath ? ` in ${params.filePath}` : ""}` };
+      }
+      return {
+        success: true,
+        data: truncate(result.output, "pass filePath to see one file"),
+        metadata: { staged: !!params.staged },
+      };
+    },
+  },
+  {
+    name: "git_log",
+    description: "Show recent commits, optionally only those touching a file (follows renames)",
+    category: "git",
+    permission: "read",
+    parameters: {
+      type: "object",
+      properties: {
+        filePath: {
+          type: "string",
+          description: "Only commits that changed this file or directory (optional)",
+        },
+        maxCount: {
+          type: "integer",
+          description: `Number of commits (default: 20, max: ${MAX_LOG_ENTRIES})`,
+        },
+      },
+    },
+    execute: async (params, context): Promise<ToolResult> => {
+      const maxCount = Math.min(Math.max(params.maxCount || 20, 1), MAX_LOG_ENTRIES);
+      const args = ["log", "--no-color", `--max-count=${maxCount}`, "--date=short", "--format=%h %ad %an%n    %s"];
+      if (params.filePath) {
+        args.push("--follow");
+      }
+      const result = await runGit([...args, ...pathArgs(params.filePath)], context.workspacePath, context.signal);
+      if (!("output" in result)) {
+        return result;
+      }
+
+      if (!result.output.trim()) {
+        return { success: true, data: params.filePath ? `No commits touch ${params.filePath}` : "No commits yet" };
+      }
+      return { success: true, data: truncate(result.output, "lower maxCount") };
+    },
+  },
+  {
+    name: "git_blame",
+    description: "Show who last changed each line of a range, with commit and date",
+    category: "git",
+    permission: "read",
+    parameters: {
+      type: "object",
+      properties: {
+        filePath: {
+          type: "string",
+          description: "File to blame (relative to workspace or absolute)",
+        },
+        startLine: {
+          type: "integer",
+          description: "First line (1-based)",
+        },
+        endLine: {
+          type: "integer",
+          description: `Last line (default: startLine + 30, at most ${MAX_BLAME_LINES} lines)`,
+        },
+      },
+      required: ["filePath", "startLine"],
+    },
+    execute: async (params, context): Promise<ToolResult> => {
+      const startLine = Math.max(params.startLine, 1);
+      const endLine = Math.min(Math.max(params.endLine || startLine + 30, startLine), startLine + MAX_BLAME_LINES - 1);
+      const result = await runGit(
+        ["blame", "--date=short", "-L", `${startLine},${endLine}`, "--", params.filePath],
+        context.workspacePath,
+        context.signal
+      );
+      if (!("output" in result)) {
+        return result;
+      }
+
+      return {
+        success: true,
+        data: truncate(result.output, "narrow the line range"),
+        metadata: { startLine, endLine },
+      };
+    },
+  },
+  {
+    name: "git_show",
+    description: "Show a commit's message and changes (use git_log to find commits)",
+    category: "git",
+    permission: "read",
+    parameters: {
+      type: "object",
+      properties: {
+        commit: {
+          type: "string",
+          description: "Commit hash, branch, tag or HEAD~n",
+        },
+        filePath: {
+          type: "string",
+          description: "Only show the changes to this file (optional)",
+        },
+      },
+      required: ["commit"],
+    },
+    execute: async (params, context): Promise<ToolResult> => {
+      if (!REVISION_PATTERN.test(params.commit) || params.commit.startsWith("-")) {
+        return { success: false, data: "", error: `Invalid commit: ${params.commit}` };
+      }
+      const result = await runGit(
+        ["show", "--no-color", "--date=short", "--stat", "--patch", params.commit, ...pathArgs(params.filePath)],
+        context.workspacePath,
+        context.signal
+      );
+      if (!("output" in result)) {
+        return result;
+      }
+
+      return { success: true, data: truncate(result.output, "pass filePath to see one file") };
+    },
+  },
+];
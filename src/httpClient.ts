@@ -0,0 +1,364 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+import * as tls from "tls";
+import { URL } from "url";
+
+/* ============================================================
+ * HTTP Client - Shared Transport for All Outgoing Requests
+ * ============================================================
+ * Every request of the extension (LLM providers, model catalog,
+ * web search) goes through httpFetch, which:
+ * - routes through the VSCode http.proxy or HTTPS_PROXY/HTTP_PROXY,
+ *   skipping hosts listed in http.noProxy / NO_PROXY
+ * - trusts extra CA certificates (corporate TLS inspection)
+ * - caps redirects and response sizes
+ * It returns a standard fetch Response, streaming bodies included.
+ */
+
+export interface HttpSettings {
+  proxy?: string; // VSCode http.proxy (env variables when empty)
+  proxyAuthorization?: string; // Proxy-Authorization header value
+  noProxy?: string[]; // Hosts that bypass the proxy
+  strictSSL?: boolean; // Reject invalid certificates (default: true)
+  caFiles?: string[]; // Extra PEM files to trust
+}
+
+export interface HttpRequestInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+  timeoutMs?: number; // Idle socket timeout (default: none)
+  maxRedirects?: number;
+  maxResponseBytes?: number;
+}
+
+/**
+ * Thrown when a response body exceeds maxResponseBytes
+ */
+export class ResponseTooLargeError extends Error {
+  constructor(public readonly url: string, public readonly maxBytes: number) {
+    super(`Response from ${url} exceeds ${Math.round(maxBytes / 1024)} KB`);
+    this.name = "ResponseTooLargeError";
+  }
+}
+
+/**
+ * Thrown when a request keeps redirecting past maxRedirects
+ */
+export class TooManyRedirectsError extends Error {
+  constructor(public readonly url: string, public readonly maxRedirects: number) {
+    super(`Too many redirects (over ${maxRedirects}) starting at ${url}`);
+    this.name = "TooManyRedirectsError";
+  }
+}
+
+export const DEFAULT_MAX_REDIRECTS = 5;
+export const DEFAULT_MAX_RESPONSE_BYTES = 20 * 1024 * 1024;
+
+const REDIRECT_STATUS = new Set([301, 302, 303, 307, 308]);
+const NULL_BODY_STATUS = new Set([101, 204, 205, 304]);
+
+// Credentials are not forwarded when a redirect leaves the origin
+const CREDENTIAL_HEADERS = ["authorization", "x-api-key", "cookie"];
+
+let settings: HttpSettings = {};
+let extraCA: string[] | undefined;
+
+/**
+ * Apply proxy and certificate settings (called on activation and
+ * whenever the http.* or fixCode.caCertificates settings change)
+ */
+export function configureHttp(newSettings: HttpSettings): void {
+  settings = newSettings;
+
+  const caFiles = [...(newSettings.caFiles || [])];
+  // Passing custom CAs replaces Node's store, so keep NODE_EXTRA_CA_CERTS too
+  if (caFiles.length > 0 && process.env.NODE_EXTRA_CA_CERTS) {
+    caFiles.push(process.env.NODE_EXTRA_CA_CERTS);
+  }
+
+  const certificates: string[] = [];
+  for (const file of caFiles) {
+    try {
+      certificates.push(fs.readFileSync(file, "utf8"));
+    } catch (error) {
+      console.warn(`Could not read CA certificate ${file}:`, error);
+    }
+  }
+  extraCA = certificates.length > 0 ? [...tls.rootCertificates, ...certificates] : undefined;
+}
+
+/**
+ * fetch() replacement honoring the proxy, CA and limit settings
+ */
+export async function httpFetch(url: string, init: HttpRequestInit = {}): Promise<Response> {
+  const maxRedirects = init.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  let target = new URL(url);
+  let method = (init.method || "GET").toUpperCase();
+  let body = init.body;
+  let headers = { ...init.headers };
+
+  for (let redirects = 0; ; redirects++) {
+    const res = await sendRequest(target, method, headers, body, init);
+    const location = res.headers.location;
+
+    if (!REDIRECT_STATUS.has(res.statusCode || 0) || !location) {
+      return toResponse(res, target, init.maxResponseBytes ?? DEFAULT_MAX_RESPONSE_BYTES);
+    }
+
+    res.resume();
+    if (redirects >= maxRedirects) {
+      throw new TooManyRedirectsError(url, maxRedirects);
+    }
+
+    const next = new URL(location, target);
+    if (next.origin !== target.origin) {
+      headers = Object.fromEntries(
+        Object.entries(headers).filter(([name]) => !CREDENTIAL_HEADERS.includes(name.toLowerCase()))
+      );
+    }
+    // 303 (and 301/302 after POST, like browsers) continue as GET
+    if (res.statusCode === 303 || ((res.statusCode === 301 || res.statusCode === 302) && method === "POST")) {
+      method = "GET";
+      body = undefined;
+    }
+    target = next;
+  }
+}
+
+/**
+ * Proxy URL for a target, or null for a direct connection
+ */
+export function getProxyForUrl(target: URL): URL | null {
+  const isHttps = target.protocol === "https:";
+  const proxy =
+    settings.proxy ||
+    (isHttps
+      ? process.env.HTTPS_PROXY || process.env.https_proxy
+      : process.env.HTTP_PROXY || process.env.http_proxy) ||
+    "";
+
+  if (!proxy || isNoProxyHost(target)) {
+    return null;
+  }
+
+  try {
+    return new URL(proxy.includes("://") ? proxy : `http://${proxy}`);
+  } catch {
+    console.warn(`Ignoring invalid proxy URL: ${proxy}`);
+    return null;
+  }
+}
+
+/**
+ * Match a host against http.noProxy / NO_PROXY entries
+ * ("*", "example.com", ".example.com", "*.example.com", "host:port")
+ */
+function isNoProxyHost(target: URL): boolean {
+  const entries = [
+    ...(settings.noProxy || []),
+    ...(process.env.NO_PROXY || process.env.no_proxy || "").split(","),
+  ]
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+  const host = target.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  const port = target.port || (target.protocol === "https:" ? "443" : "80");
+
+  return entries.some((entry) => {
+    if (entry === "*") {
+      return true;
+    }
+    const [entryHost, entryPort] = entry.replace(/^\*/, "").split(/:(?=\d+$)/);
+    if (entryPort && entryPort !== port) {
+      return false;
+    }
+    const domain = entryHost.replace(/^\./, "");
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
+
+function sendRequest(
+  target: URL,
+  method: string,
+  headers: Record<string, string>,
+  body: string | undefined,
+  init: HttpRequestInit
+): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    if (init.signal?.aborted) {
+      reject(new Error("Cancelled by user"));
+      return;
+    }
+
+    const isHttps = target.protocol === "https:";
+    const proxy = getProxyForUrl(target);
+    const tlsOptions = { ca: extraCA, rejectUnauthorized: settings.strictSSL !== false };
+    const requestHeaders: Record<string, string> = { ...headers };
+    if (body !== undefined) {
+      requestHeaders["Content-Length"] = String(Buffer.byteLength(body));
+    }
+
+    const onResponse = (res: http.IncomingMessage) => resolve(res);
+    const onError = (error: Error) =>
+      reject(init.signal?.aborted ? new Error("Cancelled by user") : toNetworkError(target, error));
+
+    let req: http.ClientRequest;
+    if (proxy && !isHttps) {
+      // Plain HTTP through a proxy: absolute URL as the request path
+      req = http.request(
+        {
+          host: proxy.hostname,
+          port: proxy.port || 80,
+          method,
+          path: target.href,
+          headers: { ...requestHeaders, Host: target.host, ...getProxyHeaders(proxy) },
+          signal: init.signal,
+        },
+        onResponse
+      );
+    } else {
+      req = (isHttps ? https : http).request(
+        {
+          hostname: target.hostname,
+          port: target.port || (isHttps ? 443 : 80),
+          method,
+          path: target.pathname + target.search,
+          headers: requestHeaders,
+          signal: init.signal,
+          ...(isHttps ? tlsOptions : {}),
+          ...(proxy
+            ? {
+                // Without an agent, Node uses this socket for the request
+                createConnection: (_options: unknown, callback: (error: Error | null, socket: net.Socket) => void) => {
+                  openTunnel(proxy, target, tlsOptions)
+                    .then((socket) => callback(null, socket))
+                    .catch((error) => callback(error, undefined as unknown as net.Socket));
+                  return undefined as unknown as net.Socket;
+                },
+              }
+            : {}),
+        },
+        onResponse
+      );
+    }
+
+    req.on("error", onError);
+    if (init.timeoutMs) {
+      req.setTimeout(init.timeoutMs, () => {
+        req.destroy(new Error("Request timeout"));
+      });
+    }
+    req.end(body);
+  });
+}
+
+/**
+ * Open a CONNECT tunnel through the proxy and start TLS to the target
+ */
+function openTunnel(
+  proxy: URL,
+  target: URL,
+  tlsOptions: tls.ConnectionOptions
+): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const authority = `${target.hostname}:${target.port || 443}`;
+    const connect = (proxy.protocol === "https:" ? https : http).request({
+      host: proxy.hostname,
+      port: proxy.port || (proxy.protocol === "https:" ? 443 : 80),
+      method: "CONNECT",
+      path: authority,
+      headers: { Host: authority, ...getProxyHeaders(proxy) },
+      ...(proxy.protocol === "https:" ? tlsOptions : {}),
+    });
+
+    connect.once("connect", (res, socket) => {
+      if (res.statusCode !== 200) {
+        socket.destroy();
+        reject(new Error(`Proxy CONNECT to ${authority} failed: HTTP ${res.statusCode}`));
+        return;
+      }
+      resolve(tls.connect({ ...tlsOptions, socket, servername: target.hostname }));
+    });
+    connect.once("error", reject);
+    connect.end();
+  });
+}
+
+function getProxyHeaders(proxy: URL): Record<string, string> {
+  if (settings.proxyAuthorization) {
+    return { "Proxy-Authorization": settings.proxyAuthorization };
+  }
+  if (proxy.username) {
+    const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+    return { "Proxy-Authorization": `Basic ${Buffer.from(credentials).toString("base64")}` };
+  }
+  return {};
+}
+
+/**
+ * Wrap a Node response as a fetch Response, enforcing the size cap
+ */
+function toResponse(res: http.IncomingMessage, target: URL, maxBytes: number): Response {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(res.headers)) {
+    if (value !== undefined) {
+      headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+    }
+  }
+
+  const status = res.statusCode || 500;
+  if (NULL_BODY_STATUS.has(status)) {
+    res.resume();
+    return new Response(null, { status, statusText: res.statusMessage, headers });
+  }
+
+  let received = 0;
+  let finished = false;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      res.on("data", (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > maxBytes) {
+          finished = true;
+          res.destroy();
+          controller.error(new ResponseTooLargeError(target.href, maxBytes));
+          return;
+        }
+        controller.enqueue(new Uint8Array(chunk));
+      });
+      res.on("end", () => {
+        if (!finished) {
+          finished = true;
+          controller.close();
+        }
+      });
+      res.on("error", (error) => {
+        if (!finished) {
+          finished = true;
+          controller.error(toNetworkError(target, error));
+        }
+      });
+    },
+    cancel() {
+      finished = true;
+      res.destroy();
+    },
+  });
+
+  return new Response(body, { status, statusText: res.statusMessage, headers });
+}
+
+/**
+ * Network failures surface as TypeError, like fetch(), so the
+ * retry layer treats them as transient
+ */
+function toNetworkError(target: URL, error: Error): Error {
+  if (error instanceof ResponseTooLargeError || error instanceof TypeError) {
+    return error;
+  }
+  return new TypeError(`Request to ${target.host} failed: ${error.message}`);
+}
@@ -0,0 +1,902 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ReplayMode, ReplayProvider } from "./replayProvider";
+import { getActiveProfile } from "./credentialProfiles";
+import { httpFetch } from "./httpClient";
+
+/* ============================================================
+ * LLM Client - Pluggable Chat Completion Providers
+ * ============================================================
+ * Single entry point for every chat completion request made by
+ * the extension. Providers:
+ * - openrouter: hosted models via https://openrouter.ai
+ * - openai-compatible: any server exposing /v1/chat/completions
+ *   (llama.cpp server, vLLM, LM Studio, Ollama's /v1, ...)
+ * - anthropic: Anthropic Messages API with prompt caching
+ */
+
+export type ProviderType = "openrouter" | "openai-compatible" | "anthropic";
+
+export type ReasoningEffort = "low" | "medium" | "high";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  parts?: ContentPart[]; // Same text as content, split at cache breakpoints
+  toolCalls?: ToolCall[]; // assistant messages requesting tools
+  toolCallId?: string; // tool messages answering a call
+  thinking?: ThinkingBlock[]; // assistant messages: sent back unchanged
+}
+
+/**
+ * Extended thinking block of an Anthropic response. Tool-use turns must
+ * be sent back with their thinking blocks and signatures untouched.
+ */
+export interface ThinkingBlock {
+  type: "thinking" | "redacted_thinking";
+  thinking?: string;
+  signature?: string;
+  data?: string; // redacted_thinking: encrypted content
+}
+
+/**
+ * Part of a message. A cacheable part ends a prompt prefix that
+ * providers with prompt caching may reuse across requests.
+ */
+export interface ContentPart {
+  text: string;
+  cacheable?: boolean;
+}
+
+/**
+ * Structured tool call returned by the model (arguments are raw JSON)
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * Tool definition sent with the request (JSON schema parameters)
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: {
+    type: "object";
+    properties: Record<string, unknown>;
+    required: string[];
+    [keyword: string]: unknown; // Other JSON schema keywords are passed through
+  };
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  reasoningEffort?: ReasoningEffort; // Ignored by models without reasoning
+  tools?: ToolDefinition[];
+  signal?: AbortSignal;
+}
+
+export interface ChatResponse {
+  content: string;
+  model: string;
+  finishReason: "stop" | "length" | "content_filter" | "tool_calls" | null;
+  toolCalls?: ToolCall[];
+  thinking?: ThinkingBlock[]; // Anthropic extended thinking
+  usage?: ChatUsage;
+}
+
+export interface ChatUsage {
+  promptTokens: number; // Includes cached prompt tokens
+  completionTokens: number;
+  totalTokens: number;
+  cacheReadTokens?: number; // Prompt tokens served from the prompt cache
+  cacheWriteTokens?: number; // Prompt tokens written to the prompt cache
+}
+
+export interface ProviderConfig {
+  type: ProviderType;
+  baseUrl: string;
+  apiKey: string;
+  title?: string;
+}
+
+/**
+ * Error returned by the provider API (non-2xx response)
+ */
+export class LLMApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly body: string,
+    public readonly retryAfterMs?: number // From the Retry-After header
+  ) {
+    super(`API Error ${status}: ${body}`);
+    this.name = "LLMApiError";
+  }
+}
+
+/**
+ * Called with each streamed text delta and the text accumulated so far
+ */
+export type StreamCallback = (delta: string, accumulated: string) => void;
+
+export interface LLMProvider {
+  readonly type: ProviderType;
+  readonly baseUrl: string;
+  chat(request: ChatRequest): Promise<ChatResponse>;
+  chatStream(request: ChatRequest, onToken: StreamCallback): Promise<ChatResponse>;
+}
+
+/* ============================================================
+ * Constants
+ * ============================================================
+ */
+
+export const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+export const ANTHROPIC_BASE_URL = "https://api.anthropic.com/v1";
+const ANTHROPIC_VERSION = "2023-06-01";
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 4096;
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:8080/v1";
+const DEFAULT_TITLE = "Fix Code Makuro";
+
+/* ============================================================
+ * Providers
+ * ============================================================
+ */
+
+/**
+ * Provider for any server speaking the OpenAI chat completions API
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly type: ProviderType = "openai-compatible";
+  readonly baseUrl: string;
+  protected apiKey: string;
+  protected title: string;
+
+  constructor(config: ProviderConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, "");
+    this.apiKey = config.apiKey;
+    this.title = config.title || DEFAULT_TITLE;
+  }
+
+  /**
+   * Send a chat completion request
+   */
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const response = await httpFetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: this.buildHeaders(),
+      body: JSON.stringify(this.buildBody(request)),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LLMApiError(
+        response.status,
+        errorText,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+
+    const data = (await response.json()) as any;
+
+    if (!data.choices || data.choices.length === 0) {
+      throw new Error("No response from AI");
+    }
+
+    const choice = data.choices[0];
+    const toolCalls: ToolCall[] = (choice.message?.tool_calls || []).map(
+      (call: any, index: number) => ({
+        id: call.id || `call_${index}`,
+        name: call.function?.name || "",
+        arguments: call.function?.arguments || "{}",
+      })
+    );
+
+    return {
+      content: choice.message?.content ?? "",
+      model: data.model || request.model,
+      finishReason: choice.finish_reason ?? null,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: data.usage ? toChatUsage(data.usage) : undefined,
+    };
+  }
+
+  /**
+   * Send a streaming chat completion request (Server-Sent Events).
+   * Resolves with the full response once the stream ends.
+   */
+  async chatStream(
+    request: ChatRequest,
+    onToken: StreamCallback
+  ): Promise<ChatResponse> {
+    const response = await httpFetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: this.buildHeaders(),
+      body: JSON.stringify({
+        ...this.buildBody(request),
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LLMApiError(
+        response.status,
+        errorText,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+
+    if (!response.body) {
+      throw new Error("Streaming not supported by response");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let content = "";
+    let model = request.model;
+    let finishReason: ChatResponse["finishReason"] = null;
+    let usage: ChatResponse["usage"];
+    let done = false;
+
+    while (!done) {
+      const chunk = await reader.read();
+      if (chunk.done) {
+        break;
+      }
+
+      buffer += decoder.decode(chunk.value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const event = parseSSELine(line);
+        if (event === null) {
+          continue;
+        }
+        if (event === "[DONE]") {
+          done = true;
+          break;
+        }
+
+        if (event.model) {
+          model = event.model;
+        }
+        if (event.usage) {
+          usage = toChatUsage(event.usage);
+        }
+
+        const choice = event.choices?.[0];
+        if (!choice) {
+          continue;
+        }
+
+        const delta: string | undefined = choice.delta?.content;
+        if (delta) {
+          content += delta;
+          onToken(delta, content);
+        }
+        if (choice.finish_reason) {
+          finishReason = choice.finish_reason;
+        }
+      }
+    }
+
+    reader.releaseLock();
+
+    return { content, model, finishReason, usage };
+  }
+
+  /**
+   * Build request headers
+   */
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+
+    // Local servers usually run without auth
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Build request body
+   */
+  protected buildBody(request: ChatRequest): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model: request.model,
+      messages: request.messages.map(toOpenAIMessage),
+    };
+
+    if (request.tools && request.tools.length > 0) {
+      body.tools = request.tools.map((tool) => ({
+        type: "function",
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      }));
+    }
+
+    if (request.maxTokens !== undefined) {
+      body.max_tokens = request.maxTokens;
+    }
+    if (request.temperature !== undefined) {
+      body.temperature = request.temperature;
+    }
+    if (request.reasoningEffort) {
+      body.reasoning_effort = request.reasoningEffort;
+    }
+
+    return body;
+  }
+}
+
+/**
+ * OpenRouter provider - OpenAI-compatible with attribution headers
+ */
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  readonly type: ProviderType = "openrouter";
+
+  constructor(config: Omit<ProviderConfig, "type" | "baseUrl"> & { baseUrl?: string }) {
+    super({
+      ...config,
+      type: "openrouter",
+      baseUrl: config.baseUrl || OPENROUTER_BASE_URL,
+    });
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    return {
+      ...super.buildHeaders(),
+      "HTTP-Referer": "https://github.com/malikkurosaki/fix-code-makuro",
+      "X-Title": this.title,
+    };
+  }
+
+  // OpenRouter normalizes reasoning settings across providers
+  protected buildBody(request: ChatRequest): Record<string, unknown> {
+    const { reasoning_effort, ...body } = super.buildBody(request);
+    if (reasoning_effort) {
+      body.reasoning = { effort: reasoning_effort };
+    }
+    return body;
+  }
+}
+
+/**
+ * Provider for the Anthropic Messages API. Cacheable message parts
+ * are sent with cache_control breakpoints so repeated requests reuse
+ * the cached prompt prefix.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly type: ProviderType = "anthropic";
+  readonly baseUrl: string;
+  private apiKey: string;
+
+  constructor(config: Omit<ProviderConfig, "type" | "baseUrl"> & { baseUrl?: string }) {
+    this.baseUrl = (config.baseUrl || ANTHROPIC_BASE_URL).replace(/\/+$/, "");
+    this.apiKey = config.apiKey;
+  }
+
+  /**
+   * Send a Messages API request
+   */
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const response = await this.post(request, false);
+    const data = (await response.json()) as any;
+
+    let content = "";
+    const toolCalls: ToolCall[] = [];
+    const thinking: ThinkingBlock[] = [];
+    for (const block of data.content || []) {
+      if (block.type === "text") {
+        content += block.text;
+      } else if (block.type === "thinking" || block.type === "redacted_thinking") {
+        thinking.push(block);
+      } else if (block.type === "tool_use") {
+        toolCalls.push({
+          id: block.id,
+          name: block.name,
+          arguments: JSON.stringify(block.input ?? {}),
+        });
+      }
+    }
+
+    return {
+      content,
+      model: data.model || request.model,
+      finishReason: toFinishReason(data.stop_reason),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      thinking: thinking.length > 0 ? thinking : undefined,
+      usage: data.usage ? toAnthropicUsage(data.usage) : undefined,
+    };
+  }
+
+  /**
+   * Send a streaming Messages API request (Server-Sent Events)
+   */
+  async chatStream(
+    request: ChatRequest,
+    onToken: StreamCallback
+  ): Promise<ChatResponse> {
+    const response = await this.post(request, true);
+
+    if (!response.body) {
+      throw new Error("Streaming not supported by response");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const toolBlocks = new Map<number, ToolCall>();
+    const thinkingBlocks = new Map<number, ThinkingBlock>();
+    let buffer = "";
+    let content = "";
+    let model = request.model;
+    let finishReason: ChatResponse["finishReason"] = null;
+    let rawUsage: any = {};
+    let done = false;
+
+    while (!done) {
+      const chunk = await reader.read();
+      if (chunk.done) {
+        break;
+      }
+
+      buffer += decoder.decode(chunk.value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const event = parseSSELine(line);
+        if (event === null || event === "[DONE]") {
+          continue;
+        }
+
+        switch (event.type) {
+          case "message_start":
+            model = event.message?.model || model;
+            rawUsage = { ...rawUsage, ...event.message?.usage };
+            break;
+          case "content_block_start":
+            if (event.content_block?.type === "tool_use") {
+              toolBlocks.set(event.index, {
+                id: event.content_block.id,
+                name: event.content_block.name,
+                arguments: "",
+              });
+            } else if (
+              event.content_block?.type === "thinking" ||
+              event.content_block?.type === "redacted_thinking"
+            ) {
+              thinkingBlocks.set(event.index, { ...event.content_block });
+            }
+            break;
+          case "content_block_delta":
+            if (event.delta?.type === "text_delta") {
+              content += event.delta.text;
+              onToken(event.delta.text, content);
+            } else if (event.delta?.type === "input_json_delta") {
+              const call = toolBlocks.get(event.index);
+              if (call) {
+                call.arguments += event.delta.partial_json;
+              }
+            } else if (event.delta?.type === "thinking_delta") {
+              const block = thinkingBlocks.get(event.index);
+              if (block) {
+                block.thinking = (block.thinking || "") + event.delta.thinking;
+              }
+            } else if (event.delta?.type === "signature_delta") {
+              const block = thinkingBlocks.get(event.index);
+              if (block) {
+                block.signature = event.delta.signature;
+              }
+            }
+            break;
+          case "message_delta":
+            finishReason = toFinishReason(event.delta?.stop_reason) ?? finishReason;
+            rawUsage = { ...rawUsage, ...event.usage };
+            break;
+          case "message_stop":
+            done = true;
+            break;
+          case "error":
+            throw new LLMApiError(500, JSON.stringify(event.error));
+        }
+      }
+    }
+
+    reader.releaseLock();
+
+    const toolCalls = [...toolBlocks.values()].map((call) => ({
+      ...call,
+      arguments: call.arguments || "{}",
+    }));
+
+    // Blocks are sent back in the order they arrived
+    const thinking = [...thinkingBlocks.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, block]) => block);
+
+    return {
+      content,
+      model,
+      finishReason,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      thinking: thinking.length > 0 ? thinking : undefined,
+      usage: toAnthropicUsage(rawUsage),
+    };
+  }
+
+  private async post(request: ChatRequest, stream: boolean): Promise<Response> {
+    const response = await httpFetch(`${this.baseUrl}/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({ ...this.buildBody(request), stream }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LLMApiError(
+        response.status,
+        errorText,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Build request body: system messages become the system blocks,
+   * tool calls and results become tool_use / tool_result blocks
+   */
+  private buildBody(request: ChatRequest): Record<string, unknown> {
+    const maxTokens = request.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS;
+    const system = request.messages
+      .filter((message) => message.role === "system")
+      .flatMap(toAnthropicBlocks);
+
+    const body: Record<string, unknown> = {
+      model: toAnthropicModelId(request.model),
+      max_tokens: maxTokens,
+      messages: request.messages
+        .filter((message) => message.role !== "system")
+        .map(toAnthropicMessage),
+    };
+
+    if (system.length > 0) {
+      body.system = system;
+    }
+
+    if (request.tools && request.tools.length > 0) {
+      body.tools = request.tools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters,
+      }));
+    }
+
+    // Extended thinking needs room in max_tokens and the default temperature
+    const thinkingBudget = request.reasoningEffort
+      ? ANTHROPIC_THINKING_BUDGETS[request.reasoningEffort]
+      : 0;
+    if (thinkingBudget > 0 && thinkingBudget < maxTokens) {
+      body.thinking = { type: "enabled", budget_tokens: thinkingBudget };
+    } else if (request.temperature !== undefined) {
+      body.temperature = Math.min(request.temperature, 1);
+    }
+
+    return body;
+  }
+}
+
+const ANTHROPIC_THINKING_BUDGETS: Record<ReasoningEffort, number> = {
+  low: 1024,
+  medium: 4096,
+  high: 16384,
+};
+
+/**
+ * Map OpenRouter-style IDs ("anthropic/claude-sonnet-4.5:beta") to
+ * Anthropic model IDs ("claude-sonnet-4-5"); native IDs pass through
+ */
+function toAnthropicModelId(model: string): string {
+  return model
+    .replace(/^anthropic\//, "")
+    .replace(/:[\w-]+$/, "")
+    .replace(/(\d)\.(\d)/g, "$1-$2");
+}
+
+/**
+ * Convert message text to Anthropic content blocks with cache breakpoints
+ */
+function toAnthropicBlocks(message: ChatMessage): Record<string, unknown>[] {
+  const parts = message.parts || [{ text: message.content }];
+  return parts
+    .filter((part) => part.text)
+    .map((part) => ({
+      type: "text",
+      text: part.text,
+      ...(part.cacheable ? { cache_control: { type: "ephemeral" } } : {}),
+    }));
+}
+
+/**
+ * Convert a chat message to the Anthropic wire format
+ */
+function toAnthropicMessage(message: ChatMessage): Record<string, unknown> {
+  if (message.role === "tool") {
+    return {
+      role: "user",
+      content: [
+        {
+          type: "tool_result",
+          tool_use_id: message.toolCallId,
+          content: message.content,
+        },
+      ],
+    };
+  }
+
+  // Thinking blocks come first, exactly as the model returned them
+  const thinking = message.thinking || [];
+
+  if (message.toolCalls && message.toolCalls.length > 0) {
+    return {
+      role: "assistant",
+      content: [
+        ...thinking,
+        ...toAnthropicBlocks(message),
+        ...message.toolCalls.map((call) => ({
+          type: "tool_use",
+          id: call.id,
+          name: call.name,
+          input: safeParseJSON(call.arguments),
+        })),
+      ],
+    };
+  }
+
+  if (thinking.length > 0) {
+    return { role: message.role, content: [...thinking, ...toAnthropicBlocks(message)] };
+  }
+
+  return {
+    role: message.role,
+    content: message.parts ? toAnthropicBlocks(message) : message.content,
+  };
+}
+
+function toFinishReason(stopReason: string | null | undefined): ChatResponse["finishReason"] {
+  switch (stopReason) {
+    case "end_turn":
+    case "stop_sequence":
+      return "stop";
+    case "max_tokens":
+      return "length";
+    case "tool_use":
+      return "tool_calls";
+    case "refusal":
+      return "content_filter";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Anthropic reports uncached, cache-write and cache-read input tokens separately
+ */
+function toAnthropicUsage(usage: any): ChatUsage {
+  const cacheReadTokens = usage.cache_read_input_tokens || 0;
+  const cacheWriteTokens = usage.cache_creation_input_tokens || 0;
+  const promptTokens = (usage.input_tokens || 0) + cacheReadTokens + cacheWriteTokens;
+  const completionTokens = usage.output_tokens || 0;
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    cacheReadTokens,
+    cacheWriteTokens,
+  };
+}
+
+/**
+ * Convert OpenAI-style usage (cached tokens are reported by OpenAI
+ * and OpenRouter in prompt_tokens_details)
+ */
+function toChatUsage(usage: any): ChatUsage {
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    completionTokens: usage.completion_tokens || 0,
+    totalTokens: usage.total_tokens || 0,
+    cacheReadTokens: usage.prompt_tokens_details?.cached_tokens || 0,
+  };
+}
+
+function safeParseJSON(text: string): unknown {
+  try {
+    return text.trim() ? JSON.parse(text) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Convert a chat message to the OpenAI wire format
+ */
+function toOpenAIMessage(message: ChatMessage): Record<string, unknown> {
+  if (message.role === "tool") {
+    return {
+      role: "tool",
+      tool_call_id: message.toolCallId,
+      content: message.content,
+    };
+  }
+
+  if (message.toolCalls && message.toolCalls.length > 0) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+
+  return { role: message.role, content: message.content };
+}
+
+/**
+ * Parse a single SSE line. Returns null for blank lines, comments
+ * (e.g. OpenRouter keep-alives) and unparsable payloads.
+ */
+function parseSSELine(line: string): any | "[DONE]" | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("data:")) {
+    return null;
+  }
+
+  const payload = trimmed.slice(5).trim();
+  if (payload === "[DONE]") {
+    return "[DONE]";
+  }
+
+  try {
+    return JSON.parse(payload);
+  } catch {
+    console.warn("Skipping malformed stream chunk:", payload);
+    return null;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) to ms
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/* ============================================================
+ * Configuration Helpers
+ * ============================================================
+ */
+
+/**
+ * Get provider type and base URL from the workspace credential profile,
+ * or from VSCode settings when no profile is selected
+ */
+export function getProviderSettings(): { type: ProviderType; baseUrl: string } {
+  const config = vscode.workspace.getConfiguration("fixCode");
+  const profile = getActiveProfile();
+  const type = profile?.provider ?? config.get<ProviderType>("provider", "openrouter");
+  const baseUrl = (profile ? profile.baseUrl || "" : config.get<string>("baseUrl", "")).trim();
+
+  const defaultBaseUrls: Record<ProviderType, string> = {
+    openrouter: OPENROUTER_BASE_URL,
+    anthropic: ANTHROPIC_BASE_URL,
+    "openai-compatible": DEFAULT_LOCAL_BASE_URL,
+  };
+
+  return { type, baseUrl: baseUrl || defaultBaseUrls[type] || OPENROUTER_BASE_URL };
+}
+
+/**
+ * Check whether the configured provider requires an API key
+ */
+export function providerRequiresApiKey(): boolean {
+  const replayMode = getReplaySettings().mode;
+  if (replayMode === "replay" || replayMode === "mock") {
+    return false;
+  }
+  return getProviderSettings().type !== "openai-compatible";
+}
+
+/**
+ * Get record/replay mode and the resolved fixture directory
+ * (relative paths are resolved against the first workspace folder).
+ * Read from user settings only: a repository could otherwise ship
+ * mock.json and switch on mock mode to serve its own "model output".
+ */
+export function getReplaySettings(): { mode: ReplayMode | "off"; fixtureDir: string } {
+  const config = vscode.workspace.getConfiguration("fixCode");
+  const mode = config.inspect<ReplayMode | "off">("replayMode")?.globalValue ?? "off";
+  const fixtureDir = config.inspect<string>("fixtureDir")?.globalValue ?? ".fixcode/fixtures";
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+
+  return {
+    mode,
+    fixtureDir:
+      path.isAbsolute(fixtureDir) || !workspaceRoot
+        ? fixtureDir
+        : path.join(workspaceRoot, fixtureDir),
+  };
+}
+
+/**
+ * Create a provider instance from explicit configuration
+ */
+export function createProvider(config: ProviderConfig): LLMProvider {
+  switch (config.type) {
+    case "openai-compatible":
+      return new OpenAICompatibleProvider(config);
+    case "anthropic":
+      return new AnthropicProvider(config);
+    case "openrouter":
+    default:
+      return new OpenRouterProvider(config);
+  }
+}
+
+/**
+ * Create LLM provider from VSCode settings
+ */
+export function createLLMProvider(
+  apiKey: string,
+  title?: string
+): LLMProvider {
+  const settings = getProviderSettings();
+  const provider = createProvider({ ...settings, apiKey, title });
+
+  const replay = getReplaySettings();
+  if (replay.mode === "off") {
+    return provider;
+  }
+  return new ReplayProvider({
+    mode: replay.mode,
+    fixtureDir: replay.fixtureDir,
+    inner: provider,
+  });
+}
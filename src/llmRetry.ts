@@ -0,0 +1,187 @@
+import {
+  ChatRequest,
+  ChatResponse,
+  LLMApiError,
+  LLMProvider,
+  StreamCallback,
+} from "./llmClient";
+import { FixtureNotFoundError } from "./replayProvider";
+
+/* ============================================================
+ * LLM Retry - Transport Retries & Model Fallback Chain
+ * ============================================================
+ * Wraps provider calls with exponential backoff for rate limits
+ * (429, honoring Retry-After), server errors (5xx) and network
+ * failures. When a model stays unavailable, the next model of
+ * the fallback chain is tried. These retries are independent of
+ * the smart agent's validation retries.
+ */
+
+export interface RetryOptions {
+  maxRetries?: number; // Transport retries per model (default: 3)
+  fallbackModels?: string[]; // Tried in order after the requested model
+  onRetry?: (message: string) => void;
+}
+
+export interface ResilientChatResult {
+  response: ChatResponse;
+  model: string; // Model of the chain that produced the response
+  transportRetries: number; // Total retries across all models
+  failedModels: string[]; // Models that were given up on
+}
+
+/**
+ * Thrown when every model of the chain failed with a transport error
+ */
+export class ModelsUnavailableError extends Error {
+  constructor(public readonly failures: Array<{ model: string; error: string }>) {
+    super(
+      `All models failed: ${failures
+        .map((f) => `${f.model} (${f.error})`)
+        .join("; ")}`
+    );
+    this.name = "ModelsUnavailableError";
+  }
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+// Waits longer than this switch to the next model when one exists
+const MAX_RETRY_AFTER_MS = 60000;
+
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+
+/**
+ * Send a chat request with transport retries and model fallback.
+ * Streams tokens when onToken is given; a retried stream restarts
+ * from scratch, so the accumulated text starts over.
+ */
+export async function chatWithRetry(
+  provider: LLMProvider,
+  request: ChatRequest,
+  options: RetryOptions = {},
+  onToken?: StreamCallback
+): Promise<ResilientChatResult> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const models = [request.model, ...(options.fallbackModels || [])].filter(
+    (model, index, all) => model && all.indexOf(model) === index
+  );
+  const failures: Array<{ model: string; error: string }> = [];
+  let transportRetries = 0;
+
+  for (let m = 0; m < models.length; m++) {
+    const model = models[m];
+    const hasFallback = m < models.length - 1;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const modelRequest = { ...request, model };
+        const response = onToken
+          ? await provider.chatStream(modelRequest, onToken)
+          : await provider.chat(modelRequest);
+
+        return {
+          response,
+          model,
+          transportRetries,
+          failedModels: failures.map((f) => f.model),
+        };
+      } catch (error) {
+        if (request.signal?.aborted || !isRetryableError(error)) {
+          throw error;
+        }
+
+        const retryAfter =
+          error instanceof LLMApiError ? error.retryAfterMs : undefined;
+        const tooLong =
+          retryAfter !== undefined && retryAfter > MAX_RETRY_AFTER_MS && hasFallback;
+
+        if (attempt >= maxRetries || tooLong) {
+          failures.push({ model, error: describeError(error) });
+          console.warn(`Model ${model} unavailable:`, error);
+          if (hasFallback) {
+            options.onRetry?.(`${model} unavailable, falling back to ${models[m + 1]}...`);
+          }
+          break;
+        }
+
+        const delay =
+          retryAfter !== undefined
+            ? Math.min(retryAfter, MAX_RETRY_AFTER_MS)
+            : backoffDelay(attempt);
+        transportRetries++;
+        options.onRetry?.(
+          `${describeError(error)} from ${model}, retrying in ${Math.ceil(delay / 1000)}s (${attempt + 1}/${maxRetries})...`
+        );
+        await sleep(delay, request.signal);
+      }
+    }
+  }
+
+  throw new ModelsUnavailableError(failures);
+}
+
+/**
+ * Check whether an error is transient (rate limit, server or network error)
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof LLMApiError) {
+    return RETRYABLE_STATUS.has(error.status);
+  }
+
+  // fetch() and httpFetch reject with a TypeError on network failures and dropped streams
+  return error instanceof TypeError;
+}
+
+/**
+ * Check whether an error came from the transport rather than the model output
+ * (retrying the same prompt will not help)
+ */
+export function isTransportError(error: unknown): boolean {
+  return (
+    error instanceof LLMApiError ||
+    error instanceof ModelsUnavailableError ||
+    error instanceof FixtureNotFoundError ||
+    isRetryableError(error)
+  );
+}
+
+/**
+ * Exponential backoff with jitter
+ */
+function backoffDelay(attempt: number): number {
+  const delay = BASE_DELAY_MS * Math.pow(2, attempt);
+  return Math.min(delay + Math.random() * BASE_DELAY_MS, MAX_DELAY_MS);
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof LLMApiError) {
+    return error.status === 429 ? "Rate limited (429)" : `API Error ${error.status}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Wait for a delay, rejecting early when the request is cancelled
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("Cancelled by user"));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Cancelled by user"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,36 @@
+import * as net from "net";
+
+/* ============================================================
+ * MCP Bridge - stdio to the Tool Server Socket
+ * ============================================================
+ * Standalone script for MCP clients that launch stdio servers:
+ *   node out/mcpBridge.js <socket path>
+ * It relays stdin/stdout to the tool server of a running VSCode
+ * window ('Fix Code: Copy MCP Tool Server Config' prints the
+ * exact command).
+ */
+
+const socketPath = process.argv[2] || process.env.FIXCODE_MCP_SOCKET;
+
+if (!socketPath) {
+  console.error("Usage: mcpBridge.js <socket path>");
+  process.exit(2);
+}
+
+const socket = net.connect(socketPath);
+
+socket.on("connect", () => {
+  process.stdin.pipe(socket);
+  socket.pipe(process.stdout);
+});
+
+socket.on("error", (error) => {
+  console.error(
+    `Could not reach the Fix Code tool server at ${socketPath}: ${error.message}\n` +
+      "Is VSCode open on this workspace with fixCode.enableMCPToolServer on?"
+  );
+  process.exit(1);
+});
+
+socket.on("close", () => process.exit(0));
+process.stdin.on("end", () => socket.end());
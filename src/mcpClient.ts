@@ -0,0 +1,389 @@
+import { ChildProcess, spawn } from "child_process";
+
+/* ============================================================
+ * MCP Client - JSON-RPC over stdio
+ * ============================================================
+ * Launches a local Model Context Protocol server as a child
+ * process and talks JSON-RPC 2.0 with it, one message per line
+ * on stdin/stdout. Covers the client side the agent needs:
+ * initialize, tools/list, tools/call, resources/list and
+ * resources/read, plus ping and roots/list from the server.
+ */
+
+export interface MCPServerConfig {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>; // Added to the extension host environment
+  cwd?: string; // Default: first workspace folder
+  timeoutMs?: number; // Per request (default: 30s, tool calls 60s)
+  alwaysAllow?: string[]; // Tool names (or "*", "resources") run without asking
+  disabled?: boolean;
+}
+
+export interface MCPToolInfo {
+  name: string;
+  description?: string;
+  inputSchema?: {
+    type?: string;
+    properties?: Record<string, { type?: string | string[]; description?: string; [keyword: string]: unknown }>;
+    required?: string[];
+    [keyword: string]: unknown;
+  };
+  annotations?: {
+    title?: string;
+    readOnlyHint?: boolean;
+  };
+}
+
+export interface MCPResourceInfo {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPContent {
+  type: string; // "text" | "image" | "audio" | "resource" | "resource_link"
+  text?: string;
+  data?: string; // Base64 for images and audio
+  mimeType?: string;
+  uri?: string;
+  name?: string;
+  resource?: {
+    uri: string;
+    mimeType?: string;
+    text?: string;
+    blob?: string;
+  };
+}
+
+export interface MCPCallResult {
+  content: MCPContent[];
+  isError?: boolean;
+}
+
+export interface MCPResourceContents {
+  contents: Array<{ uri: string; mimeType?: string; text?: string; blob?: string }>;
+}
+
+/**
+ * Error reported by the server (JSON-RPC error) or the transport
+ */
+export class MCPError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message);
+    this.name = "MCPError";
+  }
+}
+
+export interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export const MCP_PROTOCOL_VERSION = "2024-11-05";
+const DEFAULT_REQUEST_TIMEOUT = 30000;
+const DEFAULT_TOOL_TIMEOUT = 60000;
+const MAX_STDERR_LINES = 20;
+const MAX_PAGES = 20;
+export const METHOD_NOT_FOUND = -32601;
+
+export class MCPClient {
+  private process: ChildProcess | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private readMessages = createMessageReader((message) => this.onMessage(message));
+  private stderrLines: string[] = [];
+  private closed = false;
+
+  serverInfo?: { name: string; version?: string };
+  capabilities: { tools?: object; resources?: object } = {};
+
+  // Called when the server's tool list changes or the process exits
+  onToolsChanged?: () => void;
+  onClose?: (error: Error) => void;
+
+  constructor(
+    public readonly name: string,
+    private config: MCPServerConfig,
+    private options: { roots?: string[]; clientVersion?: string } = {}
+  ) {}
+
+  /**
+   * Launch the server and run the initialize handshake
+   */
+  async start(): Promise<void> {
+    const child = spawn(this.config.command, this.config.args || [], {
+      cwd: this.config.cwd,
+      env: { ...process.env, ...this.config.env },
+      stdio: ["pipe", "pipe", "pipe"],
+      // npx, uvx and friends are .cmd scripts on Windows
+      shell: process.platform === "win32",
+      windowsHide: true,
+    });
+    this.process = child;
+
+    child.stdout?.setEncoding("utf8");
+    child.stdout?.on("data", this.readMessages);
+    child.stderr?.setEncoding("utf8");
+    child.stderr?.on("data", (chunk: string) => {
+      this.stderrLines.push(...chunk.split("\n").filter((line) => line.trim()));
+      this.stderrLines = this.stderrLines.slice(-MAX_STDERR_LINES);
+    });
+    child.stdin?.on("error", () => {
+      // Reported through the exit/error events
+    });
+    child.on("error", (error) => this.shutdown(new MCPError(`Could not start "${this.config.command}": ${error.message}`)));
+    child.on("exit", (code, signal) =>
+      this.shutdown(new MCPError(`Server exited (${signal || `code ${code}`})${this.describeStderr()}`))
+    );
+
+    const result = await this.request("initialize", {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: { roots: { listChanged: false } },
+      clientInfo: { name: "fix-code-makuro", version: this.options.clientVersion || "0.0.0" },
+    });
+
+    this.serverInfo = result.serverInfo;
+    this.capabilities = result.capabilities || {};
+    this.notify("notifications/initialized");
+  }
+
+  async listTools(): Promise<MCPToolInfo[]> {
+    if (!this.capabilities.tools) {
+      return [];
+    }
+    return this.listAll<MCPToolInfo>("tools/list", "tools");
+  }
+
+  async listResources(): Promise<MCPResourceInfo[]> {
+    if (!this.capabilities.resources) {
+      return [];
+    }
+    return this.listAll<MCPResourceInfo>("resources/list", "resources");
+  }
+
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<MCPCallResult> {
+    return this.request(
+      "tools/call",
+      { name, arguments: args },
+      this.config.timeoutMs ?? DEFAULT_TOOL_TIMEOUT,
+      signal
+    );
+  }
+
+  async readResource(uri: string, signal?: AbortSignal): Promise<MCPResourceContents> {
+    return this.request("resources/read", { uri }, undefined, signal);
+  }
+
+  isRunning(): boolean {
+    return !this.closed && this.process !== null;
+  }
+
+  /**
+   * Stop the server: close stdin, then terminate it if it lingers
+   */
+  close(): void {
+    const child = this.process;
+    this.shutdown(new MCPError("Server stopped"));
+    if (child && child.exitCode === null) {
+      child.stdin?.end();
+      const timer = setTimeout(() => child.kill(), 2000);
+      child.once("exit", () => clearTimeout(timer));
+    }
+  }
+
+  /**
+   * Follow nextCursor until the list is complete
+   */
+  private async listAll<T>(method: string, key: string): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const result = await this.request(method, cursor ? { cursor } : {});
+      items.push(...(result[key] || []));
+      cursor = result.nextCursor;
+      if (!cursor) {
+        break;
+      }
+    }
+    return items;
+  }
+
+  private request(
+    method: string,
+    params: unknown,
+    timeoutMs: number = this.config.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT,
+    signal?: AbortSignal
+  ): Promise<any> {
+    if (this.closed || !this.process) {
+      return Promise.reject(new MCPError(`MCP server "${this.name}" is not running`));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new Error("Cancelled by user"));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.settle(id);
+        this.notify("notifications/cancelled", { requestId: id, reason: "Cancelled by user" });
+        reject(new Error("Cancelled by user"));
+      };
+
+      const timer = setTimeout(() => {
+        this.settle(id);
+        signal?.removeEventListener("abort", onAbort);
+        this.notify("notifications/cancelled", { requestId: id, reason: "Timeout" });
+        reject(new MCPError(`${method} timed out after ${Math.round(timeoutMs / 1000)}s`));
+      }, timeoutMs);
+
+      this.pending.set(id, {
+        method,
+        resolve: (result) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(result);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+        timer,
+      });
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.send({ jsonrpc: "2.0", id, method, params });
+    });
+  }
+
+  private notify(method: string, params?: unknown): void {
+    if (!this.closed) {
+      this.send({ jsonrpc: "2.0", method, params });
+    }
+  }
+
+  private send(message: JsonRpcMessage): void {
+    this.process?.stdin?.write(JSON.stringify(message) + "\n");
+  }
+
+  private onMessage(message: JsonRpcMessage): void {
+    // Response to one of our requests
+    if (message.id !== undefined && !message.method) {
+      const pending = this.settle(Number(message.id));
+      if (!pending) {
+        return;
+      }
+      if (message.error) {
+        pending.reject(new MCPError(`${pending.method}: ${message.error.message}`, message.error.code));
+      } else {
+        pending.resolve(message.result ?? {});
+      }
+      return;
+    }
+
+    // Request from the server
+    if (message.id !== undefined && message.method) {
+      this.answerServerRequest(message.id, message.method);
+      return;
+    }
+
+    if (message.method === "notifications/tools/list_changed") {
+      this.onToolsChanged?.();
+    }
+  }
+
+  private answerServerRequest(id: number | string, method: string): void {
+    if (method === "ping") {
+      this.send({ jsonrpc: "2.0", id, result: {} });
+    } else if (method === "roots/list") {
+      this.send({
+        jsonrpc: "2.0",
+        id,
+        result: {
+          roots: (this.options.roots || []).map((root) => ({
+            uri: `file://${root.startsWith("/") ? "" : "/"}${root.replace(/\\/g, "/")}`,
+            name: root.split(/[\\/]/).pop(),
+          })),
+        },
+      });
+    } else {
+      this.send({ jsonrpc: "2.0", id, error: { code: METHOD_NOT_FOUND, message: `Method not supported: ${method}` } });
+    }
+  }
+
+  private settle(id: number): PendingRequest | undefined {
+    const pending = this.pending.get(id);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pending.delete(id);
+    }
+    return pending;
+  }
+
+  /**
+   * Fail every pending request once the process is gone
+   */
+  private shutdown(error: Error): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    for (const [id, pending] of this.pending) {
+      this.settle(id);
+      pending.reject(error);
+    }
+    this.onClose?.(error);
+  }
+
+  private describeStderr(): string {
+    return this.stderrLines.length > 0 ? `: ${this.stderrLines.slice(-3).join(" | ")}` : "";
+  }
+}
+
+/**
+ * Split a stream of newline-delimited JSON-RPC messages
+ * (stdio transport, also used by the tool server's socket)
+ */
+export function createMessageReader(
+  onMessage: (message: JsonRpcMessage) => void
+): (chunk: string) => void {
+  let buffer = "";
+
+  return (chunk: string) => {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (!line) {
+        continue;
+      }
+
+      let message: JsonRpcMessage;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        // Servers sometimes log to stdout; skip anything that is not JSON-RPC
+        continue;
+      }
+      onMessage(message);
+    }
+  };
+}
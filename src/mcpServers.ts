@@ -0,0 +1,412 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { registerTool, Tool, ToolParameters } from "./toolRegistry";
+import {
+  MCPCallResult,
+  MCPClient,
+  MCPResourceInfo,
+  MCPServerConfig,
+  MCPToolInfo,
+} from "./mcpClient";
+
+/* ============================================================
+ * MCP Servers - External Tools for the Agent
+ * ============================================================
+ * Starts the servers configured in fixCode.mcpServers, discovers
+ * their tools and resources and registers them in the tool
+ * registry as "<server>__<tool>". Each call asks for
+ * permission unless the server's alwaysAllow lists it or it was
+ * allowed for the session. Servers only start in trusted
+ * workspaces, and alwaysAllow only counts from user settings.
+ */
+
+export interface MCPServerStatus {
+  name: string;
+  state: "starting" | "running" | "failed";
+  tools: string[];
+  resources: number;
+  serverInfo?: string; // "<name> <version>" reported by the server
+  error?: string;
+}
+
+interface ServerEntry {
+  name: string;
+  client: MCPClient;
+  config: MCPServerConfig;
+  status: MCPServerStatus;
+  tools: MCPToolInfo[];
+  resources: MCPResourceInfo[];
+}
+
+const RESOURCES_PERMISSION = "resources";
+const MAX_TOOL_NAME = 64;
+const MAX_RESULT_CHARS = 20000;
+const MAX_DETAIL_CHARS = 1000;
+
+const servers = new Map<string, ServerEntry>();
+const sessionAllowed = new Set<string>(); // "<server>/<tool>"
+let ready: Promise<void> = Promise.resolve();
+let registration: { dispose(): void } | null = null;
+let clientVersion: string | undefined;
+
+/**
+ * Start the configured servers and restart them when the
+ * fixCode.mcpServers setting changes
+ */
+export function initMCPServers(version?: string): vscode.Disposable {
+  clientVersion = version;
+  restartMCPServers();
+
+  const listener = vscode.workspace.onDidChangeConfiguration((event) => {
+    if (event.affectsConfiguration("fixCode.mcpServers")) {
+      restartMCPServers();
+    }
+  });
+  const trustListener = vscode.workspace.onDidGrantWorkspaceTrust(() => restartMCPServers());
+
+  return {
+    dispose: () => {
+      listener.dispose();
+      trustListener.dispose();
+      stopMCPServers();
+    },
+  };
+}
+
+/**
+ * Resolves once every server has started or failed
+ */
+export function whenMCPServersReady(): Promise<void> {
+  return ready;
+}
+
+export function getMCPServerStatus(): MCPServerStatus[] {
+  return Array.from(servers.values()).map((entry) => entry.status);
+}
+
+/**
+ * Stop all servers and start the configured ones again
+ */
+export function restartMCPServers(): Promise<void> {
+  ready = startConfiguredServers();
+  return ready;
+}
+
+export function stopMCPServers(): void {
+  const entries = Array.from(servers.values());
+  servers.clear();
+  entries.forEach((entry) => entry.client.close());
+  publishTools();
+}
+
+async function startConfiguredServers(): Promise<void> {
+  stopMCPServers();
+  sessionAllowed.clear();
+
+  // Server commands run on this machine - never from an untrusted folder
+  if (!vscode.workspace.isTrusted) {
+    console.log("Workspace is not trusted, MCP servers are not started");
+    return;
+  }
+
+  const config = vscode.workspace.getConfiguration("fixCode");
+  const configs = config.get<Record<string, MCPServerConfig>>("mcpServers", {});
+  const userConfigs = config.inspect<Record<string, MCPServerConfig>>("mcpServers")?.globalValue || {};
+  await Promise.all(
+    Object.entries(configs)
+      .filter(([, serverConfig]) => !serverConfig.disabled)
+      .map(([name, serverConfig]) =>
+        startServer(name, {
+          ...serverConfig,
+          // Skipping the permission prompt is a user decision, not a project's
+          alwaysAllow: userConfigs[name]?.alwaysAllow,
+        })
+      )
+  );
+}
+
+async function startServer(name: string, config: MCPServerConfig): Promise<void> {
+  const roots = (vscode.workspace.workspaceFolders || []).map((folder) => folder.uri.fsPath);
+  const cwd = config.cwd ? path.resolve(roots[0] || "", config.cwd) : roots[0];
+  const client = new MCPClient(name, { ...config, cwd }, { roots, clientVersion });
+  const entry: ServerEntry = {
+    name,
+    client,
+    config,
+    status: { name, state: "starting", tools: [], resources: 0 },
+    tools: [],
+    resources: [],
+  };
+  servers.set(name, entry);
+
+  // Only report exits of the current instance (restarts replace it)
+  const isCurrent = () => servers.get(name) === entry;
+
+  client.onClose = (error) => {
+    if (isCurrent()) {
+      entry.status = { ...entry.status, state: "failed", tools: [], resources: 0, error: error.message };
+      entry.tools = [];
+      entry.resources = [];
+      publishTools();
+    }
+  };
+  client.onToolsChanged = () => {
+    client
+      .listTools()
+      .then((tools) => {
+        if (isCurrent()) {
+          entry.tools = tools;
+          entry.status = { ...entry.status, tools: tools.map((tool) => tool.name) };
+          publishTools();
+        }
+      })
+      .catch((error) => console.warn(`Could not refresh tools of MCP server ${name}:`, error));
+  };
+
+  try {
+    if (!config.command) {
+      throw new Error("No command configured");
+    }
+    await client.start();
+    const tools = await client.listTools();
+    const resources = await client.listResources();
+
+    if (isCurrent()) {
+      entry.tools = tools;
+      entry.resources = resources;
+      entry.status = {
+        name,
+        state: "running",
+        tools: tools.map((tool) => tool.name),
+        resources: resources.length,
+        serverInfo: client.serverInfo
+          ? `${client.serverInfo.name} ${client.serverInfo.version || ""}`.trim()
+          : undefined,
+      };
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`MCP server ${name} failed to start:`, message);
+    client.close();
+    if (isCurrent()) {
+      entry.status = { name, state: "failed", tools: [], resources: 0, error: message };
+    }
+  }
+
+  if (isCurrent()) {
+    publishTools();
+  }
+}
+
+/**
+ * Register the tools of all running servers (replacing the previous set)
+ */
+function publishTools(): void {
+  registration?.dispose();
+
+  const running = Array.from(servers.values()).filter((entry) => entry.status.state === "running");
+  const tools = running.flatMap((entry) => entry.tools.map((tool) => toTool(entry, tool)));
+  if (running.some((entry) => entry.resources.length > 0)) {
+    tools.push(...resourceTools);
+  }
+
+  const registrations = tools.flatMap((tool) => {
+    try {
+      return [registerTool(tool)];
+    } catch (error) {
+      console.warn(`Skipping MCP tool ${tool.name}:`, error);
+      return [];
+    }
+  });
+  registration = { dispose: () => registrations.forEach((r) => r.dispose()) };
+}
+
+function toTool(entry: ServerEntry, tool: MCPToolInfo): Tool {
+  const schema = tool.inputSchema || {};
+
+  return {
+    name: `${entry.name}__${tool.name}`.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, MAX_TOOL_NAME),
+    description: `[MCP ${entry.name}] ${tool.description || tool.annotations?.title || tool.name}`,
+    parameters: { ...schema, type: "object", properties: schema.properties || {} } as ToolParameters,
+    // Servers that don't mark a tool read-only may do anything
+    permission: tool.annotations?.readOnlyHint ? "read" : "exec",
+    category: "mcp",
+    source: `mcp:${entry.name}`,
+    execute: async (params, context) => {
+      const allowed = await confirmAccess(
+        entry,
+        tool.name,
+        `Allow the agent to run "${tool.name}" on MCP server "${entry.name}"?`,
+        JSON.stringify(params || {}, null, 2)
+      );
+      if (!allowed) {
+        return { success: false, data: "", error: `User denied MCP tool ${entry.name}/${tool.name}` };
+      }
+
+      try {
+        const result = await entry.client.callTool(tool.name, params || {}, context.signal);
+        const output = formatCallResult(result);
+        return result.isError
+          ? { success: false, data: "", error: output || "Tool reported an error" }
+          : { success: true, data: output, metadata: { server: entry.name, tool: tool.name } };
+      } catch (error) {
+        return {
+          success: false,
+          data: "",
+          error: `MCP ${entry.name}/${tool.name} failed: ${error instanceof Error ? error.message : error}`,
+        };
+      }
+    },
+  };
+}
+
+/* ============================================================
+ * Resource Tools
+ * ============================================================
+ */
+
+const resourceTools: Tool[] = [
+  {
+    name: "mcp_list_resources",
+    description: "List the resources (schemas, docs, ...) offered by the connected MCP servers",
+    permission: "read",
+    category: "mcp",
+    source: "mcp",
+    parameters: {
+      type: "object",
+      properties: {
+        server: {
+          type: "string",
+          description: "Only list this server's resources (optional)",
+        },
+      },
+    },
+    execute: async (params) => {
+      const entries = getRunningServers().filter(
+        (entry) => entry.resources.length > 0 && (!params.server || entry.name === params.server)
+      );
+      if (entries.length === 0) {
+        return { success: true, data: "No MCP resources available." };
+      }
+
+      let output = "";
+      for (const entry of entries) {
+        output += `Server: ${entry.name}\n`;
+        entry.resources.forEach((resource) => {
+          output += `  - ${resource.uri} (${resource.name})${resource.description ? `: ${resource.description}` : ""}\n`;
+        });
+        output += "\n";
+      }
+      return { success: true, data: output.trim() };
+    },
+  },
+  {
+    name: "mcp_read_resource",
+    description: "Read a resource from an MCP server (use mcp_list_resources for the URIs)",
+    permission: "read",
+    category: "mcp",
+    source: "mcp",
+    parameters: {
+      type: "object",
+      properties: {
+        server: {
+          type: "string",
+          description: "MCP server name",
+        },
+        uri: {
+          type: "string",
+          description: "Resource URI",
+        },
+      },
+      required: ["server", "uri"],
+    },
+    execute: async (params, context) => {
+      const entry = getRunningServers().find((e) => e.name === params.server);
+      if (!entry) {
+        return { success: false, data: "", error: `MCP server not running: ${params.server}` };
+      }
+
+      const allowed = await confirmAccess(
+        entry,
+        RESOURCES_PERMISSION,
+        `Allow the agent to read resources from MCP server "${entry.name}"?`,
+        params.uri
+      );
+      if (!allowed) {
+        return { success: false, data: "", error: `User denied reading ${params.uri}` };
+      }
+
+      try {
+        const result = await entry.client.readResource(params.uri, context.signal);
+        const output = (result.contents || [])
+          .map((content) =>
+            content.text !== undefined
+              ? content.text
+              : `[binary ${content.mimeType || "data"}, ${content.blob?.length || 0} base64 chars]`
+          )
+          .join("\n\n");
+        return { success: true, data: truncate(output, MAX_RESULT_CHARS), metadata: { server: entry.name } };
+      } catch (error) {
+        return {
+          success: false,
+          data: "",
+          error: `Failed to read ${params.uri}: ${error instanceof Error ? error.message : error}`,
+        };
+      }
+    },
+  },
+];
+
+function getRunningServers(): ServerEntry[] {
+  return Array.from(servers.values()).filter((entry) => entry.status.state === "running");
+}
+
+/**
+ * Ask before a server is used (alwaysAllow and session grants skip the prompt)
+ */
+async function confirmAccess(
+  entry: ServerEntry,
+  permission: string,
+  message: string,
+  detail: string
+): Promise<boolean> {
+  const alwaysAllow = entry.config.alwaysAllow || [];
+  const key = `${entry.name}/${permission}`;
+  if (alwaysAllow.includes("*") || alwaysAllow.includes(permission) || sessionAllowed.has(key)) {
+    return true;
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    message,
+    { modal: true, detail: truncate(detail, MAX_DETAIL_CHARS) },
+    "Allow",
+    "Allow for Session"
+  );
+  if (choice === "Allow for Session") {
+    sessionAllowed.add(key);
+  }
+  return choice === "Allow" || choice === "Allow for Session";
+}
+
+/**
+ * Flatten a tools/call result to text for the conversation
+ */
+function formatCallResult(result: MCPCallResult): string {
+  const parts = (result.content || []).map((content) => {
+    switch (content.type) {
+      case "text":
+        return content.text || "";
+      case "resource":
+        return content.resource?.text ?? `[resource ${content.resource?.uri}]`;
+      case "resource_link":
+        return `[resource ${content.uri}${content.name ? ` (${content.name})` : ""}]`;
+      default:
+        return `[${content.type} ${content.mimeType || ""}]`.replace(" ]", "]");
+    }
+  });
+  return truncate(parts.join("\n"), MAX_RESULT_CHARS);
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}\n... (truncated)` : text;
+}
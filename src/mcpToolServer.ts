@@ -0,0 +1,335 @@
+import * as net from "net";
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { BUILTIN_SOURCE, executeTool, getToolDefinitions, listTools } from "./toolRegistry";
+import type { ToolDefinition } from "./llmClient";
+import {
+  createMessageReader,
+  JsonRpcMessage,
+  MCP_PROTOCOL_VERSION,
+  METHOD_NOT_FOUND,
+} from "./mcpClient";
+
+/* ============================================================
+ * MCP Tool Server - The Extension's Tools for Other Clients
+ * ============================================================
+ * Publishes the built-in read-only tools of the tool registry and a
+ * fix_code tool (the smart agent) over MCP on a local socket
+ * (Unix domain socket, named pipe on Windows). Clients that only
+ * launch stdio servers run mcpBridge.js, which relays stdin and
+ * stdout to the socket. File paths are confined to the workspace.
+ */
+
+export interface FixCodeToolRequest {
+  filePath: string; // Absolute, inside the workspace
+  instruction: string;
+  startLine?: number; // 1-based, omit for the whole file
+  endLine?: number;
+  mode?: "instant" | "smart" | "deep" | "agent";
+}
+
+export interface FixCodeToolResult {
+  code: string;
+  summary: string;
+}
+
+export interface MCPToolServerOptions {
+  socketPath: string;
+  workspacePath: string;
+  version?: string;
+  // Backs the fix_code tool (omitted = tool not published)
+  fixCode?: (request: FixCodeToolRequest, signal: AbortSignal) => Promise<FixCodeToolResult>;
+}
+
+interface PublishedTool {
+  definition: ToolDefinition;
+  call: (args: any, signal: AbortSignal) => Promise<{ texts: string[]; isError?: boolean }>;
+}
+
+const SUPPORTED_PROTOCOL_VERSIONS = [MCP_PROTOCOL_VERSION, "2025-03-26", "2025-06-18"];
+const INVALID_PARAMS = -32602;
+const PATH_PARAMS = ["filePath", "directory"];
+
+const FIX_CODE_PARAMETERS: ToolDefinition["parameters"] = {
+  type: "object",
+  properties: {
+    filePath: { type: "string", description: "File to fix (relative to the workspace)" },
+    instruction: { type: "string", description: "What to change, e.g. \"convert to async/await\"" },
+    startLine: { type: "number", description: "First line of the code to fix (1-based, optional)" },
+    endLine: { type: "number", description: "Last line of the code to fix (optional)" },
+    mode: {
+      type: "string",
+      description: "Force a mode instead of automatic routing (optional)",
+      enum: ["instant", "smart", "deep", "agent"],
+    },
+  },
+  required: ["filePath", "instruction"],
+};
+
+/**
+ * Socket path for a workspace, so each window gets its own server
+ */
+export function getToolServerSocketPath(storageDir: string, workspacePath: string): string {
+  const id = crypto.createHash("sha256").update(workspacePath).digest("hex").slice(0, 12);
+  return process.platform === "win32"
+    ? `\\\\.\\pipe\\fixcode-mcp-${id}`
+    : path.join(storageDir, `mcp-${id}.sock`);
+}
+
+export class MCPToolServer {
+  private server: net.Server | null = null;
+  private sockets = new Set<net.Socket>();
+  private tools: Map<string, PublishedTool>;
+
+  constructor(private options: MCPToolServerOptions) {
+    this.tools = this.buildTools();
+  }
+
+  get socketPath(): string {
+    return this.options.socketPath;
+  }
+
+  get connectionCount(): number {
+    return this.sockets.size;
+  }
+
+  getToolNames(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  async start(): Promise<void> {
+    if (process.platform !== "win32") {
+      await fs.promises.mkdir(path.dirname(this.options.socketPath), { recursive: true });
+    }
+    await this.listen(true);
+  }
+
+  close(): void {
+    this.sockets.forEach((socket) => socket.destroy());
+    this.sockets.clear();
+    this.server?.close();
+    this.server = null;
+  }
+
+  /**
+   * Listen on the socket, replacing a stale socket file left by a crashed window
+   */
+  private listen(replaceStale: boolean): Promise<void> {
+    const socketPath = this.options.socketPath;
+
+    return new Promise((resolve, reject) => {
+      const server = net.createServer((socket) => this.onConnection(socket));
+
+      server.once("error", async (error: NodeJS.ErrnoException) => {
+        if (error.code === "EADDRINUSE" && replaceStale && process.platform !== "win32" && !(await isSocketInUse(socketPath))) {
+          fs.promises
+            .unlink(socketPath)
+            .then(() => this.listen(false))
+            .then(resolve, reject);
+          return;
+        }
+        reject(
+          error.code === "EADDRINUSE"
+            ? new Error(`Another window already serves this workspace (${socketPath})`)
+            : error
+        );
+      });
+
+      server.listen(socketPath, () => {
+        if (process.platform !== "win32") {
+          // Only the current user may connect
+          fs.chmodSync(socketPath, 0o600);
+        }
+        this.server = server;
+        resolve();
+      });
+    });
+  }
+
+  private onConnection(socket: net.Socket): void {
+    const running = new Map<number | string, AbortController>();
+    this.sockets.add(socket);
+
+    socket.setEncoding("utf8");
+    socket.on(
+      "data",
+      createMessageReader((message) => {
+        this.onMessage(socket, message, running).catch((error) =>
+          console.warn("MCP tool server request failed:", error)
+        );
+      })
+    );
+    socket.on("error", () => {
+      // Followed by close
+    });
+    socket.on("close", () => {
+      this.sockets.delete(socket);
+      running.forEach((controller) => controller.abort());
+    });
+  }
+
+  private async onMessage(
+    socket: net.Socket,
+    message: JsonRpcMessage,
+    running: Map<number | string, AbortController>
+  ): Promise<void> {
+    if (!message.method) {
+      return; // We send no requests, so there are no responses to handle
+    }
+
+    if (message.id === undefined) {
+      if (message.method === "notifications/cancelled") {
+        running.get(message.params?.requestId)?.abort();
+      }
+      return;
+    }
+
+    const id = message.id;
+    const reply = (payload: Pick<JsonRpcMessage, "result" | "error">) => {
+      if (!socket.destroyed) {
+        socket.write(JSON.stringify({ jsonrpc: "2.0", id, ...payload }) + "\n");
+      }
+    };
+
+    switch (message.method) {
+      case "initialize": {
+        const requested = message.params?.protocolVersion;
+        reply({
+          result: {
+            protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSION,
+            capabilities: { tools: {} },
+            serverInfo: { name: "fix-code-makuro", version: this.options.version || "0.0.0" },
+          },
+        });
+        return;
+      }
+
+      case "ping":
+        reply({ result: {} });
+        return;
+
+      case "tools/list":
+        reply({
+          result: {
+            tools: Array.from(this.tools.values()).map(({ definition }) => ({
+              name: definition.name,
+              description: definition.description,
+              inputSchema: definition.parameters,
+            })),
+          },
+        });
+        return;
+
+      case "tools/call": {
+        const tool = this.tools.get(message.params?.name);
+        if (!tool) {
+          reply({ error: { code: INVALID_PARAMS, message: `Unknown tool: ${message.params?.name}` } });
+          return;
+        }
+
+        const controller = new AbortController();
+        running.set(id, controller);
+        try {
+          const result = await tool.call(message.params.arguments || {}, controller.signal);
+          if (!controller.signal.aborted) {
+            reply({
+              result: {
+                content: result.texts.map((text) => ({ type: "text", text })),
+                isError: !!result.isError,
+              },
+            });
+          }
+        } catch (error) {
+          // Tool failures are results, so the calling model can react to them
+          if (!controller.signal.aborted) {
+            reply({
+              result: {
+                content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }],
+                isError: true,
+              },
+            });
+          }
+        } finally {
+          running.delete(id);
+        }
+        return;
+      }
+
+      default:
+        reply({ error: { code: METHOD_NOT_FOUND, message: `Method not supported: ${message.method}` } });
+    }
+  }
+
+  /**
+   * Built-in read-only tools (not MCP or third-party ones) and fix_code
+   */
+  private buildTools(): Map<string, PublishedTool> {
+    const tools = new Map<string, PublishedTool>();
+    const workspacePath = this.options.workspacePath;
+    const published = listTools({ source: BUILTIN_SOURCE, permissions: ["read"] });
+
+    for (const definition of getToolDefinitions(published)) {
+      tools.set(definition.name, {
+        definition,
+        call: async (args, signal) => {
+          this.checkPaths(args);
+          const result = await executeTool(definition.name, args, { workspacePath, currentFile: "", signal }, ["read"]);
+          return result.success ? { texts: [result.data] } : { texts: [result.error || "Tool failed"], isError: true };
+        },
+      });
+    }
+
+    const fixCode = this.options.fixCode;
+    if (fixCode) {
+      tools.set("fix_code", {
+        definition: {
+          name: "fix_code",
+          description:
+            "Fix or change code in a workspace file with the Fix Code smart agent. Returns the new code for the file or line range; nothing is written to disk.",
+          parameters: FIX_CODE_PARAMETERS,
+        },
+        call: async (args, signal) => {
+          if (!args.filePath || !args.instruction) {
+            return { texts: ["Missing required parameter: filePath, instruction"], isError: true };
+          }
+          const filePath = this.checkPaths(args)[0];
+          const result = await fixCode({ ...args, filePath }, signal);
+          return { texts: [result.code, result.summary] };
+        },
+      });
+    }
+
+    return tools;
+  }
+
+  /**
+   * Reject path parameters that leave the workspace; returns the resolved paths
+   */
+  private checkPaths(args: Record<string, unknown>): string[] {
+    const workspacePath = this.options.workspacePath;
+
+    return PATH_PARAMS.filter((name) => typeof args[name] === "string").map((name) => {
+      const resolved = path.resolve(workspacePath, args[name] as string);
+      const relative = path.relative(workspacePath, resolved);
+      if (relative.startsWith("..") || path.isAbsolute(relative)) {
+        throw new Error(`${name} must be inside the workspace: ${args[name]}`);
+      }
+      return resolved;
+    });
+  }
+}
+
+/**
+ * Check whether a server still answers on the socket
+ */
+function isSocketInUse(socketPath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const probe = net.connect(socketPath);
+    probe.once("connect", () => {
+      probe.destroy();
+      resolve(true);
+    });
+    probe.once("error", () => resolve(false));
+  });
+}
@@ -1,19 +1,16 @@
 import * as path from "path";
 import * as fs from "fs/promises";
+import type { Tool, ToolResult } from "./toolRegistry";
 
 /* ============================================================
  * MCP Tools - Model Context Protocol Integration
  * ============================================================
  * These tools help AI agents understand project structure,
  * read related files, and analyze imports for better context.
+ * They run in-process and are registered in toolRegistry.ts;
+ * external MCP servers are connected by mcpServers.ts.
  */
 
-export interface MCPTool {
-  name: string;
-  description: string;
-  execute: (params: any, workspacePath: string) => Promise<string>;
-}
-
 /* ============================================================
  * File System Analysis Tools
  * ============================================================
@@ -399,65 +396,92 @@ async function getFileContext(
 }
 
 /* ============================================================
- * MCP Tools Registry
+ * Project Context Tools
  * ============================================================
+ * Registered in toolRegistry.ts next to the agent tools
+ * (read_file comes from agentTools.ts).
  */
 
-export const mcpTools: MCPTool[] = [
+/**
+ * The helpers report failures as "Error..." text
+ */
+function toToolResult(output: string): ToolResult {
+  return output.startsWith("Error")
+    ? { success: false, data: "", error: output }
+    : { success: true, data: output };
+}
+
+function resolvePath(filePath: string, workspacePath: string): string {
+  return path.isAbsolute(filePath) ? filePath : path.join(workspacePath, filePath);
+}
+
+export const contextTools: Tool[] = [
   {
     name: "read_project_structure",
     description:
       "Read the directory structure of the project (max depth: 3 levels)",
-    execute: async (params: any, workspacePath: string) => {
-      const maxDepth = params.maxDepth || 3;
+    category: "context",
+    permission: "read",
+    parameters: {
+      type: "object",
+      properties: {
+        maxDepth: {
+          type: "number",
+          description: "Directory depth to list (default: 3)",
+        },
+      },
+    },
+    execute: async (params, context) => {
       const structure = await readProjectStructure(
-        workspacePath,
-        maxDepth
+        context.workspacePath,
+        params.maxDepth || 3
       );
-      return `\n=== Project Structure ===\n\n${structure}`;
-    },
-  },
-  {
-    name: "read_file",
-    description: "Read the content of a specific file",
-    execute: async (params: { filePath: string }, workspacePath: string) => {
-      if (!params.filePath) {
-        return "Error: filePath parameter is required";
-      }
-      const fullPath = path.isAbsolute(params.filePath)
-        ? params.filePath
-        : path.join(workspacePath, params.filePath);
-      const content = await readFileContent(fullPath);
-      return `\n=== File: ${params.filePath} ===\n\n\`\`\`\n${content}\n\`\`\``;
+      return toToolResult(`\n=== Project Structure ===\n\n${structure}`);
     },
   },
   {
     name: "analyze_imports",
     description: "Analyze imports/dependencies in a file",
-    execute: async (params: { filePath: string }, workspacePath: string) => {
-      if (!params.filePath) {
-        return "Error: filePath parameter is required";
-      }
-      const fullPath = path.isAbsolute(params.filePath)
-        ? params.filePath
-        : path.join(workspacePath, params.filePath);
-      return await analyzeImports(fullPath, workspacePath);
+    category: "context",
+    permission: "read",
+    parameters: {
+      type: "object",
+      properties: {
+        filePath: {
+          type: "string",
+          description: "File to analyze (relative to workspace or absolute)",
+        },
+      },
+      required: ["filePath"],
+    },
+    execute: async (params, context) => {
+      return toToolResult(
+        await analyzeImports(resolvePath(params.filePath, context.workspacePath), context.workspacePath)
+      );
     },
   },
   {
     name: "search_files",
     description: "Search for files matching a pattern",
-    execute: async (
-      params: { pattern: string; maxResults?: number },
-      workspacePath: string
-    ) => {
-      if (!params.pattern) {
-        return "Error: pattern parameter is required";
-      }
-      return await searchFiles(
-        workspacePath,
-        params.pattern,
-        params.maxResults || 20
+    category: "context",
+    permission: "read",
+    parameters: {
+      type: "object",
+      properties: {
+        pattern: {
+          type: "string",
+          description: "Text the file name or path must contain",
+        },
+        maxResults: {
+          type: "number",
+          description: "Maximum number of files (default: 20)",
+        },
+      },
+      required: ["pattern"],
+    },
+    execute: async (params, context) => {
+      return toToolResult(
+        await searchFiles(context.workspacePath, params.pattern, params.maxResults || 20)
       );
     },
   },
@@ -465,20 +489,29 @@ export const mcpTools: MCPTool[] = [
     name: "get_file_context",
     description:
       "Get comprehensive context for a file including imports and related files",
-    execute: async (
-      params: { filePath: string; includeImports?: boolean },
-      workspacePath: string
-    ) => {
-      if (!params.filePath) {
-        return "Error: filePath parameter is required";
-      }
-      const fullPath = path.isAbsolute(params.filePath)
-        ? params.filePath
-        : path.join(workspacePath, params.filePath);
-      return await getFileContext(
-        fullPath,
-        workspacePath,
-        params.includeImports !== false
+    category: "context",
+    permission: "read",
+    parameters: {
+      type: "object",
+      properties: {
+        filePath: {
+          type: "string",
+          description: "File to describe (relative to workspace or absolute)",
+        },
+        includeImports: {
+          type: "boolean",
+          description: "Include import analysis and related files (default: true)",
+        },
+      },
+      required: ["filePath"],
+    },
+    execute: async (params, context) => {
+      return toToolResult(
+        await getFileContext(
+          resolvePath(params.filePath, context.workspacePath),
+          context.workspacePath,
+          params.includeImports !== false
+        )
       );
     },
   },
@@ -513,23 +546,3 @@ export async function buildMCPContext(
     return "";
   }
 }
-
-/**
- * Generate MCP tools documentation for AI prompt
- */
-export function getMCPToolsDocumentation(): string {
-  let doc = `\n\n=== Available MCP Tools ===\n\n`;
-  doc += `You have access to the following tools to understand the project better:\n\n`;
-
-  mcpTools.forEach((tool, index) => {
-    doc += `${index + 1}. **${tool.name}**: ${tool.description}\n`;
-  });
-
-  doc += `\nThese tools help you understand:\n`;
-  doc += `- Project structure and file organization\n`;
-  doc += `- Dependencies and imports between files\n`;
-  doc += `- Related code that might affect the changes\n`;
-  doc += `- Full context of the codebase\n`;
-
-  return doc;
-}
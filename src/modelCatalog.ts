@@ -0,0 +1,274 @@
+import * as fs from "fs";
+import * as path from "path";
+import { httpFetch } from "./httpClient";
+import { registerModelContextLengths, toCatalogModelId } from "./tokenBudget";
+import { registerModelPricing } from "./usageTracker";
+
+/* ============================================================
+ * Model Catalog - Cached OpenRouter Model Metadata
+ * ============================================================
+ * Keeps the OpenRouter model list on disk and refreshes it after
+ * the configured interval. When the refresh fails (offline), the
+ * stale copy is used. The metadata feeds pricing, prompt budgeting
+ * and the per-mode model requirements.
+ */
+
+export interface CatalogModel {
+  id: string;
+  name: string;
+  description?: string;
+  pricing: {
+    prompt: string;
+    completion: string;
+    input_cache_read?: string;
+    input_cache_write?: string;
+  };
+  context_length: number;
+  architecture?: {
+    modality?: string;
+    input_modalities?: string[];
+    output_modalities?: string[];
+    tokenizer?: string;
+    instruct_type?: string;
+  };
+  top_provider?: {
+    max_completion_tokens?: number | null;
+  };
+  supported_parameters?: string[];
+}
+
+export interface ModelCatalog {
+  models: CatalogModel[];
+  fetchedAt: number;
+  stale: boolean; // Refresh failed, served from the disk cache
+}
+
+/**
+ * Capability and price constraints, used by the model picker
+ * filters and the per-mode requirements
+ */
+export interface ModelFilter {
+  tools?: boolean; // Supports native tool calling
+  images?: boolean; // Accepts image input
+  minContext?: number; // Minimum context length in tokens
+  maxPrice?: number; // Maximum prompt price in USD per 1M tokens
+}
+
+interface CatalogFile {
+  fetchedAt: number;
+  models: CatalogModel[];
+}
+
+export const OPENROUTER_MODELS_URL = "https://openrouter.ai/api/v1/models";
+export const DEFAULT_CATALOG_REFRESH_HOURS = 24;
+
+const CATALOG_FILE = "model-catalog.json";
+const PRIORITY_PROVIDERS = ["anthropic", "openai", "google", "meta-llama"];
+
+let catalogPath: string | null = null;
+let catalog: CatalogFile | null = null;
+const modelsById = new Map<string, CatalogModel>();
+
+/**
+ * Set the storage directory and load the cached catalog, so pricing
+ * and context lengths are known before the first request
+ */
+export async function initModelCatalog(storageDir: string): Promise<void> {
+  catalogPath = path.join(storageDir, CATALOG_FILE);
+
+  try {
+    const content = await fs.promises.readFile(catalogPath, "utf8");
+    useCatalog(JSON.parse(content) as CatalogFile);
+  } catch {
+    // No cached catalog yet
+  }
+}
+
+/**
+ * Get the model catalog, refreshing it from OpenRouter when the
+ * cached copy is older than refreshHours (or forceRefresh is set)
+ */
+export async function getModelCatalog(options: {
+  refreshHours?: number;
+  forceRefresh?: boolean;
+} = {}): Promise<ModelCatalog> {
+  const refreshMs = (options.refreshHours ?? DEFAULT_CATALOG_REFRESH_HOURS) * 3600000;
+
+  if (catalog && !options.forceRefresh && Date.now() - catalog.fetchedAt < refreshMs) {
+    return { ...catalog, stale: false };
+  }
+
+  try {
+    const models = await fetchModels();
+    const file: CatalogFile = { fetchedAt: Date.now(), models };
+    useCatalog(file);
+    await saveCatalog(file);
+    return { ...file, stale: false };
+  } catch (error) {
+    if (catalog) {
+      console.warn("Could not refresh model catalog, using cached copy:", error);
+      return { ...catalog, stale: true };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Look up a model in the loaded catalog (native Anthropic IDs and
+ * ":beta" variants resolve to their catalog entries)
+ */
+export function getCatalogModel(model: string): CatalogModel | undefined {
+  const id = toCatalogModelId(model);
+  return modelsById.get(id) || modelsById.get(id.replace(/:beta$/, ""));
+}
+
+export function supportsTools(model: CatalogModel): boolean {
+  return (model.supported_parameters || []).includes("tools");
+}
+
+export function supportsImageInput(model: CatalogModel): boolean {
+  const inputs = model.architecture?.input_modalities;
+  if (inputs) {
+    return inputs.includes("image");
+  }
+  // Older entries only have "text+image->text"
+  return (model.architecture?.modality || "").split("->")[0].includes("image");
+}
+
+/**
+ * Prompt price in USD per 1M tokens
+ */
+export function getPromptPricePerMillion(model: CatalogModel): number {
+  return parseFloat(model.pricing.prompt) * 1000000;
+}
+
+/**
+ * List the constraints a model does not meet (empty when it passes)
+ */
+export function checkModelFilter(model: CatalogModel, filter: ModelFilter): string[] {
+  const failures: string[] = [];
+
+  if (filter.tools && !supportsTools(model)) {
+    failures.push("no tool calling");
+  }
+  if (filter.images && !supportsImageInput(model)) {
+    failures.push("no image input");
+  }
+  if (filter.minContext && model.context_length < filter.minContext) {
+    failures.push(`context ${model.context_length.toLocaleString()} < ${filter.minContext.toLocaleString()}`);
+  }
+  if (filter.maxPrice !== undefined) {
+    const price = getPromptPricePerMillion(model);
+    if (isNaN(price) || price > filter.maxPrice) {
+      failures.push(`prompt price above $${filter.maxPrice}/1M`);
+    }
+  }
+
+  return failures;
+}
+
+export function filterModels(models: CatalogModel[], filter: ModelFilter): CatalogModel[] {
+  return models.filter((model) => checkModelFilter(model, filter).length === 0);
+}
+
+/**
+ * Combine two filters, keeping the stricter value of each constraint
+ */
+export function mergeModelFilters(a: ModelFilter, b: ModelFilter): ModelFilter {
+  const maxPrices = [a.maxPrice, b.maxPrice].filter((p): p is number => p !== undefined);
+  return {
+    tools: a.tools || b.tools || undefined,
+    images: a.images || b.images || undefined,
+    minContext: Math.max(a.minContext || 0, b.minContext || 0) || undefined,
+    maxPrice: maxPrices.length > 0 ? Math.min(...maxPrices) : undefined,
+  };
+}
+
+/**
+ * Format a filter for picker titles (null when empty)
+ */
+export function describeModelFilter(filter: ModelFilter): string | null {
+  const parts: string[] = [];
+  if (filter.tools) {
+    parts.push("tool calling");
+  }
+  if (filter.images) {
+    parts.push("image input");
+  }
+  if (filter.minContext) {
+    parts.push(`≥${filter.minContext.toLocaleString()} context`);
+  }
+  if (filter.maxPrice !== undefined) {
+    parts.push(`≤$${filter.maxPrice}/1M prompt`);
+  }
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+async function fetchModels(): Promise<CatalogModel[]> {
+  const response = await httpFetch(OPENROUTER_MODELS_URL, {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `Failed to fetch models: ${response.status} ${response.statusText} - ${errorText}`
+    );
+  }
+
+  const data = (await response.json()) as { data?: CatalogModel[] };
+  if (!data.data || data.data.length === 0) {
+    throw new Error("No models received from OpenRouter API");
+  }
+
+  return sortModels(data.data);
+}
+
+/**
+ * Popular providers first, then by name
+ */
+function sortModels(models: CatalogModel[]): CatalogModel[] {
+  return models.sort((a, b) => {
+    const aPriority = PRIORITY_PROVIDERS.indexOf(a.id.split("/")[0]);
+    const bPriority = PRIORITY_PROVIDERS.indexOf(b.id.split("/")[0]);
+
+    if (aPriority !== -1 && bPriority !== -1) {
+      if (aPriority !== bPriority) {
+        return aPriority - bPriority;
+      }
+    } else if (aPriority !== -1) {
+      return -1;
+    } else if (bPriority !== -1) {
+      return 1;
+    }
+
+    return a.name.localeCompare(b.name);
+  });
+}
+
+function useCatalog(file: CatalogFile): void {
+  catalog = file;
+  modelsById.clear();
+  for (const model of file.models) {
+    modelsById.set(model.id, model);
+  }
+
+  registerModelPricing(file.models);
+  registerModelContextLengths(file.models);
+}
+
+async function saveCatalog(file: CatalogFile): Promise<void> {
+  if (!catalogPath) {
+    return;
+  }
+
+  try {
+    await fs.promises.mkdir(path.dirname(catalogPath), { recursive: true });
+    await fs.promises.writeFile(catalogPath, JSON.stringify(file), "utf8");
+  } catch (error) {
+    console.warn("Could not save model catalog:", error);
+  }
+}
@@ -0,0 +1,190 @@
+/* ============================================================
+ * Plan Mode - Reviewable Plans for Deep Tasks
+ * ============================================================
+ * The model first answers with a structured plan (steps, files,
+ * actions, risks) instead of code. The user reviews it, edits or
+ * unchecks steps, and only the approved steps are executed, one
+ * smart agent request each (see executePlan in smartAgent.ts).
+ */
+
+export type PlanStepStatus = "pending" | "running" | "done" | "failed" | "skipped";
+
+export interface PlanStep {
+  id: number; // 1-based
+  title: string;
+  description: string; // What to do - the instruction sent when the step runs
+  files: string[]; // Files the step touches (relative to the workspace)
+  actions: string[]; // Actions it runs, e.g. "install package zod", "run tests"
+  approved: boolean;
+  edited?: boolean; // Description changed during review
+  status: PlanStepStatus;
+  note?: string; // Outcome or error once the step ran
+}
+
+export interface ExecutionPlan {
+  summary: string;
+  steps: PlanStep[];
+  risks: string[];
+}
+
+const MAX_STEPS = 12;
+
+/**
+ * System prompt asking for a plan instead of code
+ */
+export function getPlanSystemPrompt(): string {
+  return `You are an expert software engineer planning a code change before anyone implements it.
+
+# Your Job
+
+Read the task and the code, then return a plan. Do NOT write the implementation.
+
+# Output Format
+
+Return ONLY a JSON object (no markdown fences, no text around it):
+
+{
+  "summary": "One or two sentences: what will change and why",
+  "steps": [
+    {
+      "title": "Short imperative title",
+      "description": "What exactly to change in this step, precise enough to implement on its own",
+      "files": ["src/file.ts"],
+      "actions": ["install package zod", "create file src/schema.ts", "run tests"]
+    }
+  ],
+  "risks": ["What could break, behavior changes, missing information"]
+}
+
+# Rules
+
+- 1 to ${MAX_STEPS} steps, in execution order, each independently reviewable
+- Each step builds on the previous ones; the selected code is changed step by step
+- "files" lists every file the step reads or changes (the current file included)
+- "actions" lists packages to install, files or folders to create and scripts to run (empty if none)
+- Name real risks only; use an empty list when there are none`;
+}
+
+/**
+ * Parse the model's plan (tolerates code fences and text around the JSON)
+ */
+export function parsePlan(response: string): ExecutionPlan {
+  const start = response.indexOf("{");
+  const end = response.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error("The model did not return a plan");
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(response.slice(start, end + 1));
+  } catch (error) {
+    throw new Error(`The plan is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const steps: PlanStep[] = (Array.isArray(raw.steps) ? raw.steps : [])
+    .filter((step: any) => step && (step.title || step.description))
+    .slice(0, MAX_STEPS)
+    .map((step: any, index: number) => ({
+      id: index + 1,
+      title: String(step.title || step.description).trim(),
+      description: String(step.description || step.title).trim(),
+      files: toStringList(step.files),
+      actions: toStringList(step.actions),
+      approved: true,
+      status: "pending" as const,
+    }));
+
+  if (steps.length === 0) {
+    throw new Error("The plan has no steps");
+  }
+
+  return {
+    summary: String(raw.summary || "").trim(),
+    steps,
+    risks: toStringList(raw.risks),
+  };
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.map((item) => String(item).trim()).filter((item) => item.length > 0)
+    : [];
+}
+
+/**
+ * Instruction for one step, with the plan around it for context
+ */
+export function buildStepPrompt(plan: ExecutionPlan, step: PlanStep, userPrompt: string): string {
+  const approved = plan.steps.filter((s) => s.approved);
+  const done = approved.filter((s) => s.status === "done");
+  const remaining = approved.filter((s) => s.id !== step.id && s.status === "pending");
+
+  let prompt = `Overall task: ${userPrompt}\n\n`;
+  if (plan.summary) {
+    prompt += `Plan: ${plan.summary}\n\n`;
+  }
+  if (done.length > 0) {
+    prompt += `Already done (the code below includes these):\n${done.map((s) => `- ${s.title}`).join("\n")}\n\n`;
+  }
+  prompt += `Do ONLY this step now - step ${step.id}: ${step.title}\n${step.description}\n`;
+  if (step.files.length > 0) {
+    prompt += `Files: ${step.files.join(", ")}\n`;
+  }
+  if (step.actions.length > 0) {
+    prompt += `Actions (use action tags): ${step.actions.join("; ")}\n`;
+  }
+  if (remaining.length > 0) {
+    prompt += `\nLater steps (do NOT do them yet):\n${remaining.map((s) => `- ${s.title}`).join("\n")}\n`;
+  }
+  return prompt;
+}
+
+/**
+ * "2/3 approved steps done"
+ */
+export function describePlanProgress(plan: ExecutionPlan): string {
+  const approved = plan.steps.filter((step) => step.approved);
+  const done = approved.filter((step) => step.status === "done").length;
+  return `${done}/${approved.length} approved steps done`;
+}
+
+const STATUS_ICONS: Record<PlanStepStatus, string> = {
+  pending: "⬜",
+  running: "⏳",
+  done: "✅",
+  failed: "❌",
+  skipped: "⏭️",
+};
+
+/**
+ * The plan as Markdown, with each step's status
+ */
+export function formatPlan(plan: ExecutionPlan, title = "Plan"): string {
+  let markdown = `# ${title}\n\n`;
+  if (plan.summary) {
+    markdown += `${plan.summary}\n\n`;
+  }
+
+  markdown += `## Steps\n\n`;
+  for (const step of plan.steps) {
+    const status = step.approved ? STATUS_ICONS[step.status] : STATUS_ICONS.skipped;
+    markdown += `${status} **${step.id}. ${step.title}**${step.approved ? "" : " (not approved)"}${step.edited ? " (edited)" : ""}\n\n`;
+    markdown += `${step.description}\n\n`;
+    if (step.files.length > 0) {
+      markdown += `- Files: ${step.files.map((file) => `\`${file}\``).join(", ")}\n`;
+    }
+    if (step.actions.length > 0) {
+      markdown += `- Actions: ${step.actions.join("; ")}\n`;
+    }
+    if (step.note) {
+      markdown += `- Result: ${step.note}\n`;
+    }
+    markdown += `\n`;
+  }
+
+  if (plan.risks.length > 0) {
+    markdown += `## Risks\n\n${plan.risks.map((risk) => `- ⚠️ ${risk}`).join("\n")}\n`;
+  }
+  return markdown;
+}
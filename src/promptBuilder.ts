@@ -0,0 +1,151 @@
+import type { ContentPart } from "./llmClient";
+import { estimateTokens, truncateToTokens } from "./tokenBudget";
+
+/* ============================================================
+ * Prompt Builder - Token-Budgeted Prompt Assembly
+ * ============================================================
+ * Fits prompt sections (rules, task, selection, file context,
+ * project cache, web results, ...) into the model's context
+ * window. Sections keep their order in the prompt; when it is
+ * too large, the lowest-priority sections are truncated first
+ * and dropped when too little room is left for them.
+ */
+
+export interface PromptSection {
+  label: string; // Name used in budget reports
+  target: "system" | "user";
+  content: string;
+  priority: number; // 0 = never cut, higher numbers are cut first
+  minTokens?: number; // Drop instead of truncating below this size
+  cacheable?: boolean; // Stable across requests - ends a prompt cache prefix
+  truncate?: (content: string, maxTokens: number) => string;
+}
+
+export interface PromptBudgetReport {
+  contextLength: number;
+  maxTokens: number; // Reserved for the response
+  promptTokens: number;
+  dropped: string[];
+  truncated: string[];
+}
+
+export interface BuiltPrompt {
+  systemPrompt: string;
+  systemParts: ContentPart[]; // systemPrompt split at cache breakpoints
+  userPrompt: string;
+  report: PromptBudgetReport;
+}
+
+/**
+ * Thrown when the sections that cannot be cut do not fit
+ */
+export class PromptBudgetError extends Error {
+  constructor(
+    public readonly requiredTokens: number,
+    public readonly availableTokens: number
+  ) {
+    super(
+      `Prompt too large for the model context: ~${requiredTokens} tokens required, ${availableTokens} available. Select less code or use a model with a larger context window`
+    );
+    this.name = "PromptBudgetError";
+  }
+}
+
+const DEFAULT_MIN_TOKENS = 200;
+
+// Room for the "[truncated ...]" markers added by truncation
+const TRUNCATION_MARKER_TOKENS = 16;
+
+/**
+ * Assemble system and user prompts within contextLength - maxTokens
+ */
+export function buildPrompt(
+  sections: PromptSection[],
+  contextLength: number,
+  maxTokens: number
+): BuiltPrompt {
+  const budget = contextLength - maxTokens;
+  const fitted = sections
+    .filter((section) => section.content)
+    .map((section) => ({ ...section, tokens: estimateTokens(section.content) }));
+  const dropped: string[] = [];
+  const truncated: string[] = [];
+  let total = fitted.reduce((sum, section) => sum + section.tokens, 0);
+
+  const cuttable = fitted
+    .filter((section) => section.priority > 0)
+    .sort((a, b) => b.priority - a.priority);
+
+  for (const section of cuttable) {
+    if (total <= budget) {
+      break;
+    }
+
+    const available = section.tokens - (total - budget) - TRUNCATION_MARKER_TOKENS;
+    total -= section.tokens;
+
+    if (available >= (section.minTokens ?? DEFAULT_MIN_TOKENS)) {
+      section.content = (section.truncate || truncateToTokens)(section.content, available);
+      truncated.push(section.label);
+    } else {
+      section.content = "";
+      dropped.push(section.label);
+    }
+
+    section.tokens = estimateTokens(section.content);
+    total += section.tokens;
+  }
+
+  if (total > budget) {
+    throw new PromptBudgetError(total, budget);
+  }
+
+  const join = (target: PromptSection["target"]) =>
+    fitted
+      .filter((section) => section.target === target)
+      .map((section) => section.content)
+      .join("");
+
+  return {
+    systemPrompt: join("system"),
+    systemParts: splitAtCacheBreakpoints(fitted.filter((s) => s.target === "system")),
+    userPrompt: join("user"),
+    report: { contextLength, maxTokens, promptTokens: total, dropped, truncated },
+  };
+}
+
+/**
+ * Format a budget report for progress messages and notes
+ * (null when nothing was cut)
+ */
+export function describeBudgetReport(report: PromptBudgetReport): string | null {
+  const parts: string[] = [];
+  if (report.dropped.length > 0) {
+    parts.push(`dropped ${report.dropped.join(", ")}`);
+  }
+  if (report.truncated.length > 0) {
+    parts.push(`truncated ${report.truncated.join(", ")}`);
+  }
+  return parts.length > 0 ? parts.join("; ") : null;
+}
+
+/**
+ * Merge sections into parts that each end at a cacheable section
+ */
+function splitAtCacheBreakpoints(sections: PromptSection[]): ContentPart[] {
+  const parts: ContentPart[] = [];
+  let text = "";
+
+  for (const section of sections) {
+    text += section.content;
+    if (section.cacheable && text) {
+      parts.push({ text, cacheable: true });
+      text = "";
+    }
+  }
+
+  if (text) {
+    parts.push({ text });
+  }
+  return parts;
+}
@@ -0,0 +1,231 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import type {
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  LLMProvider,
+  ProviderType,
+  StreamCallback,
+  ToolCall,
+} from "./llmClient";
+
+/* ============================================================
+ * Replay Provider - Deterministic Record/Replay & Mock Responses
+ * ============================================================
+ * Lets the agent run without network access:
+ * - record: forwards to the real provider and saves every
+ *   request/response pair as a fixture file
+ * - replay: serves saved fixtures, keyed by a normalized hash of
+ *   the prompt (model and sampling parameters are ignored)
+ * - mock: serves canned responses from a script, in order or by
+ *   matching the prompt
+ */
+
+export type ReplayMode = "record" | "replay" | "mock";
+
+/**
+ * One canned response of a mock script
+ */
+export interface MockResponse {
+  match?: string; // Substring of the last user message, or /regex/flags
+  content: string;
+  finishReason?: ChatResponse["finishReason"];
+  toolCalls?: ToolCall[];
+  usage?: ChatResponse["usage"];
+}
+
+export interface MockScript {
+  responses: MockResponse[];
+}
+
+export interface ReplayProviderConfig {
+  mode: ReplayMode;
+  fixtureDir: string;
+  inner?: LLMProvider; // Real provider, required for record mode
+  script?: MockScript; // Defaults to <fixtureDir>/mock.json in mock mode
+}
+
+/**
+ * Saved request/response pair
+ */
+interface Fixture {
+  key: string;
+  recordedAt: string;
+  model: string;
+  messages: Array<{ role: string; content: string }>;
+  response: ChatResponse;
+}
+
+/**
+ * Thrown in replay mode when no fixture matches the prompt
+ */
+export class FixtureNotFoundError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly fixturePath: string
+  ) {
+    super(
+      `No recorded response for this prompt (${key}). Run once with fixCode.replayMode "record" to create ${fixturePath}`
+    );
+    this.name = "FixtureNotFoundError";
+  }
+}
+
+export const MOCK_SCRIPT_FILE = "mock.json";
+
+export class ReplayProvider implements LLMProvider {
+  readonly type: ProviderType;
+  readonly baseUrl: string;
+  private mockQueue: MockResponse[] | null = null;
+
+  constructor(private config: ReplayProviderConfig) {
+    this.type = config.inner?.type ?? "openai-compatible";
+    this.baseUrl = config.inner?.baseUrl ?? `file://${config.fixtureDir}`;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    switch (this.config.mode) {
+      case "record":
+        return this.record(request, (inner) => inner.chat(request));
+      case "mock":
+        return this.nextMockResponse(request);
+      case "replay":
+      default:
+        return this.loadFixture(request);
+    }
+  }
+
+  async chatStream(
+    request: ChatRequest,
+    onToken: StreamCallback
+  ): Promise<ChatResponse> {
+    if (this.config.mode === "record") {
+      return this.record(request, (inner) => inner.chatStream(request, onToken));
+    }
+
+    // Replay the content line by line so streaming consumers still run
+    const response = await this.chat(request);
+    let accumulated = "";
+    for (const line of response.content.split(/(?<=\n)/)) {
+      accumulated += line;
+      onToken(line, accumulated);
+    }
+    return response;
+  }
+
+  /**
+   * Forward to the real provider and save the pair
+   */
+  private async record(
+    request: ChatRequest,
+    send: (inner: LLMProvider) => Promise<ChatResponse>
+  ): Promise<ChatResponse> {
+    if (!this.config.inner) {
+      throw new Error("Record mode needs a real provider to forward requests to");
+    }
+
+    const response = await send(this.config.inner);
+    const key = getFixtureKey(request);
+    const fixture: Fixture = {
+      key,
+      recordedAt: new Date().toISOString(),
+      model: request.model,
+      messages: request.messages.map((m) => ({ role: m.role, content: m.content })),
+      response,
+    };
+
+    await fs.promises.mkdir(this.config.fixtureDir, { recursive: true });
+    await fs.promises.writeFile(
+      this.getFixturePath(key),
+      JSON.stringify(fixture, null, 2),
+      "utf8"
+    );
+
+    return response;
+  }
+
+  private async loadFixture(request: ChatRequest): Promise<ChatResponse> {
+    const key = getFixtureKey(request);
+    const fixturePath = this.getFixturePath(key);
+
+    let content: string;
+    try {
+      content = await fs.promises.readFile(fixturePath, "utf8");
+    } catch {
+      throw new FixtureNotFoundError(key, fixturePath);
+    }
+
+    const fixture = JSON.parse(content) as Fixture;
+    return fixture.response;
+  }
+
+  /**
+   * Serve the first scripted response matching the prompt
+   * (responses without a match pattern are served in order)
+   */
+  private async nextMockResponse(request: ChatRequest): Promise<ChatResponse> {
+    if (!this.mockQueue) {
+      this.mockQueue = [...(this.config.script ?? (await this.loadMockScript())).responses];
+    }
+
+    const prompt =
+      [...request.messages].reverse().find((m) => m.role === "user")?.content || "";
+    const index = this.mockQueue.findIndex(
+      (mock) => !mock.match || matchesPrompt(mock.match, prompt)
+    );
+
+    if (index === -1) {
+      throw new Error("Mock script has no response left for this prompt");
+    }
+
+    const [mock] = this.mockQueue.splice(index, 1);
+    return {
+      content: mock.content,
+      model: request.model,
+      finishReason: mock.finishReason ?? (mock.toolCalls ? "tool_calls" : "stop"),
+      toolCalls: mock.toolCalls,
+      usage: mock.usage,
+    };
+  }
+
+  private async loadMockScript(): Promise<MockScript> {
+    const scriptPath = path.join(this.config.fixtureDir, MOCK_SCRIPT_FILE);
+    try {
+      return JSON.parse(await fs.promises.readFile(scriptPath, "utf8")) as MockScript;
+    } catch (error) {
+      throw new Error(`Could not load mock script ${scriptPath}: ${error}`);
+    }
+  }
+
+  private getFixturePath(key: string): string {
+    return path.join(this.config.fixtureDir, `${key}.json`);
+  }
+}
+
+/**
+ * Hash the normalized prompt: message roles and text with collapsed
+ * whitespace, plus tool names. Model, temperature and token limits
+ * are left out so fixtures survive settings changes.
+ */
+export function getFixtureKey(request: ChatRequest): string {
+  const normalized = {
+    messages: request.messages.map((message: ChatMessage) => ({
+      role: message.role,
+      content: message.content.replace(/\s+/g, " ").trim(),
+      toolCalls: message.toolCalls?.map((call) => call.name),
+    })),
+    tools: (request.tools || []).map((tool) => tool.name).sort(),
+  };
+
+  return createHash("sha256")
+    .update(JSON.stringify(normalized))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function matchesPrompt(pattern: string, prompt: string): boolean {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  return regex ? new RegExp(regex[1], regex[2]).test(prompt) : prompt.includes(pattern);
+}
@@ -22,6 +22,36 @@ import {
   SearchRequest,
   WebSearchResult,
 } from "./webSearch";
+import { ChatMessage, ContentPart, createLLMProvider, LLMProvider, ReasoningEffort } from "./llmClient";
+import { chatWithRetry, isTransportError } from "./llmRetry";
+import {
+  buildContinuationMessages,
+  isOutputComplete,
+  MAX_CONTINUATIONS,
+} from "./continuation";
+import { addTokenUsage, createTokenUsage, TokenUsage } from "./usageTracker";
+import { AgentTask, executeEnhancedAgent } from "./agentOrchestrator";
+import { whenMCPServersReady } from "./mcpServers";
+import {
+  estimateTokens,
+  getModelContextLength,
+  getResponseTokenLimit,
+  truncateToTokens,
+} from "./tokenBudget";
+import {
+  buildPrompt,
+  describeBudgetReport,
+  PromptBudgetError,
+  PromptBudgetReport,
+  PromptSection,
+} from "./promptBuilder";
+import {
+  buildStepPrompt,
+  ExecutionPlan,
+  getPlanSystemPrompt,
+  parsePlan,
+  PlanStep,
+} from "./planMode";
 
 /* ============================================================
  * Smart AI Agent System - Optimized & Efficient
@@ -33,28 +63,55 @@ import {
  * 4. Adapts to task requirements
  */
 
+/**
+ * Model and sampling parameters used for one mode
+ */
+export interface ModeSettings {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  reasoningEffort?: ReasoningEffort;
+}
+
 export interface SmartAgentConfig {
   apiKey: string;
   model: string;
+  provider?: LLMProvider;
   workspacePath: string | null;
   currentFile: string;
   selectedCode: string;
   fullFileContent: string;
+  selectionOffset?: number; // Where selectedCode starts in fullFileContent (searched when unset)
   userPrompt: string;
   enableValidation?: boolean;
   maxRetries?: number;
+  transportRetries?: number; // Rate-limit/network retries per model
+  fallbackModels?: string[]; // Tried in order when the model is unavailable
   enableWebSearch?: boolean;
+  forceMode?: "instant" | "smart" | "deep" | "agent";
+  modeSettings?: { [mode in "instant" | "smart" | "deep" | "agent"]?: ModeSettings };
+  useAgentForComplexTasks?: boolean; // Route deep tasks to the multi-turn agent
+  maxTurns?: number; // Agent mode turn limit
+  executeActions?: boolean; // Run actions suggested in the output (default: true)
+  signal?: AbortSignal;
 }
 
 export interface SmartAgentResult {
   success: boolean;
+  cancelled?: boolean;
   code?: string;
   error?: string;
-  mode?: "instant" | "smart" | "deep";
+  mode?: "instant" | "smart" | "deep" | "agent";
   cachedUsed?: boolean;
   validated?: boolean;
   validationScore?: number;
-  retries?: number;
+  retries?: number; // Validation retries
+  modelUsed?: string; // Model that produced the code (may be a fallback)
+  failedModels?: string[]; // Models skipped as unavailable
+  transportRetries?: number;
+  promptBudget?: PromptBudgetReport; // What was cut to fit the context window
+  continuations?: number; // Follow-up requests for truncated output
+  incomplete?: boolean; // Output still cut off - never auto-applied
   validationErrors?: string[];
   actionsExecuted?: ActionRequest[];
   actionsSummary?: string;
@@ -66,7 +123,11 @@ export interface SmartAgentResult {
     resultsCount: number;
     sources: string[];
   }>;
+  toolsUsed?: string[];
+  agentTurns?: number;
   executionTime?: number;
+  usage?: TokenUsage;
+  plan?: ExecutionPlan; // Plan mode: the plan with each step's status
   changesMade?: {
     filesModified?: string[];
     packagesInstalled?: string[];
@@ -96,7 +157,7 @@ type TaskComplexity = "simple" | "medium" | "complex";
 
 interface TaskAnalysis {
   complexity: TaskComplexity;
-  mode: "instant" | "smart" | "deep";
+  mode: "instant" | "smart" | "deep" | "agent";
   needsContext: boolean;
   needsAnalysis: boolean;
   confidence: number;
@@ -186,6 +247,32 @@ function analyzeTaskComplexity(
   };
 }
 
+/**
+ * Apply mode overrides: an explicit mode wins, and deep tasks can be
+ * routed to the multi-turn agent (which needs a workspace for its tools)
+ */
+function routeTaskMode(
+  analysis: TaskAnalysis,
+  config: SmartAgentConfig
+): TaskAnalysis {
+  let mode = config.forceMode ?? analysis.mode;
+
+  if (!config.forceMode && mode === "deep" && config.useAgentForComplexTasks) {
+    mode = "agent";
+  }
+
+  if (mode === "agent" && !config.workspacePath) {
+    console.log("Agent mode needs a workspace, falling back to deep mode");
+    mode = "deep";
+  }
+
+  return {
+    ...analysis,
+    mode,
+    needsContext: mode === "instant" ? analysis.needsContext : true,
+  };
+}
+
 /* ============================================================
  * Context Caching System
  * ============================================================
@@ -302,7 +389,6 @@ async function getDependencies(workspacePath: string): Promise<string> {
 
 function getSmartSystemPrompt(
   mode: "instant" | "smart" | "deep",
-  cache: ProjectCache | null,
   webSearchEnabled: boolean = true
 ): string {
   const basePrompt = `You are an expert AI coding assistant focused on precision and efficiency.
@@ -397,8 +483,6 @@ Provide the fixed code immediately.`
 
 This task benefits from project context understanding.
 
-${cache ? `## Project Context\n\n${cache.projectStructure}\n${cache.commonPatterns}\n${cache.dependencies}\n` : ""}
-
 - Consider the project patterns
 - Maintain consistency with codebase
 - Use appropriate dependencies
@@ -416,8 +500,6 @@ Provide the improved code.`
 
 This is a complex task requiring thorough understanding.
 
-${cache ? `## Project Context\n\n${cache.projectStructure}\n${cache.commonPatterns}\n${cache.dependencies}\n` : ""}
-
 - Analyze the full context
 - Consider architectural implications
 - Plan before implementing
@@ -428,50 +510,173 @@ Think through the solution, then provide the complete implementation.`
 }
 
 /**
- * Build context-aware user prompt
+ * Build context-aware prompt sections, ordered as they appear in the
+ * prompt. Priorities decide what is cut first when the prompt does
+ * not fit the model's context window: web results, then project
+ * context, then full file context, then retry error context.
  */
-function buildUserPrompt(
+function buildPromptSections(
   config: SmartAgentConfig,
   analysis: TaskAnalysis,
   cache: ProjectCache | null,
-  webSearchResult?: WebSearchResult | null,
-  searchRequest?: SearchRequest | null
-): string {
-  let prompt = "";
-
-  // Add file context
-  const fileName = path.basename(config.currentFile);
-  prompt += `File: ${fileName}\n\n`;
+  enableWebSearch: boolean,
+  webSearchResult: WebSearchResult | null,
+  searchRequest: SearchRequest | null,
+  errorContext: string | null
+): PromptSection[] {
+  const mode = analysis.mode === "agent" ? "deep" : analysis.mode;
+  const sections: PromptSection[] = [
+    {
+      label: "system rules",
+      target: "system",
+      content: getSmartSystemPrompt(mode, enableWebSearch),
+      priority: 0,
+      cacheable: true,
+    },
+  ];
 
-  // Add task
-  prompt += `Task: ${config.userPrompt}\n\n`;
+  if (cache && mode !== "instant") {
+    sections.push({
+      label: "project context",
+      target: "system",
+      content: `\n\n## Project Context\n\n${cache.projectStructure}\n${cache.commonPatterns}\n${cache.dependencies}\n`,
+      priority: 3,
+      cacheable: true,
+    });
+  }
 
-  // Add web search results if available
+  // File and task
+  const fileName = path.basename(config.currentFile);
+  sections.push({
+    label: "task",
+    target: "user",
+    content: `File: ${fileName}\n\nTask: ${config.userPrompt}\n\n`,
+    priority: 0,
+  });
+
+  // Web search results if available
   if (webSearchResult && searchRequest && webSearchResult.success && webSearchResult.results.length > 0) {
-    prompt += formatSearchResultsForAI(webSearchResult, searchRequest);
-    prompt += "\n";
+    sections.push({
+      label: "web results",
+      target: "user",
+      content: formatSearchResultsForAI(webSearchResult, searchRequest) + "\n",
+      priority: 4,
+    });
   }
 
-  // Add selected code
-  prompt += `Selected Code:\n${config.selectedCode}\n\n`;
+  // Selected code is what gets replaced, so it is never cut
+  sections.push({
+    label: "selected code",
+    target: "user",
+    content: `Selected Code:\n${config.selectedCode}\n\n`,
+    priority: 0,
+  });
 
-  // Add full file context for medium/complex tasks
+  // Full file context for medium/complex tasks
   if (analysis.needsContext && config.selectedCode !== config.fullFileContent) {
-    const fullLines = config.fullFileContent.split("\n").length;
-    if (fullLines < 500) {
-      // Only include if file is reasonable size
-      prompt += `Full File Context:\n${config.fullFileContent}\n\n`;
-    }
+    const header = "Full File Context:\n";
+    sections.push({
+      label: "full file context",
+      target: "user",
+      content: `${header}${config.fullFileContent}\n\n`,
+      priority: 2,
+      truncate: (_content, maxTokens) =>
+        `${header}${truncateAroundSelection(
+          config.fullFileContent,
+          config.selectedCode,
+          config.selectionOffset,
+          maxTokens - estimateTokens(header)
+        )}\n\n`,
+    });
   }
 
-  // Add MCP context for complex tasks
+  // MCP context note for complex tasks
+  let closing = "";
   if (analysis.mode === "deep" && config.workspacePath) {
-    prompt += `\nNote: Consider the full project context and dependencies when making changes.\n`;
+    closing += `\nNote: Consider the full project context and dependencies when making changes.\n`;
+  }
+  closing += `\nProvide the fixed code (no explanations, no markdown):`;
+  sections.push({ label: "instructions", target: "user", content: closing, priority: 0 });
+
+  // Error context if retrying
+  if (errorContext) {
+    sections.push({
+      label: "previous errors",
+      target: "user",
+      content: `\n\n⚠️ PREVIOUS ATTEMPT HAD ERRORS:\n${errorContext}`,
+      priority: 1,
+      minTokens: 50,
+    });
   }
 
-  prompt += `\nProvide the fixed code (no explanations, no markdown):`;
+  return sections;
+}
 
-  return prompt;
+/**
+ * Where the selection starts in the file: selectionOffset when it
+ * points at the selected code, else its first occurrence (-1 if none)
+ */
+function findSelection(
+  fileContent: string,
+  selectedCode: string,
+  selectionOffset?: number
+): number {
+  if (
+    selectionOffset !== undefined &&
+    fileContent.slice(selectionOffset, selectionOffset + selectedCode.length) === selectedCode
+  ) {
+    return selectionOffset;
+  }
+  return fileContent.indexOf(selectedCode);
+}
+
+/**
+ * Keep the lines around the selection that fit in maxTokens
+ */
+export function truncateAroundSelection(
+  fileContent: string,
+  selectedCode: string,
+  selectionOffset: number | undefined,
+  maxTokens: number
+): string {
+  const lines = fileContent.split("\n");
+  const index = findSelection(fileContent, selectedCode, selectionOffset);
+  let first = index >= 0 ? fileContent.slice(0, index).split("\n").length - 1 : 0;
+  let last = index >= 0 ? first + selectedCode.split("\n").length - 1 : 0;
+  let used = estimateTokens(lines.slice(first, last + 1).join("\n"));
+
+  // The selection alone does not fit: keep its start
+  if (used > maxTokens) {
+    const above = first > 0 ? `... [${first} lines above omitted]\n` : "";
+    const selection = lines.slice(first, last + 1).join("\n");
+    return above + truncateToTokens(selection, maxTokens - estimateTokens(above));
+  }
+
+  // Grow the window one line above and below at a time
+  let grew = true;
+  while (grew) {
+    grew = false;
+    if (first > 0 && used + estimateTokens(lines[first - 1]) + 1 <= maxTokens) {
+      first--;
+      used += estimateTokens(lines[first]) + 1;
+      grew = true;
+    }
+    if (last < lines.length - 1 && used + estimateTokens(lines[last + 1]) + 1 <= maxTokens) {
+      last++;
+      used += estimateTokens(lines[last]) + 1;
+      grew = true;
+    }
+  }
+
+  const parts: string[] = [];
+  if (first > 0) {
+    parts.push(`... [${first} lines above omitted]`);
+  }
+  parts.push(lines.slice(first, last + 1).join("\n"));
+  if (last < lines.length - 1) {
+    parts.push(`... [${lines.length - 1 - last} lines below omitted]`);
+  }
+  return parts.join("\n");
 }
 
 /* ============================================================
@@ -531,15 +736,15 @@ function buildChangesMade(executedActions: ActionRequest[]): {
         break;
       case "create_file":
         if (!changes.filesCreated) changes.filesCreated = [];
-        changes.filesCreated.push(action.params.path || "unknown");
+        changes.filesCreated.push(action.params.filePath || "unknown");
         break;
       case "create_folder":
         if (!changes.foldersCreated) changes.foldersCreated = [];
-        changes.foldersCreated.push(action.params.path || "unknown");
+        changes.foldersCreated.push(action.params.folderPath || "unknown");
         break;
       case "modify_file":
         if (!changes.filesModified) changes.filesModified = [];
-        changes.filesModified.push(action.params.path || "unknown");
+        changes.filesModified.push(action.params.filePath || "unknown");
         break;
       case "format_code":
       case "update_imports":
@@ -559,7 +764,8 @@ function buildChangesMade(executedActions: ActionRequest[]): {
  */
 export async function executeSmartAgent(
   config: SmartAgentConfig,
-  progressCallback?: (message: string) => void
+  progressCallback?: (message: string) => void,
+  streamCallback?: (partialText: string) => void
 ): Promise<SmartAgentResult> {
   const startTime = Date.now(); // Track execution time
   const enableValidation = config.enableValidation !== false; // Default: true
@@ -569,19 +775,38 @@ export async function executeSmartAgent(
   let lastValidationResult: ValidationResult | null = null;
   let webSearchResult: WebSearchResult | null = null;
   let searchRequest: SearchRequest | null = null;
+  let mode: SmartAgentResult["mode"];
+  const completedActions: ActionRequest[] = [];
+  const usage = createTokenUsage(config.model);
+  const transport = {
+    modelUsed: config.model,
+    failedModels: [] as string[],
+    transportRetries: 0,
+  };
+  let promptBudget: PromptBudgetReport | undefined;
 
   try {
     // Step 1: Analyze task complexity
     progressCallback?.("Analyzing task complexity...");
-    const analysis = analyzeTaskComplexity(
-      config.userPrompt,
-      config.selectedCode
+    const analysis = routeTaskMode(
+      analyzeTaskComplexity(config.userPrompt, config.selectedCode),
+      config
     );
 
+    mode = analysis.mode;
+
     console.log(
       `Task analysis: ${analysis.complexity} complexity, ${analysis.mode} mode`
     );
 
+    // Agent mode: multi-turn tool-using agent instead of a single call
+    if (analysis.mode === "agent") {
+      return await executeAgentMode(config, startTime, progressCallback);
+    }
+
+    const modeSettings = getModeSettings(config, analysis.mode);
+    transport.modelUsed = modeSettings.model;
+
     // Step 2: Get project cache if needed
     let cache: ProjectCache | null = null;
     if (
@@ -593,6 +818,8 @@ export async function executeSmartAgent(
       cache = await getProjectCache(config.workspacePath);
     }
 
+    throwIfCancelled(config.signal);
+
     // Step 2.5: Check if web search is needed
     if (enableWebSearch) {
       searchRequest = shouldTriggerSearch({
@@ -603,7 +830,8 @@ export async function executeSmartAgent(
         progressCallback?.(`Searching web for: "${searchRequest.query}"...`);
         console.log(`Web search triggered: ${searchRequest.type} - ${searchRequest.query}`);
 
-        webSearchResult = await searchWeb(searchRequest);
+        webSearchResult = await searchWeb(searchRequest, config.signal);
+        throwIfCancelled(config.signal);
 
         if (webSearchResult.success && webSearchResult.results.length > 0) {
           progressCallback?.(`Found ${webSearchResult.results.length} result(s)`);
@@ -614,32 +842,74 @@ export async function executeSmartAgent(
       }
     }
 
+    const provider = config.provider ?? createLLMProvider(config.apiKey);
+
     // Step 3: Retry loop with validation
     while (retryCount <= maxRetries) {
       try {
-        // Build prompt
-        const systemPrompt = getSmartSystemPrompt(analysis.mode, cache, enableWebSearch);
-        let userPrompt = buildUserPrompt(config, analysis, cache, webSearchResult, searchRequest);
+        throwIfCancelled(config.signal);
 
         // Add error context if retrying
+        let errorContext: string | null = null;
         if (retryCount > 0 && lastValidationResult && !lastValidationResult.isValid) {
           progressCallback?.(`Retry ${retryCount}/${maxRetries} - Fixing errors...`);
-          const errorContext = generateErrorContext(lastValidationResult);
-          userPrompt += `\n\n⚠️ PREVIOUS ATTEMPT HAD ERRORS:\n${errorContext}`;
+          errorContext = generateErrorContext(lastValidationResult);
         } else {
           progressCallback?.(
             `Processing with ${analysis.mode} mode... (${analysis.complexity})`
           );
         }
 
+        // Build prompt within the model's context window
+        const { systemParts, userPrompt, report } = buildPrompt(
+          buildPromptSections(
+            config,
+            analysis,
+            cache,
+            enableWebSearch,
+            webSearchResult,
+            searchRequest,
+            errorContext
+          ),
+          getModelContextLength(modeSettings.model),
+          modeSettings.maxTokens
+        );
+        promptBudget = report;
+
+        const trimmed = describeBudgetReport(report);
+        if (trimmed) {
+          console.log(`Prompt trimmed to fit ${modeSettings.model}: ${trimmed}`);
+          progressCallback?.(`Context trimmed to fit the model: ${trimmed}`);
+        }
+
         // AI call
-        const code = await callAI(
-          config.apiKey,
-          config.model,
-          systemPrompt,
-          userPrompt
+        let streamedLines = 0;
+        const aiResult = await callAI(
+          provider,
+          config,
+          modeSettings,
+          systemParts,
+          userPrompt,
+          usage,
+          streamCallback &&
+            ((partialText: string) => {
+              streamCallback(partialText);
+
+              const lines = partialText.split("\n").length;
+              if (lines !== streamedLines) {
+                streamedLines = lines;
+                progressCallback?.(
+                  `Receiving ${analysis.mode} response... (${lines} lines)`
+                );
+              }
+            }),
+          progressCallback
         );
+        transport.modelUsed = aiResult.model;
+        transport.failedModels = aiResult.failedModels;
+        transport.transportRetries += aiResult.transportRetries;
 
+        const code = aiResult.content;
         if (!code) {
           throw new Error("AI did not return code");
         }
@@ -647,11 +917,34 @@ export async function executeSmartAgent(
         // Clean the response
         const cleanedCode = cleanCodeResponse(code);
 
+        // Step 3.5: Refuse output that is still cut off (no actions, no apply)
+        if (aiResult.truncated || !isOutputComplete(cleanedCode, config.selectedCode)) {
+          const reason = aiResult.truncated
+            ? `Response still truncated after ${MAX_CONTINUATIONS} continuations`
+            : "Output appears incomplete (ends mid-statement)";
+          console.warn(reason);
+          return {
+            success: false,
+            incomplete: true,
+            error: `${reason}. Increase fixCode.maxTokens or select less code`,
+            code: cleanedCode, // Returned for review only
+            mode: analysis.mode,
+            cachedUsed: !!cache,
+            validated: false,
+            retries: retryCount,
+            continuations: aiResult.continuations,
+            executionTime: (Date.now() - startTime) / 1000,
+            usage,
+            ...transport,
+            promptBudget,
+          };
+        }
+
         // Step 4: Execute autonomous actions if any
         let actionExecutor: AutonomousActionExecutor | null = null;
         const executedActions: ActionRequest[] = [];
 
-        if (config.workspacePath) {
+        if (config.workspacePath && config.executeActions !== false) {
           // Parse actions from AI response
           const suggestedActions = ActionParser.parseActions(code);
 
@@ -661,11 +954,17 @@ export async function executeSmartAgent(
             actionExecutor = createActionExecutor(config.workspacePath);
 
             for (const action of suggestedActions) {
+              // Stop queued actions once cancelled
+              if (config.signal?.aborted) {
+                break;
+              }
+
               action.workspacePath = config.workspacePath;
-              const result = await actionExecutor.execute(action);
+              const result = await actionExecutor.execute(action, config.signal);
 
               if (result.success) {
                 executedActions.push(action);
+                completedActions.push(action);
                 progressCallback?.(`✓ ${action.description}`);
               } else {
                 console.warn(`Action failed: ${action.description}`, result.error);
@@ -674,6 +973,8 @@ export async function executeSmartAgent(
           }
         }
 
+        throwIfCancelled(config.signal);
+
         // Step 5: Validate if enabled
         if (enableValidation) {
           progressCallback?.("Validating generated code...");
@@ -704,6 +1005,10 @@ export async function executeSmartAgent(
               webSearchResults: webSearchResult?.results.length || 0,
               webSearchDetails: buildWebSearchDetails(webSearchResult, searchRequest),
               executionTime,
+              usage,
+              ...transport,
+              promptBudget,
+              continuations: aiResult.continuations,
               changesMade: buildChangesMade(executedActions),
             };
           } else {
@@ -735,6 +1040,10 @@ export async function executeSmartAgent(
                 webSearchResults: webSearchResult?.results.length || 0,
                 webSearchDetails: buildWebSearchDetails(webSearchResult, searchRequest),
                 executionTime,
+                usage,
+                ...transport,
+                promptBudget,
+                continuations: aiResult.continuations,
                 changesMade: buildChangesMade(executedActions),
               };
             }
@@ -756,11 +1065,22 @@ export async function executeSmartAgent(
             webSearchResults: webSearchResult?.results.length || 0,
             webSearchDetails: buildWebSearchDetails(webSearchResult, searchRequest),
             executionTime,
+            usage,
+            ...transport,
+            promptBudget,
+            continuations: aiResult.continuations,
             changesMade: buildChangesMade(executedActions),
           };
         }
       } catch (innerError) {
-        if (retryCount < maxRetries) {
+        // Transport errors were already retried by chatWithRetry;
+        // validation retries are only spent on bad model output
+        if (
+          retryCount < maxRetries &&
+          !config.signal?.aborted &&
+          !isTransportError(innerError) &&
+          !(innerError instanceof PromptBudgetError)
+        ) {
           retryCount++;
           progressCallback?.(`Error occurred, retrying (${retryCount}/${maxRetries})...`);
           continue;
@@ -773,62 +1093,579 @@ export async function executeSmartAgent(
     // Should not reach here
     throw new Error("Unexpected error in retry loop");
   } catch (error) {
-    console.error("Smart agent error:", error);
     const executionTime = (Date.now() - startTime) / 1000;
+
+    if (config.signal?.aborted) {
+      console.log("Smart agent cancelled");
+      return {
+        success: false,
+        cancelled: true,
+        error: "Cancelled by user",
+        mode,
+        retries: retryCount,
+        actionsExecuted: completedActions,
+        executionTime,
+        usage,
+        ...transport,
+        promptBudget,
+        changesMade: buildChangesMade(completedActions),
+      };
+    }
+
+    console.error("Smart agent error:", error);
     return {
       success: false,
-      error: `Failed to process: ${error}`,
+      error: `Failed to process: ${error instanceof Error ? error.message : error}`,
       retries: retryCount,
       executionTime,
+      usage,
+      ...transport,
+      promptBudget,
     };
   }
 }
 
 /**
- * Call AI with single request
+ * Run the multi-turn AgentOrchestrator and validate its final code
  */
-async function callAI(
-  apiKey: string,
-  model: string,
-  systemPrompt: string,
-  userPrompt: string
-): Promise<string | null> {
+async function executeAgentMode(
+  config: SmartAgentConfig,
+  startTime: number,
+  progressCallback?: (message: string) => void
+): Promise<SmartAgentResult> {
+  const prompt = config.userPrompt.toLowerCase();
+  const taskType: AgentTask["type"] = prompt.includes("refactor")
+    ? "refactor"
+    : /implement|create|build|add /.test(prompt)
+    ? "implement"
+    : "fix";
+
+  const modeSettings = getModeSettings(config, "agent");
+
+  progressCallback?.("Starting deep agent...");
+
+  // MCP tools are registered once their servers have started
+  await whenMCPServersReady();
+
+  const agentResponse = await executeEnhancedAgent(
+    {
+      type: taskType,
+      instruction: config.userPrompt,
+      context: {
+        workspacePath: config.workspacePath as string,
+        currentFile: config.currentFile,
+        selectedCode: config.selectedCode,
+        signal: config.signal,
+      },
+      config: {
+        apiKey: config.apiKey,
+        model: modeSettings.model,
+        provider: config.provider,
+        maxTokens: modeSettings.maxTokens,
+        temperature: modeSettings.temperature,
+        reasoningEffort: modeSettings.reasoningEffort,
+        maxTurns: config.maxTurns || 10,
+        transportRetries: config.transportRetries,
+        fallbackModels: config.fallbackModels,
+        enableTools: true,
+        enableReasoning: true,
+        streamResponse: false,
+        signal: config.signal,
+      },
+    },
+    progressCallback
+  );
+
+  const baseResult: SmartAgentResult = {
+    success: false,
+    mode: "agent",
+    toolsUsed: agentResponse.toolsUsed,
+    agentTurns: agentResponse.turns,
+    retries: 0,
+    usage: agentResponse.usage,
+    modelUsed: agentResponse.modelUsed,
+    failedModels: agentResponse.failedModels,
+    transportRetries: agentResponse.transportRetries,
+  };
+
+  if (agentResponse.cancelled) {
+    return {
+      ...baseResult,
+      cancelled: true,
+      error: "Cancelled by user",
+      executionTime: (Date.now() - startTime) / 1000,
+    };
+  }
+
+  if (!agentResponse.success || !agentResponse.finalCode) {
+    return {
+      ...baseResult,
+      error: agentResponse.error || "Agent failed to generate code",
+      executionTime: (Date.now() - startTime) / 1000,
+    };
+  }
+
+  const code = cleanCodeResponse(agentResponse.finalCode);
+
+  if (!isOutputComplete(code, config.selectedCode)) {
+    return {
+      ...baseResult,
+      incomplete: true,
+      code, // Returned for review only
+      error: "Agent output appears incomplete (ends mid-statement)",
+      executionTime: (Date.now() - startTime) / 1000,
+    };
+  }
+
+  if (config.enableValidation === false) {
+    return {
+      ...baseResult,
+      success: true,
+      code,
+      validated: false,
+      executionTime: (Date.now() - startTime) / 1000,
+    };
+  }
+
+  progressCallback?.("Validating agent output...");
+  const validationResult = validateCode(code, path.basename(config.currentFile));
+
+  return {
+    ...baseResult,
+    success: validationResult.isValid,
+    code,
+    validated: validationResult.isValid,
+    validationScore: validationResult.score,
+    validationErrors: validationResult.isValid
+      ? undefined
+      : validationResult.errors.map((e) => e.message),
+    error: validationResult.isValid
+      ? undefined
+      : `Agent code validation failed: ${getErrorSummary(validationResult)}`,
+    executionTime: (Date.now() - startTime) / 1000,
+  };
+}
+
+/* ============================================================
+ * Plan Mode
+ * ============================================================
+ * Deep tasks can be planned first: generatePlan asks for a
+ * structured plan, the user reviews it, and executePlan runs the
+ * approved steps one deep-mode request at a time, feeding each
+ * step's code into the next.
+ */
+
+export interface PlanResult {
+  success: boolean;
+  cancelled?: boolean;
+  plan?: ExecutionPlan;
+  error?: string;
+  usage: TokenUsage;
+  modelUsed?: string;
+  failedModels?: string[];
+  transportRetries?: number;
+}
+
+/**
+ * The mode a task would run in (deep and agent tasks can be planned)
+ */
+export function getTaskMode(
+  config: SmartAgentConfig
+): "instant" | "smart" | "deep" | "agent" {
+  return routeTaskMode(
+    analyzeTaskComplexity(config.userPrompt, config.selectedCode),
+    config
+  ).mode;
+}
+
+/**
+ * Ask the deep mode model for a plan instead of code
+ */
+export async function generatePlan(
+  config: SmartAgentConfig,
+  progressCallback?: (message: string) => void
+): Promise<PlanResult> {
+  const modeSettings = getModeSettings(config, "deep");
+  const usage = createTokenUsage(modeSettings.model);
+
   try {
-    const response = await fetch(
-      "https://openrouter.ai/api/v1/chat/completions",
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-          "HTTP-Referer":
-            "https://github.com/malikkurosaki/fix-code-makuro",
-          "X-Title": "Fix Code Makuro",
-        },
-        body: JSON.stringify({
-          model: model,
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: userPrompt },
-          ],
-          max_tokens: 4096,
-          temperature: 0.7,
-        }),
-      }
+    let cache: ProjectCache | null = null;
+    if (config.workspacePath) {
+      progressCallback?.("Loading project context...");
+      cache = await getProjectCache(config.workspacePath);
+    }
+
+    throwIfCancelled(config.signal);
+
+    const { systemParts, userPrompt } = buildPrompt(
+      buildPlanSections(config, cache),
+      getModelContextLength(modeSettings.model),
+      modeSettings.maxTokens
     );
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`API Error ${response.status}: ${errorText}`);
+    progressCallback?.("Planning...");
+    const aiResult = await callAI(
+      config.provider ?? createLLMProvider(config.apiKey),
+      config,
+      modeSettings,
+      systemParts,
+      userPrompt,
+      usage,
+      undefined,
+      progressCallback
+    );
+
+    return {
+      success: true,
+      plan: parsePlan(aiResult.content),
+      usage,
+      modelUsed: aiResult.model,
+      failedModels: aiResult.failedModels,
+      transportRetries: aiResult.transportRetries,
+    };
+  } catch (error) {
+    if (config.signal?.aborted) {
+      return { success: false, cancelled: true, error: "Cancelled by user", usage };
+    }
+
+    console.error("Plan generation error:", error);
+    return {
+      success: false,
+      error: `Failed to plan: ${error instanceof Error ? error.message : error}`,
+      usage,
+    };
+  }
+}
+
+/**
+ * Prompt sections for the planning request (same trimming order as
+ * buildPromptSections: project context goes before file context)
+ */
+function buildPlanSections(
+  config: SmartAgentConfig,
+  cache: ProjectCache | null
+): PromptSection[] {
+  const sections: PromptSection[] = [
+    {
+      label: "system rules",
+      target: "system",
+      content: getPlanSystemPrompt(),
+      priority: 0,
+      cacheable: true,
+    },
+  ];
+
+  if (cache) {
+    sections.push({
+      label: "project context",
+      target: "system",
+      content: `\n\n## Project Context\n\n${cache.projectStructure}\n${cache.commonPatterns}\n${cache.dependencies}\n`,
+      priority: 3,
+      cacheable: true,
+    });
+  }
+
+  sections.push(
+    {
+      label: "task",
+      target: "user",
+      content: `File: ${path.basename(config.currentFile)}\n\nTask: ${config.userPrompt}\n\n`,
+      priority: 0,
+    },
+    {
+      label: "selected code",
+      target: "user",
+      content: `Selected Code:\n${config.selectedCode}\n\n`,
+      priority: 0,
+    }
+  );
+
+  if (config.selectedCode !== config.fullFileContent) {
+    const header = "Full File Context:\n";
+    sections.push({
+      label: "full file context",
+      target: "user",
+      content: `${header}${config.fullFileContent}\n\n`,
+      priority: 2,
+      truncate: (_content, maxTokens) =>
+        `${header}${truncateAroundSelection(
+          config.fullFileContent,
+          config.selectedCode,
+          config.selectionOffset,
+          maxTokens - estimateTokens(header)
+        )}\n\n`,
+    });
+  }
+
+  sections.push({
+    label: "instructions",
+    target: "user",
+    content: `\nReturn the plan as JSON (no code):`,
+    priority: 0,
+  });
+
+  return sections;
+}
+
+/**
+ * Run the approved steps of a plan in order. Each step is a deep mode
+ * request on the code produced by the previous one; the first failed
+ * step stops the run. Step statuses are updated on the plan itself.
+ */
+export async function executePlan(
+  config: SmartAgentConfig,
+  plan: ExecutionPlan,
+  progressCallback?: (message: string) => void,
+  onStepUpdate?: (step: PlanStep) => void
+): Promise<SmartAgentResult> {
+  const startTime = Date.now();
+  const usage = createTokenUsage(getModeSettings(config, "deep").model);
+  const approved = plan.steps.filter((step) => step.approved);
+  const actions: ActionRequest[] = [];
+  const failedModels = new Set<string>();
+  let transportRetries = 0;
+  let retries = 0;
+  let code = config.selectedCode;
+  let fullFileContent = config.fullFileContent;
+  // The selection stays at this offset; its end moves as steps replace the code
+  const selectionStart = findSelection(fullFileContent, code, config.selectionOffset);
+  let last: SmartAgentResult | null = null;
+
+  const update = (step: PlanStep, status: PlanStep["status"], note?: string) => {
+    step.status = status;
+    step.note = note;
+    onStepUpdate?.(step);
+  };
+
+  plan.steps
+    .filter((step) => !step.approved)
+    .forEach((step) => update(step, "skipped", "Not approved"));
+
+  for (const [index, step] of approved.entries()) {
+    const label = `Step ${index + 1}/${approved.length}`;
+    if (selectionStart < 0 || fullFileContent.slice(selectionStart, selectionStart + code.length) !== code) {
+      update(step, "failed", "Could not locate the selected code in the file");
+      break;
     }
+    update(step, "running");
+    progressCallback?.(`${label}: ${step.title}`);
+
+    const result = await executeSmartAgent(
+      {
+        ...config,
+        forceMode: "deep",
+        selectedCode: code,
+        fullFileContent,
+        userPrompt: buildStepPrompt(plan, step, config.userPrompt),
+      },
+      (message) => progressCallback?.(`${label}: ${message}`)
+    );
+    last = result;
+
+    addUsage(usage, result.usage);
+    actions.push(...(result.actionsExecuted || []));
+    result.failedModels?.forEach((model) => failedModels.add(model));
+    transportRetries += result.transportRetries || 0;
+    retries += result.retries || 0;
+
+    if (!result.success || !result.code) {
+      update(step, "failed", result.error || "No code returned");
+      // Failed output is kept for review like a single-request run
+      code = result.code ?? code;
+      break;
+    }
+
+    // Later steps see the file with this step applied
+    fullFileContent =
+      fullFileContent.slice(0, selectionStart) +
+      result.code +
+      fullFileContent.slice(selectionStart + code.length);
+    code = result.code;
+
+    const actionCount = result.actionsExecuted?.length || 0;
+    update(
+      step,
+      "done",
+      actionCount > 0 ? `${actionCount} action(s) executed` : result.validated ? "Validated" : undefined
+    );
+  }
 
-    const data = (await response.json()) as any;
+  const failed = approved.find((step) => step.status === "failed");
+  approved
+    .filter((step) => step.status === "pending")
+    .forEach((step) => update(step, "skipped", `Not run - step ${failed?.id} failed`));
+
+  return {
+    ...(last || {}),
+    success: !failed && !!last,
+    cancelled: last?.cancelled,
+    code: last ? code : undefined,
+    error: failed ? `Step ${failed.id} (${failed.title}) failed: ${failed.note}` : last ? undefined : "No steps approved",
+    mode: "deep",
+    retries,
+    failedModels: [...failedModels],
+    transportRetries,
+    actionsExecuted: actions,
+    actionsSummary: undefined,
+    executionTime: (Date.now() - startTime) / 1000,
+    usage,
+    plan,
+    changesMade: buildChangesMade(actions),
+  };
+}
+
+/**
+ * Add one request's token usage to a running total
+ */
+function addUsage(total: TokenUsage, usage: TokenUsage | undefined): void {
+  if (!usage) {
+    return;
+  }
+
+  total.model = usage.model;
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+  total.totalTokens += usage.totalTokens;
+  total.cacheReadTokens += usage.cacheReadTokens;
+  total.cacheWriteTokens += usage.cacheWriteTokens;
+  total.cost += usage.cost;
+  total.cacheSavings += usage.cacheSavings;
+}
+
+/**
+ * Get the model and parameters configured for a mode (defaults to the
+ * selected model), with max tokens capped to the model's context window
+ */
+function getModeSettings(
+  config: SmartAgentConfig,
+  mode: "instant" | "smart" | "deep" | "agent"
+): ModeSettings {
+  const settings = config.modeSettings?.[mode] || {
+    model: config.model,
+    maxTokens: 4096,
+    temperature: 0.7,
+  };
 
-    if (!data.choices || data.choices.length === 0) {
-      throw new Error("No response from AI");
+  return {
+    ...settings,
+    maxTokens: getResponseTokenLimit(settings.model, settings.maxTokens),
+  };
+}
+
+/**
+ * Route every mode to one model, keeping each mode's other parameters
+ * (used to compare and evaluate models on equal terms)
+ */
+export function withModelForAllModes(
+  config: SmartAgentConfig,
+  model: string
+): SmartAgentConfig {
+  const modeSettings: SmartAgentConfig["modeSettings"] = {};
+  for (const mode of ["instant", "smart", "deep", "agent"] as const) {
+    const settings = config.modeSettings?.[mode];
+    if (settings) {
+      modeSettings[mode] = { ...settings, model };
     }
+  }
+  return { ...config, model, modeSettings, fallbackModels: [] };
+}
 
-    return data.choices[0].message.content;
+/**
+ * Throw if the request has been cancelled
+ */
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error("Cancelled by user");
+  }
+}
+
+interface AICallResult {
+  content: string;
+  model: string; // Model that produced the content
+  failedModels: string[];
+  transportRetries: number;
+  continuations: number;
+  truncated: boolean; // Still cut off after MAX_CONTINUATIONS
+}
+
+/**
+ * Call AI with single request (streams tokens when onStream is given).
+ * Rate limits and outages are retried, then the fallback models are
+ * tried. Responses cut off by max tokens are continued automatically.
+ */
+async function callAI(
+  provider: LLMProvider,
+  config: SmartAgentConfig,
+  modeSettings: ModeSettings,
+  systemParts: ContentPart[],
+  userPrompt: string,
+  usage: TokenUsage,
+  onStream?: (partialText: string) => void,
+  progressCallback?: (message: string) => void
+): Promise<AICallResult> {
+  try {
+    // Cacheable system parts let providers reuse the rules/project prefix
+    const baseMessages: ChatMessage[] = [
+      {
+        role: "system",
+        content: systemParts.map((part) => part.text).join(""),
+        parts: systemParts,
+      },
+      { role: "user", content: userPrompt },
+    ];
+    const failedModels = new Set<string>();
+    let messages = baseMessages;
+    let model = modeSettings.model;
+    let content = "";
+    let transportRetries = 0;
+
+    for (let continuations = 0; ; continuations++) {
+      const previous = content;
+      const result = await chatWithRetry(
+        provider,
+        {
+          model,
+          messages,
+          maxTokens: modeSettings.maxTokens,
+          temperature: modeSettings.temperature,
+          reasoningEffort: modeSettings.reasoningEffort,
+          signal: config.signal,
+        },
+        {
+          maxRetries: config.transportRetries,
+          fallbackModels: config.fallbackModels,
+          onRetry: progressCallback,
+        },
+        onStream && ((_delta, accumulated) => onStream(previous + accumulated))
+      );
+
+      // Keep continuing with the model that answered
+      model = result.model;
+      result.failedModels.forEach((m) => failedModels.add(m));
+      transportRetries += result.transportRetries;
+      usage.model = model;
+      addTokenUsage(usage, model, result.response.usage);
+      content += result.response.content;
+
+      const truncated = result.response.finishReason === "length";
+      if (!truncated || continuations >= MAX_CONTINUATIONS) {
+        return {
+          content,
+          model,
+          failedModels: [...failedModels],
+          transportRetries,
+          continuations,
+          truncated,
+        };
+      }
+
+      progressCallback?.(
+        `Response truncated, continuing (${continuations + 1}/${MAX_CONTINUATIONS})...`
+      );
+      // A fallback model may have a smaller window than the requested one
+      const budget = getModelContextLength(model) - modeSettings.maxTokens;
+      messages = buildContinuationMessages(baseMessages, content, budget);
+    }
   } catch (error) {
     console.error("AI call failed:", error);
     throw error;
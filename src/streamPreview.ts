@@ -0,0 +1,118 @@
+import * as vscode from "vscode";
+
+/* ============================================================
+ * Stream Preview - Ghost Text While AI Responds
+ * ============================================================
+ * Renders streamed code as faded "ghost" text next to the lines
+ * of the range being fixed. Nothing is written to the document;
+ * the final text still goes through validation and apply.
+ */
+
+const UPDATE_INTERVAL = 100; // ms between decoration refreshes
+const MAX_LINE_LENGTH = 200;
+
+export class StreamPreview {
+  private ghostDecoration: vscode.TextEditorDecorationType;
+  private dimDecoration: vscode.TextEditorDecorationType;
+  private pendingText: string | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private disposed = false;
+
+  constructor(
+    private editor: vscode.TextEditor,
+    private range: vscode.Range
+  ) {
+    this.ghostDecoration = vscode.window.createTextEditorDecorationType({
+      after: {
+        color: new vscode.ThemeColor("editorGhostText.foreground"),
+        fontStyle: "italic",
+        margin: "0 0 0 2em",
+      },
+    });
+
+    // Fade the original code so the ghost text stands out
+    this.dimDecoration = vscode.window.createTextEditorDecorationType({
+      opacity: "0.4",
+    });
+  }
+
+  /**
+   * Queue a preview refresh with the text accumulated so far
+   */
+  update(text: string): void {
+    if (this.disposed) {
+      return;
+    }
+
+    this.pendingText = text;
+
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.render();
+      }, UPDATE_INTERVAL);
+    }
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.ghostDecoration.dispose();
+    this.dimDecoration.dispose();
+  }
+
+  /**
+   * Render one ghost line per line of the target range. Extra
+   * streamed lines are summarized on the last line.
+   */
+  private render(): void {
+    if (this.disposed || this.pendingText === null || !this.isEditorUsable()) {
+      return;
+    }
+
+    const streamedLines = this.pendingText.split("\n");
+    const firstLine = this.range.start.line;
+    const lastLine = Math.min(
+      Math.max(firstLine, this.range.end.line),
+      this.editor.document.lineCount - 1
+    );
+    const options: vscode.DecorationOptions[] = [];
+
+    for (let line = firstLine; line <= lastLine; line++) {
+      const index = line - firstLine;
+      if (index >= streamedLines.length) {
+        break;
+      }
+
+      let contentText = truncate(streamedLines[index]);
+      if (line === lastLine && streamedLines.length > index + 1) {
+        contentText += `  … (+${streamedLines.length - index - 1} more lines)`;
+      }
+
+      const textLine = this.editor.document.lineAt(line);
+      options.push({
+        range: new vscode.Range(textLine.range.end, textLine.range.end),
+        renderOptions: {
+          after: { contentText: contentText || " " },
+        },
+      });
+    }
+
+    this.editor.setDecorations(this.dimDecoration, [this.range]);
+    this.editor.setDecorations(this.ghostDecoration, options);
+  }
+
+  private isEditorUsable(): boolean {
+    return !this.editor.document.isClosed;
+  }
+}
+
+function truncate(line: string): string {
+  const expanded = line.replace(/\t/g, "  ");
+  return expanded.length > MAX_LINE_LENGTH
+    ? expanded.slice(0, MAX_LINE_LENGTH) + "…"
+    : expanded;
+}
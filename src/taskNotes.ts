@@ -7,6 +7,7 @@
 
 import * as fs from "fs";
 import * as path from "path";
+import type { TokenUsage } from "./usageTracker";
 
 export interface TaskNote {
   timestamp: Date;
@@ -35,9 +36,16 @@ export interface TaskNote {
     retries: number;
     errors?: string[];
   };
-  complexity: "instant" | "smart" | "deep";
+  complexity: "instant" | "smart" | "deep" | "agent";
   executionTime: number;
-  result: "success" | "failed";
+  usage?: TokenUsage;
+  contextTrimmed?: string; // Prompt sections cut to fit the context window
+  model?: {
+    used: string; // Model that produced the code
+    failedModels: string[]; // Unavailable models skipped before it
+    transportRetries: number;
+  };
+  result: "success" | "failed" | "cancelled";
   errorMessage?: string;
 }
 
@@ -68,10 +76,13 @@ export function generateTaskSummary(note: TaskNote): string {
   lines.push("");
 
   // Status badge
-  const statusEmoji = note.result === "success" ? "✅" : "❌";
+  const statusEmoji =
+    note.result === "success" ? "✅" :
+    note.result === "cancelled" ? "⏹️" : "❌";
   const complexityEmoji =
     note.complexity === "instant" ? "⚡" :
-    note.complexity === "smart" ? "🧠" : "🔬";
+    note.complexity === "smart" ? "🧠" :
+    note.complexity === "agent" ? "🤖" : "🔬";
 
   lines.push(`**Status:** ${statusEmoji} ${note.result.toUpperCase()} | **Mode:** ${complexityEmoji} ${note.complexity.toUpperCase()} | **Time:** ${note.executionTime.toFixed(2)}s`);
   lines.push("");
@@ -86,6 +97,19 @@ export function generateTaskSummary(note: TaskNote): string {
   lines.push(`- **File:** \`${note.codeContext.fileName}\``);
   lines.push(`- **Language:** ${note.codeContext.language}`);
   lines.push(`- **Lines:** ${note.codeContext.linesModified} lines`);
+  if (note.model) {
+    const fallback =
+      note.model.failedModels.length > 0
+        ? ` (fallback - ${note.model.failedModels.join(", ")} unavailable)`
+        : "";
+    lines.push(`- **Model:** \`${note.model.used}\`${fallback}`);
+    if (note.model.transportRetries > 0) {
+      lines.push(`- **Transport Retries:** ${note.model.transportRetries} (rate limits / network)`);
+    }
+  }
+  if (note.contextTrimmed) {
+    lines.push(`- **Context Trimmed:** ${note.contextTrimmed}`);
+  }
   lines.push("");
 
   // What I Did
@@ -154,9 +178,26 @@ export function generateTaskSummary(note: TaskNote): string {
     lines.push("");
   }
 
-  // Validation
+  // Token Usage
+  if (note.usage && note.usage.totalTokens > 0) {
+    lines.push(`### 💰 Token Usage`);
+    if (!note.model) {
+      lines.push(`- **Model:** \`${note.usage.model}\``);
+    }
+    lines.push(`- **Prompt Tokens:** ${note.usage.promptTokens.toLocaleString()}`);
+    lines.push(`- **Completion Tokens:** ${note.usage.completionTokens.toLocaleString()}`);
+    if (note.usage.cacheReadTokens > 0) {
+      lines.push(`- **Cached Prompt Tokens:** ${note.usage.cacheReadTokens.toLocaleString()} (saved $${note.usage.cacheSavings.toFixed(4)})`);
+    }
+    lines.push(`- **Cost:** $${note.usage.cost.toFixed(4)}`);
+    lines.push("");
+  }
+
+  // Validation (no code to validate when cancelled)
   lines.push(`### 🛡️ Code Validation`);
-  if (note.validation.passed) {
+  if (note.result === "cancelled") {
+    lines.push(`- ⏹️ **Skipped** - Request cancelled before validation finished`);
+  } else if (note.validation.passed) {
     lines.push(`- ✅ **Passed** - Clean, error-free code generated`);
   } else {
     lines.push(`- ❌ **Failed** - Code has errors`);
@@ -183,6 +224,11 @@ export function generateTaskSummary(note: TaskNote): string {
     if (note.whatIDid.length > 0) {
       lines.push(`- ${note.whatIDid.length} action(s) performed`);
     }
+  } else if (note.result === "cancelled") {
+    lines.push(`⏹️ **Task cancelled by user**`);
+    if (hasChanges) {
+      lines.push(`- Actions completed before cancellation are listed above`);
+    }
   } else {
     lines.push(`❌ **Task failed**`);
     if (note.errorMessage) {
@@ -307,7 +353,7 @@ export async function getTaskNotesStats(
  */
 export function extractWhatIDid(
   userPrompt: string,
-  complexity: "instant" | "smart" | "deep",
+  complexity: "instant" | "smart" | "deep" | "agent",
   validationPassed: boolean,
   retries: number,
   webSearchUsed: boolean
@@ -338,7 +384,9 @@ export function extractWhatIDid(
   }
 
   // Add complexity-based analysis
-  if (complexity === "deep") {
+  if (complexity === "agent") {
+    actions.push("Ran a multi-turn agent that explored the project with tools");
+  } else if (complexity === "deep") {
     actions.push("Performed deep analysis of project context");
   } else if (complexity === "smart") {
     actions.push("Used cached project context for faster response");
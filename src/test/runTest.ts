@@ -0,0 +1,29 @@
+import * as path from "path";
+import { runTests } from "@vscode/test-electron";
+
+/* ============================================================
+ * Test Runner
+ * ============================================================
+ * Downloads VS Code and runs the Mocha suites in out/test/suite
+ * inside the extension host, where the vscode API the modules
+ * use is available. AI responses come from the mock provider,
+ * so the tests need no API key and make no AI requests.
+ */
+
+async function main(): Promise<void> {
+  try {
+    const extensionDevelopmentPath = path.resolve(__dirname, "../../");
+    const extensionTestsPath = path.resolve(__dirname, "./suite/index");
+
+    await runTests({
+      extensionDevelopmentPath,
+      extensionTestsPath,
+      launchArgs: ["--disable-extensions"],
+    });
+  } catch (error) {
+    console.error("Failed to run tests:", error);
+    process.exit(1);
+  }
+}
+
+main();
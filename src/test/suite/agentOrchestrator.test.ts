@@ -0,0 +1,147 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { executeEnhancedAgent, fitConversationToContext } from "../../agentOrchestrator";
+import { ChatMessage, ChatRequest, ChatResponse, LLMProvider } from "../../llmClient";
+import { estimateMessagesTokens, registerModelContextLengths } from "../../tokenBudget";
+
+/* ============================================================
+ * Agent Orchestrator - Context Window Budget
+ * ============================================================
+ */
+
+const LARGE_RESULT = "x".repeat(8000); // ~2000 tokens
+
+function createConversation(): ChatMessage[] {
+  return [
+    { role: "system", content: "You are an agent." },
+    { role: "user", content: "Fix a.ts" },
+    {
+      role: "assistant",
+      content: "",
+      toolCalls: [{ id: "call-1", name: "read_file", arguments: "{\"filePath\":\"a.ts\"}" }],
+    },
+    { role: "tool", toolCallId: "call-1", content: LARGE_RESULT },
+    {
+      role: "assistant",
+      content: "",
+      toolCalls: [{ id: "call-2", name: "read_file", arguments: "{\"filePath\":\"b.ts\"}" }],
+    },
+    { role: "tool", toolCallId: "call-2", content: LARGE_RESULT },
+    { role: "assistant", content: "Both files read." },
+  ];
+}
+
+/**
+ * Provider that answers from a list and keeps every request it was sent
+ */
+function createCapturingProvider(
+  responses: ChatResponse[]
+): LLMProvider & { requests: ChatRequest[] } {
+  const requests: ChatRequest[] = [];
+  const chat = async (request: ChatRequest): Promise<ChatResponse> => {
+    requests.push(request);
+    const response = responses.shift();
+    if (!response) {
+      throw new Error("No response left");
+    }
+    return response;
+  };
+
+  return {
+    type: "openai-compatible",
+    baseUrl: "http://127.0.0.1",
+    requests,
+    chat,
+    chatStream: (request) => chat(request),
+  };
+}
+
+suite("Agent orchestrator context window", () => {
+  test("keeps the conversation unchanged within the budget", () => {
+    const messages = createConversation();
+
+    assert.strictEqual(fitConversationToContext(messages, 100000), messages);
+  });
+
+  test("trims older tool results before dropping any turn", () => {
+    const fitted = fitConversationToContext(createConversation(), 2000);
+
+    assert.strictEqual(fitted.length, 7);
+    assert.match(fitted[3].content, /truncated/);
+    assert.match(fitted[5].content, /truncated/);
+    assert.ok(estimateMessagesTokens(fitted) <= 2000);
+  });
+
+  test("summarizes the oldest turns and keeps the system prompt and task", () => {
+    const fitted = fitConversationToContext(createConversation(), 800);
+
+    assert.deepStrictEqual(
+      fitted.slice(0, 2).map((message) => message.content),
+      ["You are an agent.", "Fix a.ts"]
+    );
+    assert.match(fitted[2].content, /^\[Earlier conversation summarized/);
+    assert.match(fitted[2].content, /Called read_file/);
+    // The remaining native call still comes with its result
+    assert.strictEqual(fitted[3].toolCalls?.[0].id, "call-2");
+    assert.strictEqual(fitted[4].toolCallId, "call-2");
+    assert.ok(!fitted.some((message) => message.toolCallId === "call-1"));
+  });
+
+  test("caps the response tokens so the conversation keeps its budget", async () => {
+    const workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), "fixcode-test-"));
+    fs.writeFileSync(path.join(workspacePath, "a.ts"), "const a = 1;\n".repeat(200));
+    registerModelContextLengths([{ id: "test/small-model", context_length: 32768 }]);
+
+    const readFile = (id: string): ChatResponse => ({
+      content: "",
+      model: "test/small-model",
+      finishReason: "tool_calls",
+      toolCalls: [{ id, name: "read_file", arguments: "{\"filePath\":\"a.ts\"}" }],
+    });
+    const provider = createCapturingProvider([
+      readFile("call-1"),
+      readFile("call-2"),
+      {
+        content: "<final_code>\nconst a = 2;\n</final_code>",
+        model: "test/small-model",
+        finishReason: "stop",
+      },
+    ]);
+
+    try {
+      const result = await executeEnhancedAgent({
+        type: "fix",
+        instruction: "Fix a.ts",
+        context: {
+          workspacePath,
+          currentFile: path.join(workspacePath, "a.ts"),
+          selectedCode: "const a = 1;",
+        },
+        config: {
+          apiKey: "",
+          model: "test/small-model",
+          provider,
+          maxTokens: 65536, // Larger than the whole window
+          maxTurns: 5,
+          enableTools: true,
+          enableReasoning: true,
+          streamResponse: false,
+          transportRetries: 0,
+        },
+      });
+
+      assert.strictEqual(result.success, true, result.error);
+      assert.strictEqual(provider.requests.length, 3);
+      for (const request of provider.requests) {
+        assert.strictEqual(request.maxTokens, 16384);
+        assert.ok(
+          !request.messages.some((message) => message.content.startsWith("[Earlier conversation"))
+        );
+      }
+    } finally {
+      fs.rmSync(workspacePath, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,130 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { aggregateEvalResults, EvalRunResult, loadEvalTasks, runEvalTask } from "../../evalHarness";
+import { ReplayProvider } from "../../replayProvider";
+import { SmartAgentConfig } from "../../smartAgent";
+
+/* ============================================================
+ * Evaluation Harness - Aggregating Runs
+ * ============================================================
+ */
+
+function createRun(
+  model: string,
+  mode: string,
+  passed: boolean,
+  overrides: Partial<EvalRunResult> = {}
+): EvalRunResult {
+  return {
+    task: "task",
+    model,
+    mode,
+    passed,
+    failures: passed ? [] : ["validator: errors"],
+    validationScore: passed ? 100 : 60,
+    retries: passed ? 0 : 2,
+    tokens: 1000,
+    cost: 0.01,
+    time: 2,
+    ...overrides,
+  };
+}
+
+suite("Eval harness aggregation", () => {
+  test("groups runs by model and mode with an all row per model", () => {
+    const summaries = aggregateEvalResults([
+      createRun("model-b", "smart", true),
+      createRun("model-a", "smart", true),
+      createRun("model-a", "deep", false, { time: 6 }),
+      createRun("model-a", "smart", false),
+    ]);
+
+    assert.deepStrictEqual(
+      summaries.map((summary) => [summary.model, summary.mode, summary.runs, summary.passed]),
+      [
+        ["model-a", "deep", 1, 0],
+        ["model-a", "smart", 2, 1],
+        ["model-a", "all", 3, 1],
+        ["model-b", "smart", 1, 1],
+        ["model-b", "all", 1, 1],
+      ]
+    );
+  });
+
+  test("averages scores and times and sums retries, tokens and cost", () => {
+    const [smart] = aggregateEvalResults([
+      createRun("model-a", "smart", true, { time: 1 }),
+      createRun("model-a", "smart", false, { time: 3, tokens: 500, cost: 0.02 }),
+    ]);
+
+    assert.strictEqual(smart.passRate, 0.5);
+    assert.strictEqual(smart.avgScore, 80);
+    assert.strictEqual(smart.avgTime, 2);
+    assert.strictEqual(smart.retries, 2);
+    assert.strictEqual(smart.tokens, 1500);
+    assert.ok(Math.abs(smart.cost - 0.03) < 1e-9);
+  });
+
+  test("returns no rows without runs", () => {
+    assert.deepStrictEqual(aggregateEvalResults([]), []);
+  });
+});
+
+suite("Eval harness command checks", () => {
+  let evalDir: string;
+
+  setup(() => {
+    evalDir = fs.mkdtempSync(path.join(os.tmpdir(), "fixcode-eval-test-"));
+    fs.writeFileSync(path.join(evalDir, "add.ts"), "export function add(a, b) { return a + b; }\n");
+  });
+
+  teardown(() => {
+    fs.rmSync(evalDir, { recursive: true, force: true });
+  });
+
+  async function runWithCommand(command: string, allowCommands?: boolean): Promise<EvalRunResult> {
+    fs.writeFileSync(
+      path.join(evalDir, "add.task.json"),
+      JSON.stringify({ file: "add.ts", prompt: "add types", mode: "smart", expect: { command } })
+    );
+    const [task] = await loadEvalTasks(evalDir);
+    const config: SmartAgentConfig = {
+      apiKey: "",
+      model: "mock-model",
+      provider: new ReplayProvider({
+        mode: "mock",
+        fixtureDir: evalDir,
+        script: {
+          responses: [{ content: "export const add = (a: number, b: number): number => a + b;" }],
+        },
+      }),
+      workspacePath: evalDir,
+      currentFile: "",
+      selectedCode: "",
+      fullFileContent: "",
+      userPrompt: "",
+      transportRetries: 0,
+    };
+    return runEvalTask(task, config, undefined, undefined, { allowCommands });
+  }
+
+  test("does not run commands unless script execution is allowed", async () => {
+    const marker = path.join(evalDir, "ran");
+    const result = await runWithCommand(`node -e "require('fs').writeFileSync(process.argv[1], '')" "${marker}"`);
+
+    assert.strictEqual(result.passed, false);
+    assert.match(result.failures[0], /Command check not run .* enable fixCode\.allowScriptExecution/);
+    assert.strictEqual(fs.existsSync(marker), false);
+  });
+
+  test("passes on exit code 0 and reports the output otherwise", async () => {
+    const passed = await runWithCommand(`node -e "process.exit(0)"`, true);
+    const failed = await runWithCommand(`node -e "console.error('types missing'); process.exit(1)"`, true);
+
+    assert.deepStrictEqual(passed.failures, []);
+    assert.strictEqual(failed.passed, false);
+    assert.match(failed.failures[0], /^Command failed: .*\ntypes missing$/);
+  });
+});
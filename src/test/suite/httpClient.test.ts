@@ -0,0 +1,143 @@
+import * as assert from "assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { URL } from "url";
+import { configureHttp, getProxyForUrl, httpFetch, TooManyRedirectsError } from "../../httpClient";
+
+/* ============================================================
+ * HTTP Client - No-Proxy Hosts and Redirects
+ * ============================================================
+ */
+
+const PROXY_VARIABLES = ["HTTP_PROXY", "http_proxy", "HTTPS_PROXY", "https_proxy", "NO_PROXY", "no_proxy"];
+
+interface ReceivedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+/**
+ * Local server answering with handle(); every request it got is kept
+ */
+async function startServer(
+  handle: (req: http.IncomingMessage, res: http.ServerResponse) => void
+): Promise<{ server: http.Server; origin: string; requests: ReceivedRequest[] }> {
+  const requests: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    requests.push({ method: req.method || "", url: req.url || "", headers: req.headers });
+    req.resume();
+    req.on("end", () => handle(req, res));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return { server, origin: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests };
+}
+
+function redirect(res: http.ServerResponse, status: number, location: string): void {
+  res.writeHead(status, { Location: location });
+  res.end();
+}
+
+suite("HTTP client", () => {
+  const savedEnv: Record<string, string | undefined> = {};
+  const servers: http.Server[] = [];
+
+  setup(() => {
+    for (const name of PROXY_VARIABLES) {
+      savedEnv[name] = process.env[name];
+      delete process.env[name];
+    }
+    configureHttp({});
+  });
+
+  teardown(() => {
+    for (const name of PROXY_VARIABLES) {
+      if (savedEnv[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = savedEnv[name];
+      }
+    }
+    configureHttp({});
+    servers.splice(0).forEach((server) => server.close());
+  });
+
+  test("skips the proxy for hosts listed in noProxy", () => {
+    configureHttp({
+      proxy: "proxy.corp:3128",
+      noProxy: ["localhost", ".internal.corp", "*.example.com", "api.local:8443"],
+    });
+    const proxied = (url: string) => getProxyForUrl(new URL(url))?.href ?? null;
+
+    assert.strictEqual(proxied("https://openrouter.ai/api"), "http://proxy.corp:3128/");
+    assert.strictEqual(proxied("http://localhost:1234/v1"), null);
+    assert.strictEqual(proxied("https://llm.internal.corp"), null);
+    assert.strictEqual(proxied("https://internal.corp"), null);
+    assert.strictEqual(proxied("https://a.b.example.com"), null);
+    assert.strictEqual(proxied("https://notexample.com"), "http://proxy.corp:3128/");
+    assert.strictEqual(proxied("https://api.local:8443"), null);
+    assert.strictEqual(proxied("https://api.local"), "http://proxy.corp:3128/");
+  });
+
+  test("reads the proxy and no-proxy hosts from the environment", () => {
+    process.env.HTTPS_PROXY = "http://env-proxy:8080";
+    process.env.NO_PROXY = "localhost, .corp";
+
+    assert.strictEqual(getProxyForUrl(new URL("https://openrouter.ai"))?.host, "env-proxy:8080");
+    assert.strictEqual(getProxyForUrl(new URL("http://openrouter.ai")), null);
+    assert.strictEqual(getProxyForUrl(new URL("https://llm.corp")), null);
+
+    process.env.NO_PROXY = "*";
+    assert.strictEqual(getProxyForUrl(new URL("https://openrouter.ai")), null);
+  });
+
+  test("follows redirects and continues a POST as GET after 303", async () => {
+    const { server, origin, requests } = await startServer((req, res) => {
+      if (req.url === "/start") {
+        redirect(res, 303, "/moved");
+      } else {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ ok: true }));
+      }
+    });
+    servers.push(server);
+
+    const response = await httpFetch(`${origin}/start`, {
+      method: "POST",
+      headers: { Authorization: "Bearer secret" },
+      body: "{}",
+    });
+
+    assert.strictEqual(response.status, 200);
+    assert.deepStrictEqual(await response.json(), { ok: true });
+    assert.deepStrictEqual(
+      requests.map((request) => [request.method, request.url]),
+      [["POST", "/start"], ["GET", "/moved"]]
+    );
+    assert.strictEqual(requests[1].headers.authorization, "Bearer secret");
+  });
+
+  test("drops credentials when a redirect leaves the origin", async () => {
+    const target = await startServer((_req, res) => res.end("ok"));
+    const start = await startServer((_req, res) => redirect(res, 307, `${target.origin}/data`));
+    servers.push(target.server, start.server);
+
+    const response = await httpFetch(`${start.origin}/data`, {
+      headers: { Authorization: "Bearer secret", "X-Api-Key": "key", Accept: "text/plain" },
+    });
+
+    assert.strictEqual(await response.text(), "ok");
+    assert.strictEqual(start.requests[0].headers.authorization, "Bearer secret");
+    assert.strictEqual(target.requests[0].headers.authorization, undefined);
+    assert.strictEqual(target.requests[0].headers["x-api-key"], undefined);
+    assert.strictEqual(target.requests[0].headers.accept, "text/plain");
+  });
+
+  test("stops after maxRedirects", async () => {
+    const { server, origin, requests } = await startServer((_req, res) => redirect(res, 302, "/again"));
+    servers.push(server);
+
+    await assert.rejects(httpFetch(`${origin}/loop`, { maxRedirects: 2 }), TooManyRedirectsError);
+    assert.strictEqual(requests.length, 3);
+  });
+});
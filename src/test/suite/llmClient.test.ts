@@ -0,0 +1,139 @@
+import * as assert from "assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { AnthropicProvider, ChatMessage } from "../../llmClient";
+
+/* ============================================================
+ * Anthropic Provider - Extended Thinking with Tools
+ * ============================================================
+ */
+
+const THINKING = { type: "thinking", thinking: "Read the file first.", signature: "sig-1" };
+const REDACTED = { type: "redacted_thinking", data: "encrypted" };
+
+suite("Anthropic provider", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: any[];
+  let reply: (body: any, res: http.ServerResponse) => void;
+
+  suiteSetup(async () => {
+    server = http.createServer((req, res) => {
+      let data = "";
+      req.on("data", (chunk) => (data += chunk));
+      req.on("end", () => {
+        const body = JSON.parse(data);
+        requests.push(body);
+        reply(body, res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  suiteTeardown(() => {
+    server.close();
+  });
+
+  setup(() => {
+    requests = [];
+  });
+
+  function replyJson(response: unknown): void {
+    reply = (_body, res) => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(response));
+    };
+  }
+
+  function replyEvents(events: unknown[]): void {
+    reply = (_body, res) => {
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      res.end(events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join(""));
+    };
+  }
+
+  test("sends thinking blocks back unchanged with the tool results", async () => {
+    const provider = new AnthropicProvider({ apiKey: "test", baseUrl });
+    const messages: ChatMessage[] = [
+      { role: "system", content: "You are an agent." },
+      { role: "user", content: "Fix a.ts" },
+    ];
+
+    replyJson({
+      model: "claude-sonnet-4-5",
+      stop_reason: "tool_use",
+      content: [
+        THINKING,
+        REDACTED,
+        { type: "tool_use", id: "call-1", name: "read_file", input: { filePath: "a.ts" } },
+      ],
+      usage: { input_tokens: 10, output_tokens: 5 },
+    });
+    const first = await provider.chat({
+      model: "claude-sonnet-4-5",
+      messages,
+      maxTokens: 8192,
+      reasoningEffort: "low",
+    });
+
+    assert.deepStrictEqual(first.thinking, [THINKING, REDACTED]);
+    assert.strictEqual(requests[0].thinking.type, "enabled");
+
+    replyJson({
+      model: "claude-sonnet-4-5",
+      stop_reason: "end_turn",
+      content: [{ type: "text", text: "Done" }],
+    });
+    await provider.chat({
+      model: "claude-sonnet-4-5",
+      messages: [
+        ...messages,
+        { role: "assistant", content: first.content, toolCalls: first.toolCalls, thinking: first.thinking },
+        { role: "tool", toolCallId: "call-1", content: "const a = 1;" },
+      ],
+      maxTokens: 8192,
+      reasoningEffort: "low",
+    });
+
+    const assistant = requests[1].messages[1];
+    assert.strictEqual(assistant.role, "assistant");
+    assert.deepStrictEqual(assistant.content, [
+      THINKING,
+      REDACTED,
+      { type: "tool_use", id: "call-1", name: "read_file", input: { filePath: "a.ts" } },
+    ]);
+  });
+
+  test("collects streamed thinking and its signature", async () => {
+    const provider = new AnthropicProvider({ apiKey: "test", baseUrl });
+
+    replyEvents([
+      { type: "message_start", message: { model: "claude-sonnet-4-5", usage: { input_tokens: 10 } } },
+      { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "" } },
+      { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "Read the " } },
+      { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "file first." } },
+      { type: "content_block_delta", index: 0, delta: { type: "signature_delta", signature: "sig-1" } },
+      { type: "content_block_start", index: 1, content_block: REDACTED },
+      { type: "content_block_start", index: 2, content_block: { type: "tool_use", id: "call-1", name: "read_file" } },
+      { type: "content_block_delta", index: 2, delta: { type: "input_json_delta", partial_json: "{\"filePath\":\"a.ts\"}" } },
+      { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 5 } },
+      { type: "message_stop" },
+    ]);
+    const response = await provider.chatStream(
+      {
+        model: "claude-sonnet-4-5",
+        messages: [{ role: "user", content: "Fix a.ts" }],
+        maxTokens: 8192,
+        reasoningEffort: "low",
+      },
+      () => undefined
+    );
+
+    assert.deepStrictEqual(response.thinking, [THINKING, REDACTED]);
+    assert.deepStrictEqual(response.toolCalls, [
+      { id: "call-1", name: "read_file", arguments: "{\"filePath\":\"a.ts\"}" },
+    ]);
+    assert.strictEqual(response.finishReason, "tool_calls");
+  });
+});
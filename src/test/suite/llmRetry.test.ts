@@ -0,0 +1,187 @@
+import * as assert from "assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { ChatRequest, ChatResponse, createProvider, LLMApiError, LLMProvider } from "../../llmClient";
+import { chatWithRetry, ModelsUnavailableError } from "../../llmRetry";
+
+/* ============================================================
+ * LLM Retry - Backoff, Retry-After and Model Fallback
+ * ============================================================
+ */
+
+const REQUEST: ChatRequest = { model: "model-a", messages: [{ role: "user", content: "Fix a.ts" }] };
+
+type Reply = ChatResponse | Error;
+
+/**
+ * Provider answering each model from its own list of replies
+ */
+function createScriptedProvider(
+  replies: Record<string, Reply[]>
+): LLMProvider & { calls: string[] } {
+  const calls: string[] = [];
+  const chat = async (request: ChatRequest): Promise<ChatResponse> => {
+    calls.push(request.model);
+    const reply = replies[request.model]?.shift();
+    if (!reply) {
+      throw new Error(`No reply left for ${request.model}`);
+    }
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    return reply;
+  };
+
+  return {
+    type: "openai-compatible",
+    baseUrl: "http://127.0.0.1",
+    calls,
+    chat,
+    chatStream: (request) => chat(request),
+  };
+}
+
+function answer(model: string): ChatResponse {
+  return { content: `answer from ${model}`, model, finishReason: "stop" };
+}
+
+suite("Chat with retry", () => {
+  test("waits for Retry-After before retrying a rate limit", async () => {
+    const provider = createScriptedProvider({
+      "model-a": [new LLMApiError(429, "slow down", 0), answer("model-a")],
+    });
+    const messages: string[] = [];
+
+    const result = await chatWithRetry(provider, REQUEST, {
+      onRetry: (message) => messages.push(message),
+    });
+
+    assert.strictEqual(result.response.content, "answer from model-a");
+    assert.strictEqual(result.transportRetries, 1);
+    assert.deepStrictEqual(result.failedModels, []);
+    assert.deepStrictEqual(messages, ["Rate limited (429) from model-a, retrying in 0s (1/3)..."]);
+  });
+
+  test("reads Retry-After from the provider response", async () => {
+    let requests = 0;
+    const server = http.createServer((req, res) => {
+      req.resume();
+      req.on("end", () => {
+        if (requests++ === 0) {
+          res.writeHead(429, { "Retry-After": "0" });
+          res.end("rate limited");
+          return;
+        }
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            model: "model-a",
+            choices: [{ message: { content: "fixed" }, finish_reason: "stop" }],
+          })
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    try {
+      const provider = createProvider({
+        type: "openai-compatible",
+        baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+        apiKey: "",
+      });
+      const result = await chatWithRetry(provider, REQUEST);
+
+      assert.strictEqual(result.response.content, "fixed");
+      assert.strictEqual(result.transportRetries, 1);
+      assert.strictEqual(requests, 2);
+    } finally {
+      server.close();
+    }
+  });
+
+  test("backs off after network errors", async () => {
+    const provider = createScriptedProvider({
+      "model-a": [new TypeError("fetch failed"), answer("model-a")],
+    });
+    const messages: string[] = [];
+    const startTime = Date.now();
+
+    const result = await chatWithRetry(provider, REQUEST, {
+      maxRetries: 1,
+      onRetry: (message) => messages.push(message),
+    });
+
+    assert.strictEqual(result.transportRetries, 1);
+    assert.ok(Date.now() - startTime >= 1000, "waited at least the base delay");
+    assert.match(messages[0], /^fetch failed from model-a, retrying in [12]s \(1\/1\)\.\.\.$/);
+  });
+
+  test("falls back to the next model once the retries are used up", async () => {
+    const provider = createScriptedProvider({
+      "model-a": [new LLMApiError(503, "overloaded", 0), new LLMApiError(503, "overloaded", 0)],
+      "model-b": [answer("model-b")],
+    });
+
+    const result = await chatWithRetry(provider, REQUEST, {
+      maxRetries: 1,
+      fallbackModels: ["model-b", "model-a"],
+    });
+
+    assert.deepStrictEqual(provider.calls, ["model-a", "model-a", "model-b"]);
+    assert.strictEqual(result.model, "model-b");
+    assert.strictEqual(result.response.content, "answer from model-b");
+    assert.deepStrictEqual(result.failedModels, ["model-a"]);
+  });
+
+  test("falls back at once when Retry-After is too long", async () => {
+    const provider = createScriptedProvider({
+      "model-a": [new LLMApiError(429, "quota", 5 * 60 * 1000)],
+      "model-b": [answer("model-b")],
+    });
+
+    const result = await chatWithRetry(provider, REQUEST, { fallbackModels: ["model-b"] });
+
+    assert.strictEqual(result.model, "model-b");
+    assert.strictEqual(result.transportRetries, 0);
+  });
+
+  test("throws ModelsUnavailableError when every model fails", async () => {
+    const provider = createScriptedProvider({
+      "model-a": [new LLMApiError(502, "bad gateway", 0)],
+      "model-b": [new LLMApiError(429, "rate limited", 0)],
+    });
+
+    await assert.rejects(
+      chatWithRetry(provider, REQUEST, { maxRetries: 0, fallbackModels: ["model-b"] }),
+      (error: unknown) =>
+        error instanceof ModelsUnavailableError &&
+        error.failures.map((failure) => failure.model).join() === "model-a,model-b"
+    );
+  });
+
+  test("does not retry or fall back on client errors", async () => {
+    const provider = createScriptedProvider({
+      "model-a": [new LLMApiError(400, "bad request")],
+      "model-b": [answer("model-b")],
+    });
+
+    await assert.rejects(
+      chatWithRetry(provider, REQUEST, { fallbackModels: ["model-b"] }),
+      (error: unknown) => error instanceof LLMApiError && error.status === 400
+    );
+    assert.deepStrictEqual(provider.calls, ["model-a"]);
+  });
+
+  test("stops waiting when the request is cancelled", async () => {
+    const controller = new AbortController();
+    const provider = createScriptedProvider({
+      "model-a": [new LLMApiError(429, "slow down", 30000)],
+    });
+    setTimeout(() => controller.abort(), 50);
+
+    await assert.rejects(
+      chatWithRetry(provider, { ...REQUEST, signal: controller.signal }),
+      /Cancelled by user/
+    );
+  });
+});
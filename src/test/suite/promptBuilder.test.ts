@@ -0,0 +1,81 @@
+import * as assert from "assert";
+import { buildPrompt, PromptBudgetError, PromptSection } from "../../promptBuilder";
+
+/* ============================================================
+ * Prompt Builder - Section Trimming
+ * ============================================================
+ */
+
+// ~tokens * 4 characters, the estimate tokenBudget uses
+function text(char: string, tokens: number): string {
+  return char.repeat(tokens * 4);
+}
+
+function createSections(): PromptSection[] {
+  return [
+    { label: "rules", target: "system", content: text("r", 100), priority: 0, cacheable: true },
+    { label: "format", target: "system", content: text("f", 10), priority: 0 },
+    { label: "task", target: "user", content: text("t", 50), priority: 0 },
+    { label: "file context", target: "user", content: text("c", 2000), priority: 1 },
+    { label: "web results", target: "user", content: text("w", 2000), priority: 2 },
+  ];
+}
+
+suite("Prompt builder", () => {
+  test("keeps every section in order when the prompt fits", () => {
+    const prompt = buildPrompt(createSections(), 10000, 1000);
+
+    assert.strictEqual(prompt.systemPrompt, text("r", 100) + text("f", 10));
+    assert.strictEqual(prompt.userPrompt, text("t", 50) + text("c", 2000) + text("w", 2000));
+    assert.deepStrictEqual(prompt.systemParts, [
+      { text: text("r", 100), cacheable: true },
+      { text: text("f", 10) },
+    ]);
+    assert.deepStrictEqual(prompt.report, {
+      contextLength: 10000,
+      maxTokens: 1000,
+      promptTokens: 4160,
+      dropped: [],
+      truncated: [],
+    });
+  });
+
+  test("truncates the highest priority number first", () => {
+    const prompt = buildPrompt(createSections(), 4000, 1000);
+
+    assert.deepStrictEqual(prompt.report.truncated, ["web results"]);
+    assert.deepStrictEqual(prompt.report.dropped, []);
+    assert.ok(prompt.userPrompt.includes(text("c", 2000)));
+    assert.match(prompt.userPrompt, /\[truncated ~\d+ tokens\]$/);
+    assert.ok(prompt.report.promptTokens <= 3000);
+  });
+
+  test("drops sections with less room than minTokens left", () => {
+    const prompt = buildPrompt(createSections(), 2500, 500);
+
+    assert.deepStrictEqual(prompt.report.dropped, ["web results"]);
+    assert.deepStrictEqual(prompt.report.truncated, ["file context"]);
+    assert.ok(!prompt.userPrompt.includes("w"));
+    assert.ok(prompt.userPrompt.startsWith(text("t", 50) + "c"));
+    assert.ok(prompt.report.promptTokens <= 2000);
+  });
+
+  test("uses a section's own truncate function", () => {
+    const sections = createSections();
+    sections[3].truncate = (_content, maxTokens) => `kept ${maxTokens}`;
+
+    const prompt = buildPrompt(sections, 2500, 500);
+
+    assert.ok(prompt.userPrompt.endsWith("kept 1824"));
+  });
+
+  test("throws when the sections that cannot be cut do not fit", () => {
+    assert.throws(
+      () => buildPrompt(createSections(), 1000, 900),
+      (error: unknown) =>
+        error instanceof PromptBudgetError &&
+        error.requiredTokens === 160 &&
+        error.availableTokens === 100
+    );
+  });
+});
@@ -0,0 +1,375 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  executePlan,
+  executeSmartAgent,
+  SmartAgentConfig,
+  SmartAgentResult,
+  truncateAroundSelection,
+} from "../../smartAgent";
+import { ExecutionPlan } from "../../planMode";
+import { ChatRequest, ChatResponse, LLMApiError, LLMProvider } from "../../llmClient";
+import { estimateMessagesTokens, registerModelContextLengths } from "../../tokenBudget";
+import { MockResponse, ReplayProvider } from "../../replayProvider";
+import { extractWhatIDid, TaskNote, writeTaskNote } from "../../taskNotes";
+
+/* ============================================================
+ * Smart Agent - End-to-End with the Mock Provider
+ * ============================================================
+ */
+
+const SELECTED_CODE = `export function add(a: number, b: number): number {
+  return a + b;
+}
+
+export function subtract(a: number, b: number): number {
+  return a - b;
+}
+`;
+
+const FIXED_CODE = `export const add = (a: number, b: number): number => a + b;
+
+export const subtract = (a: number, b: number): number => a - b;`;
+
+const BROKEN_CODE = `export const add = (a: number, b: number): number => a +* b;
+
+export const subtract = (a: number, b: number): number => a - b;`;
+
+const USAGE = { promptTokens: 100, completionTokens: 20, totalTokens: 120 };
+
+function createConfig(
+  responses: MockResponse[],
+  overrides: Partial<SmartAgentConfig> = {}
+): SmartAgentConfig {
+  return {
+    apiKey: "",
+    model: "mock-model",
+    provider: new ReplayProvider({
+      mode: "mock",
+      fixtureDir: os.tmpdir(),
+      script: { responses },
+    }),
+    workspacePath: null,
+    currentFile: path.join(os.tmpdir(), "math.ts"),
+    selectedCode: SELECTED_CODE,
+    fullFileContent: SELECTED_CODE,
+    userPrompt: "refactor to arrow functions",
+    enableWebSearch: false,
+    forceMode: "smart",
+    transportRetries: 0,
+    ...overrides,
+  };
+}
+
+function createPlan(titles: string[]): ExecutionPlan {
+  return {
+    summary: "Refactor in steps",
+    steps: titles.map((title, index) => ({
+      id: index + 1,
+      title,
+      description: title,
+      files: ["math.ts"],
+      actions: [],
+      approved: true,
+      status: "pending",
+    })),
+    risks: [],
+  };
+}
+
+function createNote(config: SmartAgentConfig, result: SmartAgentResult): TaskNote {
+  return {
+    timestamp: new Date(),
+    userRequest: config.userPrompt,
+    codeContext: { fileName: "math.ts", linesModified: 7, language: "ts" },
+    whatIDid: extractWhatIDid(
+      config.userPrompt,
+      result.mode || "smart",
+      !!result.validated,
+      result.retries || 0,
+      false
+    ),
+    changesMade: result.changesMade || {},
+    webSearchUsed: false,
+    validation: {
+      passed: !!result.validated,
+      retries: result.retries || 0,
+      errors: result.validationErrors,
+    },
+    complexity: result.mode || "smart",
+    executionTime: result.executionTime || 0,
+    usage: result.usage,
+    result: result.success ? "success" : "failed",
+    errorMessage: result.error,
+  };
+}
+
+suite("Smart Agent (mock provider)", () => {
+  let workspacePath: string;
+
+  setup(() => {
+    workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), "fixcode-test-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(workspacePath, { recursive: true, force: true });
+  });
+
+  test("returns validated code from the first response", async () => {
+    const result = await executeSmartAgent(
+      createConfig([{ content: FIXED_CODE, usage: USAGE }])
+    );
+
+    assert.strictEqual(result.success, true, result.error);
+    assert.strictEqual(result.code, FIXED_CODE);
+    assert.strictEqual(result.mode, "smart");
+    assert.strictEqual(result.validated, true);
+    assert.strictEqual(result.retries, 0);
+    assert.strictEqual(result.usage?.totalTokens, 120);
+  });
+
+  test("strips markdown fences from the response", async () => {
+    const result = await executeSmartAgent(
+      createConfig([{ content: "```typescript\n" + FIXED_CODE + "\n```" }])
+    );
+
+    assert.strictEqual(result.success, true, result.error);
+    assert.strictEqual(result.code, FIXED_CODE);
+  });
+
+  test("retries with the validation errors when the code does not parse", async () => {
+    const result = await executeSmartAgent(
+      createConfig([
+        { content: BROKEN_CODE, usage: USAGE },
+        // Only served when the retry prompt carries the errors
+        { match: "PREVIOUS ATTEMPT HAD ERRORS", content: FIXED_CODE, usage: USAGE },
+      ])
+    );
+
+    assert.strictEqual(result.success, true, result.error);
+    assert.strictEqual(result.code, FIXED_CODE);
+    assert.strictEqual(result.retries, 1);
+    assert.strictEqual(result.usage?.totalTokens, 240);
+  });
+
+  test("returns the invalid code for review once the retries are used up", async () => {
+    const result = await executeSmartAgent(
+      createConfig([{ content: BROKEN_CODE }, { content: BROKEN_CODE }], { maxRetries: 1 })
+    );
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.code, BROKEN_CODE);
+    assert.strictEqual(result.retries, 1);
+    assert.ok(result.validationErrors && result.validationErrors.length > 0);
+    assert.match(result.error || "", /validation failed after 1 retries/);
+  });
+
+  test("never returns output that is cut off as a success", async () => {
+    const result = await executeSmartAgent(
+      createConfig([{ content: "export const add = (a: number, b: number): number => {" }])
+    );
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.incomplete, true);
+  });
+
+  test("executes the action tags in the response", async () => {
+    const response = `// <action:create_folder path="src/generated" />\n${FIXED_CODE}`;
+    const result = await executeSmartAgent(
+      createConfig([{ content: response }], { workspacePath })
+    );
+
+    assert.strictEqual(result.success, true, result.error);
+    assert.deepStrictEqual(
+      result.actionsExecuted?.map((action) => [action.type, action.params.folderPath]),
+      [["create_folder", "src/generated"]]
+    );
+    assert.ok(fs.statSync(path.join(workspacePath, "src", "generated")).isDirectory());
+    assert.deepStrictEqual(result.changesMade?.foldersCreated, ["src/generated"]);
+  });
+
+  test("does not run actions when executeActions is false", async () => {
+    const response = `// <action:create_folder path="src/generated" />\n${FIXED_CODE}`;
+    const result = await executeSmartAgent(
+      createConfig([{ content: response }], { workspacePath, executeActions: false })
+    );
+
+    assert.strictEqual(result.success, true, result.error);
+    assert.deepStrictEqual(result.actionsExecuted, []);
+    assert.strictEqual(fs.existsSync(path.join(workspacePath, "src", "generated")), false);
+  });
+
+  test("writes task notes for each run, newest first", async () => {
+    const notesFile = "MAKURO_NOTE.md";
+    const first = createConfig(
+      [{ content: `// <action:create_folder path="src/generated" />\n${FIXED_CODE}`, usage: USAGE }],
+      { workspacePath }
+    );
+    const second = createConfig([{ content: BROKEN_CODE }, { content: BROKEN_CODE }], {
+      workspacePath,
+      maxRetries: 1,
+      userPrompt: "add error handling",
+    });
+
+    for (const config of [first, second]) {
+      const result = await executeSmartAgent(config);
+      const written = await writeTaskNote(createNote(config, result), {
+        enabled: true,
+        filePath: notesFile,
+        workspacePath,
+      });
+      assert.strictEqual(written.success, true, written.error);
+    }
+
+    const notes = fs.readFileSync(path.join(workspacePath, notesFile), "utf-8");
+    assert.ok(notes.startsWith("## 📝 Task Summary"));
+    assert.ok(notes.includes("# MAKURO Task Notes"));
+    assert.ok(notes.indexOf("> add error handling") < notes.indexOf("> refactor to arrow functions"));
+    assert.ok(notes.includes("src/generated"));
+    assert.ok(notes.includes("❌ FAILED"));
+    assert.ok(notes.includes("✅ SUCCESS"));
+  });
+
+  test("replays recorded responses without the real provider", async () => {
+    const fixtureDir = path.join(workspacePath, "fixtures");
+    const inner = new ReplayProvider({
+      mode: "mock",
+      fixtureDir,
+      script: { responses: [{ content: FIXED_CODE }] },
+    });
+
+    const recorded = await executeSmartAgent(
+      createConfig([], { provider: new ReplayProvider({ mode: "record", fixtureDir, inner }) })
+    );
+    const replayed = await executeSmartAgent(
+      createConfig([], { provider: new ReplayProvider({ mode: "replay", fixtureDir }) })
+    );
+
+    assert.strictEqual(recorded.success, true, recorded.error);
+    assert.strictEqual(fs.readdirSync(fixtureDir).length, 1);
+    assert.strictEqual(replayed.success, true, replayed.error);
+    assert.strictEqual(replayed.code, FIXED_CODE);
+  });
+
+  test("applies each plan step to the selection it was run on", async () => {
+    // The same code twice - only the second copy is selected
+    const fullFileContent = `// first copy\n${SELECTED_CODE}\n// second copy\n${SELECTED_CODE}`;
+    const plan = createPlan(["Use arrow functions", "Keep the exports"]);
+    const result = await executePlan(
+      createConfig(
+        [
+          { match: "Use arrow functions", content: FIXED_CODE },
+          // Only served when the file has the first step applied to the second copy
+          { match: `// second copy\n${FIXED_CODE}`, content: FIXED_CODE },
+        ],
+        {
+          fullFileContent,
+          selectionOffset: fullFileContent.lastIndexOf(SELECTED_CODE),
+        }
+      ),
+      plan
+    );
+
+    assert.strictEqual(result.success, true, result.error);
+    assert.strictEqual(result.code, FIXED_CODE);
+    assert.deepStrictEqual(plan.steps.map((step) => step.status), ["done", "done"]);
+  });
+
+  test("fails the plan when the selection is not in the file", async () => {
+    const plan = createPlan(["Use arrow functions"]);
+    const result = await executePlan(
+      createConfig([{ content: FIXED_CODE }], { fullFileContent: "export {};\n" }),
+      plan
+    );
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(plan.steps[0].status, "failed");
+    assert.match(result.error || "", /Could not locate the selected code/);
+  });
+
+  test("continues a fallback model's output within the fallback's window", async () => {
+    registerModelContextLengths([
+      { id: "test/large-model", context_length: 200000 },
+      { id: "test/small-model", context_length: 8192 },
+    ]);
+    const requests: ChatRequest[] = [];
+    const replies: Record<string, Array<ChatResponse | Error>> = {
+      "test/large-model": [new LLMApiError(503, "overloaded", 0)],
+      "test/small-model": [
+        {
+          // ~8000 tokens, more than the small window can take back
+          content: `export const a = 1;\n${"// step\n".repeat(4000)}`,
+          model: "test/small-model",
+          finishReason: "length",
+        },
+        { content: "export const b = 2;", model: "test/small-model", finishReason: "stop" },
+      ],
+    };
+    const chat = async (request: ChatRequest): Promise<ChatResponse> => {
+      requests.push(request);
+      const reply = replies[request.model].shift();
+      if (!reply || reply instanceof Error) {
+        throw reply || new Error(`No reply left for ${request.model}`);
+      }
+      return reply;
+    };
+    const provider: LLMProvider = {
+      type: "openai-compatible",
+      baseUrl: "http://127.0.0.1",
+      chat,
+      chatStream: (request) => chat(request),
+    };
+
+    const result = await executeSmartAgent(
+      createConfig([], {
+        provider,
+        fallbackModels: ["test/small-model"],
+        modeSettings: { smart: { model: "test/large-model", maxTokens: 2048, temperature: 0 } },
+      })
+    );
+
+    assert.strictEqual(result.success, true, result.error);
+    assert.strictEqual(result.continuations, 1);
+    assert.deepStrictEqual(
+      requests.map((request) => request.model),
+      ["test/large-model", "test/small-model", "test/small-model"]
+    );
+    assert.ok(estimateMessagesTokens(requests[2].messages) <= 8192 - 2048);
+  });
+});
+
+suite("File context around the selection", () => {
+  const filler = (label: string) =>
+    Array.from({ length: 40 }, (_, i) => `// ${label} line ${i + 1}`).join("\n");
+  const fileContent = `${filler("top")}\n${SELECTED_CODE}\n${filler("middle")}\n${SELECTED_CODE}\n${filler("bottom")}`;
+
+  test("keeps the lines around the selected occurrence", () => {
+    const context = truncateAroundSelection(
+      fileContent,
+      SELECTED_CODE,
+      fileContent.lastIndexOf(SELECTED_CODE),
+      100
+    );
+
+    assert.ok(context.includes("// middle line 40\nexport function add"));
+    assert.ok(context.includes("// bottom line 1"));
+    assert.ok(!context.includes("// top line"));
+    assert.match(context, /^\.\.\. \[\d+ lines above omitted\]/);
+  });
+
+  test("searches for the selection when the offset does not point at it", () => {
+    const context = truncateAroundSelection(fileContent, SELECTED_CODE, 5, 100);
+
+    assert.ok(context.includes("// top line 40\nexport function add"));
+  });
+
+  test("keeps the start of a selection that does not fit", () => {
+    const offset = fileContent.lastIndexOf(SELECTED_CODE);
+    const context = truncateAroundSelection(fileContent, SELECTED_CODE, offset, 20);
+
+    assert.ok(context.startsWith("... [88 lines above omitted]\nexport function add"));
+    assert.ok(!context.includes("// top line"));
+  });
+});
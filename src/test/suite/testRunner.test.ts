@@ -0,0 +1,154 @@
+import * as assert from "assert";
+import * as os from "os";
+import { parseTestReport, runTests } from "../../testRunner";
+
+/* ============================================================
+ * Test Runner - Filters and Report Parsing
+ * ============================================================
+ */
+
+const JEST_REPORT = {
+  numPassedTests: 1,
+  numFailedTests: 1,
+  numPendingTests: 1,
+  numTodoTests: 0,
+  testResults: [
+    {
+      name: "/repo/src/math.test.ts",
+      status: "failed",
+      assertionResults: [
+        { status: "passed", fullName: "math adds" },
+        {
+          status: "failed",
+          fullName: "math subtracts",
+          failureMessages: [
+            "Error: expect(received).toBe(expected)\n\nExpected: 1\nReceived: 3\n    at Object.<anonymous> (/repo/src/math.test.ts:12:5)",
+          ],
+        },
+      ],
+    },
+    {
+      name: "/repo/src/broken.test.ts",
+      status: "failed",
+      message: "Cannot find module './missing'",
+      assertionResults: [],
+    },
+  ],
+};
+
+const JUNIT_REPORT = `<?xml version="1.0" encoding="utf-8"?>
+<testsuites>
+  <testsuite name="pytest" tests="3">
+    <testcase classname="tests.test_math" name="test_add" file="tests/test_math.py" line="3" />
+    <testcase classname="tests.test_math" name="test_sub" file="tests/test_math.py" line="7">
+      <failure message="assert 3 == 1">tests/test_math.py:8: AssertionError</failure>
+    </testcase>
+    <testcase classname="tests.test_math" name="test_div"><skipped message="later" /></testcase>
+  </testsuite>
+</testsuites>`;
+
+const TAP_REPORT = `TAP version 13
+ok 1 - adds
+not ok 2 - subtracts
+  ---
+  message: 'values are not equal'
+  expected: 1
+  actual: 3
+  location: 'test/math.test.js:12:5'
+  ...
+ok 3 - divides # SKIP not yet
+1..3`;
+
+const PYTEST_OUTPUT = `============================= FAILURES =============================
+_____________________________ test_sub _____________________________
+
+    def test_sub():
+>       assert sub(3, 2) == 2
+E       assert 1 == 2
+E        +  where 1 = sub(3, 2)
+
+tests/test_math.py:8: AssertionError
+=========================== short test summary info ===========================
+FAILED tests/test_math.py::test_sub - assert 1 == 2
+========================= 1 failed, 2 passed in 0.05s =========================`;
+
+suite("Test runner", () => {
+  test("rejects filters the runner would read as options", async () => {
+    for (const filter of ["--config=evil.js", "-c", "a b", "a;rm", "$(id)"]) {
+      await assert.rejects(runTests(os.tmpdir(), { command: "true", filter }), /Invalid test filter/);
+    }
+  });
+
+  test("passes test files and pytest node ids through", async () => {
+    const result = await runTests(os.tmpdir(), {
+      command: `node -e "console.log('ok 1 - adds')"`,
+      filter: "tests/test_math.py::test_add[1-2]",
+    });
+
+    assert.strictEqual(result.format, "tap");
+    assert.strictEqual(result.passed, 1);
+    assert.strictEqual(result.exitCode, 0);
+  });
+
+  test("parses the Jest/Vitest JSON report after other output", () => {
+    const report = parseTestReport(`Running tests...\n${JSON.stringify(JEST_REPORT)}`);
+
+    assert.strictEqual(report.format, "json");
+    assert.deepStrictEqual([report.passed, report.failed, report.skipped], [1, 2, 1]);
+    assert.deepStrictEqual(report.failures[0], {
+      name: "math subtracts",
+      file: "/repo/src/math.test.ts",
+      line: 12,
+      message: "Error: expect(received).toBe(expected)",
+      diff: "Expected: 1\nReceived: 3",
+    });
+    assert.strictEqual(report.failures[1].name, "broken.test.ts");
+    assert.strictEqual(report.failures[1].message, "Cannot find module './missing'");
+  });
+
+  test("parses JUnit XML", () => {
+    const report = parseTestReport(JUNIT_REPORT);
+
+    assert.strictEqual(report.format, "junit");
+    assert.deepStrictEqual([report.passed, report.failed, report.skipped], [1, 1, 1]);
+    assert.deepStrictEqual(report.failures[0], {
+      name: "tests.test_math › test_sub",
+      file: "tests/test_math.py",
+      line: 7,
+      message: "assert 3 == 1",
+      diff: undefined,
+    });
+  });
+
+  test("parses TAP with YAML diagnostics", () => {
+    const report = parseTestReport(TAP_REPORT);
+
+    assert.strictEqual(report.format, "tap");
+    assert.deepStrictEqual([report.passed, report.failed, report.skipped], [1, 1, 1]);
+    assert.deepStrictEqual(report.failures[0], {
+      name: "subtracts",
+      file: "test/math.test.js",
+      line: 12,
+      message: "values are not equal",
+      diff: "Expected: 1\nActual: 3",
+    });
+  });
+
+  test("parses pytest console output", () => {
+    const report = parseTestReport(PYTEST_OUTPUT);
+
+    assert.strictEqual(report.format, "pytest");
+    assert.deepStrictEqual([report.passed, report.failed, report.skipped], [2, 1, 0]);
+    assert.deepStrictEqual(report.failures[0], {
+      name: "test_sub",
+      file: "tests/test_math.py",
+      line: 8,
+      message: "assert 1 == 2",
+      diff: "+  where 1 = sub(3, 2)",
+    });
+  });
+
+  test("reports unknown output as such", () => {
+    assert.strictEqual(parseTestReport("Done in 2s").format, "unknown");
+  });
+});
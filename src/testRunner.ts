@@ -0,0 +1,599 @@
+import * as path from "path";
+import * as os from "os";
+import * as fs from "fs/promises";
+import { exec } from "child_process";
+import { promisify } from "util";
+import type { Tool, ToolResult } from "./toolRegistry";
+
+const execAsync = promisify(exec);
+
+/* ============================================================
+ * Test Runner - Structured Test Results for the Agent
+ * ============================================================
+ * Runs the project's tests with a timeout and parses the report
+ * (Jest/Vitest JSON, JUnit XML, TAP or pytest output) into
+ * failures with file, line, message and diff. Without a
+ * configured command the runner is detected from package.json
+ * or the pytest config, and a machine-readable reporter is used.
+ */
+
+export interface TestRunnerSettings {
+  enabled: boolean; // fixCode.allowScriptExecution
+  command?: string; // Overrides detection; the report is parsed from its output
+  timeoutMs?: number;
+}
+
+export type TestReportFormat = "json" | "junit" | "tap" | "pytest" | "unknown";
+
+export interface TestFailure {
+  name: string;
+  file?: string;
+  line?: number;
+  message: string;
+  diff?: string; // Expected/actual lines when the runner reports them
+}
+
+export interface TestReport {
+  format: TestReportFormat;
+  passed: number;
+  failed: number;
+  skipped: number;
+  failures: TestFailure[];
+}
+
+export interface TestRunResult extends TestReport {
+  command: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  output: string; // Tail of stdout + stderr
+}
+
+const DEFAULT_TIMEOUT = 120000;
+const MAX_OUTPUT_CHARS = 8000;
+const MAX_REPORTED_FAILURES = 20;
+const MAX_MESSAGE_CHARS = 1500;
+// Test files, names and pytest node ids - nothing the shell would interpret,
+// and no leading "-" the runner would read as an option
+const FILTER_PATTERN = /^[\w./:@[\]][\w./:@[\]-]*$/;
+
+let settings: TestRunnerSettings = { enabled: false };
+
+/**
+ * Apply the fixCode test settings (called on activation and when they change)
+ */
+export function configureTestRunner(newSettings: TestRunnerSettings): void {
+  settings = newSettings;
+}
+
+/* ============================================================
+ * Running
+ * ============================================================
+ */
+
+interface TestCommand {
+  command: string;
+  reportFile?: string; // Written by the runner's JSON/JUnit reporter
+}
+
+/**
+ * Run the tests (optionally only those matching filter) and parse the report
+ */
+export async function runTests(
+  workspacePath: string,
+  options: { command?: string; filter?: string; timeoutMs?: number; signal?: AbortSignal } = {}
+): Promise<TestRunResult> {
+  if (options.filter && !FILTER_PATTERN.test(options.filter)) {
+    throw new Error(`Invalid test filter: ${options.filter}`);
+  }
+
+  const testCommand = options.command
+    ? { command: options.filter ? `${options.command} "${options.filter}"` : options.command }
+    : await detectTestCommand(workspacePath, options.filter);
+  const startTime = Date.now();
+  let stdout = "";
+  let stderr = "";
+  let exitCode: number | null = 0;
+  let timedOut = false;
+
+  try {
+    ({ stdout, stderr } = await execAsync(testCommand.command, {
+      cwd: workspacePath,
+      timeout: options.timeoutMs ?? DEFAULT_TIMEOUT,
+      maxBuffer: 20 * 1024 * 1024,
+      signal: options.signal,
+      env: { ...process.env, CI: "1", FORCE_COLOR: "0", NO_COLOR: "1" },
+    }));
+  } catch (error) {
+    if (options.signal?.aborted) {
+      throw new Error("Cancelled by user");
+    }
+    // Failing tests exit non-zero; the output still holds the report
+    const failure = (error instanceof Error ? error : {}) as {
+      stdout?: string;
+      stderr?: string;
+      message?: string;
+      code?: unknown;
+      killed?: boolean;
+    };
+    stdout = failure.stdout || "";
+    stderr = failure.stderr || failure.message || String(error);
+    exitCode = typeof failure.code === "number" ? failure.code : null;
+    timedOut = !!failure.killed && exitCode === null;
+  }
+
+  let report: TestReport | null = null;
+  if (testCommand.reportFile) {
+    try {
+      report = parseTestReport(await fs.readFile(testCommand.reportFile, "utf8"));
+    } catch {
+      // No report written (e.g. the runner crashed) - parse the console output
+    } finally {
+      fs.unlink(testCommand.reportFile).catch(() => undefined);
+    }
+  }
+
+  const output = stripAnsi(`${stdout}\n${stderr}`).trim();
+  if (!report || report.format === "unknown") {
+    report = parseTestReport(output);
+  }
+
+  return {
+    ...report,
+    failures: report.failures.map((failure) => ({
+      ...failure,
+      file: failure.file && path.isAbsolute(failure.file) ? path.relative(workspacePath, failure.file) : failure.file,
+    })),
+    command: testCommand.command,
+    exitCode,
+    timedOut,
+    durationMs: Date.now() - startTime,
+    output: output.length > MAX_OUTPUT_CHARS ? `...\n${output.slice(-MAX_OUTPUT_CHARS)}` : output,
+  };
+}
+
+/**
+ * Pick the test command from package.json or the pytest config
+ */
+async function detectTestCommand(workspacePath: string, filter?: string): Promise<TestCommand> {
+  const quotedFilter = filter ? ` "${filter}"` : "";
+  const reportBase = path.join(os.tmpdir(), `fixcode-tests-${process.pid}-${Date.now()}`);
+
+  const packageJson = await readJson(path.join(workspacePath, "package.json"));
+  if (packageJson) {
+    const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+    const testScript: string = packageJson.scripts?.test || "";
+
+    if (dependencies.vitest || /\bvitest\b/.test(testScript)) {
+      const reportFile = `${reportBase}.json`;
+      return { command: `npx vitest run --reporter=json --outputFile="${reportFile}"${quotedFilter}`, reportFile };
+    }
+    if (dependencies.jest || /\bjest\b/.test(testScript)) {
+      const reportFile = `${reportBase}.json`;
+      return { command: `npx jest --json --outputFile="${reportFile}"${quotedFilter}`, reportFile };
+    }
+    if (testScript) {
+      return { command: `npm test --silent${filter ? ` --${quotedFilter}` : ""}` };
+    }
+  }
+
+  const pytestConfigs = ["pytest.ini", "pyproject.toml", "setup.cfg", "tox.ini", "conftest.py"];
+  for (const config of pytestConfigs) {
+    const content = await fs.readFile(path.join(workspacePath, config), "utf8").catch(() => null);
+    if (content !== null && (config === "pytest.ini" || config === "conftest.py" || content.includes("pytest"))) {
+      const python = process.platform === "win32" ? "python" : "python3";
+      const reportFile = `${reportBase}.xml`;
+      return { command: `${python} -m pytest -q --junitxml="${reportFile}"${quotedFilter}`, reportFile };
+    }
+  }
+
+  throw new Error("No test runner found (package.json test script or pytest config) - set fixCode.testCommand");
+}
+
+async function readJson(filePath: string): Promise<any> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+/* ============================================================
+ * Report Parsing
+ * ============================================================
+ */
+
+/**
+ * Parse a test report, detecting its format
+ */
+export function parseTestReport(output: string): TestReport {
+  const json = extractJsonReport(output);
+  if (json) {
+    return parseJestJson(json);
+  }
+  if (/<testsuites?[\s>]/.test(output)) {
+    return parseJUnitXml(output);
+  }
+  if (/^TAP version \d+/m.test(output) || /^\s*(not )?ok \d+/m.test(output)) {
+    return parseTap(output);
+  }
+  if (/^=+ .*\b(passed|failed|errors?|no tests ran)\b.* in [\d.]+s/m.test(output) || /short test summary info/.test(output)) {
+    return parsePytest(output);
+  }
+  return { format: "unknown", passed: 0, failed: 0, skipped: 0, failures: [] };
+}
+
+/**
+ * The Jest --json / Vitest JSON report, alone or after other console output
+ */
+function extractJsonReport(output: string): any {
+  const start = output.indexOf('{"num');
+  const candidates = [output.trim(), start >= 0 ? output.slice(start, output.lastIndexOf("}") + 1) : ""];
+  for (const candidate of candidates) {
+    if (!candidate.startsWith("{")) {
+      continue;
+    }
+    try {
+      const report = JSON.parse(candidate);
+      if (Array.isArray(report.testResults)) {
+        return report;
+      }
+    } catch {
+      // Not JSON
+    }
+  }
+  return null;
+}
+
+function parseJestJson(report: any): TestReport {
+  const failures: TestFailure[] = [];
+
+  for (const suite of report.testResults) {
+    const assertions: any[] = suite.assertionResults || [];
+    for (const assertion of assertions) {
+      if (assertion.status !== "failed") {
+        continue;
+      }
+      const text = stripAnsi((assertion.failureMessages || []).join("\n"));
+      failures.push({
+        name: assertion.fullName || assertion.title,
+        file: suite.name,
+        line: assertion.location?.line ?? findLineInStack(text, suite.name),
+        message: firstParagraph(text),
+        diff: extractDiff(text),
+      });
+    }
+
+    // Suites that fail to load (syntax errors, missing modules) have no assertions
+    if (suite.status === "failed" && !assertions.some((assertion) => assertion.status === "failed")) {
+      const text = stripAnsi(suite.message || suite.failureMessage || "Test suite failed to run");
+      failures.push({
+        name: path.basename(suite.name || "test suite"),
+        file: suite.name,
+        line: findLineInStack(text, suite.name),
+        message: firstParagraph(text),
+      });
+    }
+  }
+
+  return {
+    format: "json",
+    passed: report.numPassedTests ?? 0,
+    failed: Math.max(report.numFailedTests ?? 0, failures.length),
+    skipped: (report.numPendingTests ?? 0) + (report.numTodoTests ?? 0),
+    failures,
+  };
+}
+
+function parseJUnitXml(xml: string): TestReport {
+  const failures: TestFailure[] = [];
+  let passed = 0;
+  let skipped = 0;
+  const testCasePattern = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = testCasePattern.exec(xml)) !== null) {
+    const attributes = parseXmlAttributes(match[1]);
+    const body = match[2] || "";
+    const problem = /<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/.exec(body);
+
+    if (problem) {
+      const problemAttributes = parseXmlAttributes(problem[2]);
+      const text = decodeXml((problem[3] || "").replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1"));
+      const location = /^([^\s:]+\.\w+):(\d+):/m.exec(text);
+      failures.push({
+        name: [attributes.classname, attributes.name].filter(Boolean).join(" › "),
+        file: attributes.file || location?.[1],
+        line: attributes.line ? Number(attributes.line) : location ? Number(location[2]) : undefined,
+        message: problemAttributes.message || firstParagraph(text) || problem[1],
+        diff: extractDiff(text),
+      });
+    } else if (/<skipped\b/.test(body)) {
+      skipped++;
+    } else {
+      passed++;
+    }
+  }
+
+  return { format: "junit", passed, failed: failures.length, skipped, failures };
+}
+
+function parseTap(output: string): TestReport {
+  const failures: TestFailure[] = [];
+  let passed = 0;
+  let skipped = 0;
+  const lines = output.split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    const result = /^(\s*)(not )?ok \d+(?: -)? ?(.*?)(?:\s+#\s*(SKIP|TODO)\b.*)?$/i.exec(lines[i]);
+    if (!result) {
+      continue;
+    }
+    if (result[4]) {
+      skipped++;
+      continue;
+    }
+    if (!result[2]) {
+      passed++;
+      continue;
+    }
+
+    // YAML diagnostics block: "  ---" ... "  ..."
+    const details: Record<string, string> = {};
+    if (lines[i + 1]?.trim() === "---") {
+      const baseIndent = lines[i + 1].search(/\S/);
+      let j = i + 2;
+      let key = "";
+      for (; j < lines.length && lines[j].trim() !== "..."; j++) {
+        const field = /^\s*(\w+):\s*(.*)$/.exec(lines[j]);
+        if (field && lines[j].search(/\S/) === baseIndent) {
+          key = field[1];
+          details[key] = field[2].replace(/^[|>][-+]?$/, "").replace(/^'(.*)'$/, "$1");
+        } else if (key) {
+          // Block scalars and nested values are indented below their key
+          details[key] += `${details[key] ? "\n" : ""}${lines[j].slice(baseIndent + 2).trimEnd()}`;
+        }
+      }
+      i = j;
+    }
+
+    // node:test also fails the parents of a failing subtest
+    if (details.failureType === "subtestsFailed") {
+      continue;
+    }
+    const location = /([^\s()'"]+\.\w+):(\d+)(?::\d+)?/.exec(details.location || details.at || details.stack || "");
+    const expected = details.expected ?? details.wanted;
+    const actual = details.actual ?? details.found;
+    failures.push({
+      name: result[3] || `test ${failures.length + 1}`,
+      file: location?.[1],
+      line: location ? Number(location[2]) : undefined,
+      message: details.message || details.error || "Test failed",
+      diff: expected || actual ? `Expected: ${expected}\nActual: ${actual}` : undefined,
+    });
+  }
+
+  return { format: "tap", passed, failed: failures.length, skipped, failures };
+}
+
+function parsePytest(output: string): TestReport {
+  const failures: TestFailure[] = [];
+  const lines = output.split("\n");
+  const sectionStart = lines.findIndex((line) => /^=+ (FAILURES|ERRORS) =+$/.test(line));
+
+  // "____ test_name ____" blocks in the FAILURES/ERRORS sections
+  if (sectionStart >= 0) {
+    let current: { name: string; lines: string[] } | null = null;
+    const flush = () => {
+      if (!current) {
+        return;
+      }
+      const errorLines = current.lines.filter((line) => line.startsWith("E ")).map((line) => line.replace(/^E {1,7}/, ""));
+      const location = current.lines
+        .map((line) => /^([^\s:]+\.py):(\d+): \w+/.exec(line))
+        .filter((found): found is RegExpExecArray => !!found)
+        .pop();
+      failures.push({
+        name: current.name,
+        file: location?.[1],
+        line: location ? Number(location[2]) : undefined,
+        message: errorLines[0] || "Test failed",
+        diff: errorLines.length > 1 ? errorLines.slice(1).join("\n").trim() : undefined,
+      });
+      current = null;
+    };
+
+    for (const line of lines.slice(sectionStart + 1)) {
+      const header = /^_{3,} (.+?) _{3,}$/.exec(line);
+      if (header) {
+        flush();
+        current = { name: header[1].replace(/^ERROR (at \w+ of )?/, ""), lines: [] };
+      } else if (/^=+ /.test(line)) {
+        flush();
+        if (!/^=+ (FAILURES|ERRORS) =+$/.test(line)) {
+          break;
+        }
+      } else {
+        current?.lines.push(line);
+      }
+    }
+    flush();
+  }
+
+  // -q runs without tracebacks still list "FAILED path::test - message"
+  if (failures.length === 0) {
+    for (const line of lines) {
+      const summary = /^(FAILED|ERROR) ([^\s:]+)(?:::(\S+))?(?: - (.*))?$/.exec(line);
+      if (summary) {
+        failures.push({ name: summary[3] || summary[2], file: summary[2], message: summary[4] || summary[1] });
+      }
+    }
+  }
+
+  const count = (label: string) => {
+    const found = new RegExp(`(\\d+) ${label}`).exec(lines.filter((line) => / in [\d.]+s/.test(line)).pop() || "");
+    return found ? Number(found[1]) : 0;
+  };
+  return {
+    format: "pytest",
+    passed: count("passed"),
+    failed: Math.max(count("failed") + count("errors?"), failures.length),
+    skipped: count("skipped") + count("xfailed"),
+    failures,
+  };
+}
+
+/* ============================================================
+ * Helpers
+ * ============================================================
+ */
+
+function parseXmlAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+    attributes[match[1]] = decodeXml(match[2]);
+  }
+  return attributes;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, "");
+}
+
+/**
+ * The error message without the stack trace
+ */
+function firstParagraph(text: string): string {
+  const paragraphs = text
+    .split("\n")
+    .filter((line) => !/^\s+at /.test(line))
+    .join("\n")
+    .trim()
+    .split(/\n\s*\n/);
+  // Jest puts "● Test suite failed to run" above the actual error
+  const message = (/^●/.test(paragraphs[0]) ? paragraphs.slice(0, 2).join("\n") : paragraphs[0]).trim();
+  return message.length > MAX_MESSAGE_CHARS ? `${message.slice(0, MAX_MESSAGE_CHARS)}...` : message;
+}
+
+/**
+ * Expected/received lines of an assertion error (Jest, Vitest, Node assert, pytest)
+ */
+function extractDiff(text: string): string | undefined {
+  const lines = text.split("\n");
+  const diffLines = lines.filter((line) =>
+    /^\s*(Expected|Received|Actual)\b.*:|^\s*[-+] |^\s*- Expected|^\s*\+ Received/.test(line)
+  );
+  if (diffLines.length === 0) {
+    return undefined;
+  }
+  const diff = diffLines.map((line) => line.trimEnd()).join("\n");
+  return diff.length > MAX_MESSAGE_CHARS ? `${diff.slice(0, MAX_MESSAGE_CHARS)}...` : diff;
+}
+
+/**
+ * Line of the test file in a stack trace ("at ... (/path/file.test.ts:12:5)")
+ */
+function findLineInStack(text: string, file?: string): number | undefined {
+  if (!file) {
+    return undefined;
+  }
+  const escaped = file.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = new RegExp(`${escaped}:(\\d+)`).exec(text);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Summary and failures as text for the model
+ */
+export function formatTestRun(result: TestRunResult): string {
+  const status = result.timedOut
+    ? "TIMED OUT"
+    : result.failed > 0 || result.exitCode !== 0
+    ? "FAILED"
+    : "PASSED";
+  let output = `${status}: ${result.passed} passed, ${result.failed} failed, ${result.skipped} skipped (${(result.durationMs / 1000).toFixed(1)}s)\n`;
+  output += `Command: ${result.command}\n`;
+
+  result.failures.slice(0, MAX_REPORTED_FAILURES).forEach((failure, index) => {
+    const location = failure.file ? ` (${failure.file}${failure.line ? `:${failure.line}` : ""})` : "";
+    output += `\n${index + 1}. ${failure.name}${location}\n${indent(failure.message)}\n`;
+    if (failure.diff) {
+      output += `${indent(failure.diff)}\n`;
+    }
+  });
+  if (result.failures.length > MAX_REPORTED_FAILURES) {
+    output += `\n... ${result.failures.length - MAX_REPORTED_FAILURES} more failures\n`;
+  }
+
+  // Nothing parsed (crash, unknown reporter, timeout) - show the raw output
+  if (result.failures.length === 0 && status !== "PASSED") {
+    output += `\nOutput:\n${result.output}\n`;
+  }
+  return output;
+}
+
+function indent(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => `   ${line}`)
+    .join("\n");
+}
+
+/* ============================================================
+ * Tools
+ * ============================================================
+ */
+
+export const testTools: Tool[] = [
+  {
+    name: "run_tests",
+    description:
+      "Run the project's tests (files on disk) and get the failures with file, line, message and expected/actual diff",
+    category: "test",
+    permission: "exec",
+    parameters: {
+      type: "object",
+      properties: {
+        filter: {
+          type: "string",
+          description: "Only run this test file, name pattern or pytest node id (optional)",
+        },
+      },
+    },
+    execute: async (params, context): Promise<ToolResult> => {
+      if (!settings.enabled) {
+        return {
+          success: false,
+          data: "",
+          error: "Running tests is disabled - the user can enable fixCode.allowScriptExecution",
+        };
+      }
+
+      try {
+        const result = await runTests(context.workspacePath, {
+          command: settings.command,
+          filter: params.filter,
+          timeoutMs: settings.timeoutMs,
+          signal: context.signal,
+        });
+        return { success: true, data: formatTestRun(result), metadata: result };
+      } catch (error) {
+        return {
+          success: false,
+          data: "",
+          error: `Failed to run tests: ${error instanceof Error ? error.message : error}`,
+        };
+      }
+    },
+  },
+];
@@ -0,0 +1,117 @@
+/* ============================================================
+ * Token Budget - Token Estimation & Model Context Windows
+ * ============================================================
+ * Lightweight token estimates (no tokenizer dependency) and the
+ * context length of each known model, used to keep requests
+ * inside the model's context window.
+ */
+
+export const DEFAULT_CONTEXT_LENGTH = 16384;
+
+// Roughly 4 characters per token for code and English text
+const CHARS_PER_TOKEN = 4;
+
+// Per-message overhead for role/formatting tokens
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Context length per model ID, filled from the OpenRouter model list
+const modelContextLengths = new Map<string, number>();
+
+// Provider cap on response tokens per model ID, when the catalog has one
+const modelCompletionLimits = new Map<string, number>();
+
+/**
+ * Estimate token count of a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate token count of chat messages
+ */
+export function estimateMessagesTokens(
+  messages: Array<{ content: string; toolCalls?: Array<{ arguments: string }> }>
+): number {
+  return messages.reduce((total, message) => {
+    const toolCallTokens = (message.toolCalls || []).reduce(
+      (sum, call) => sum + estimateTokens(call.arguments) + MESSAGE_OVERHEAD_TOKENS,
+      0
+    );
+    return total + estimateTokens(message.content) + toolCallTokens + MESSAGE_OVERHEAD_TOKENS;
+  }, 0);
+}
+
+/**
+ * Truncate text to roughly the given number of tokens
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) {
+    return text;
+  }
+
+  const omitted = estimateTokens(text.slice(maxChars));
+  return `${text.slice(0, maxChars)}\n... [truncated ~${omitted} tokens]`;
+}
+
+/**
+ * Register context lengths (and response caps) from OpenRouter model metadata
+ */
+export function registerModelContextLengths(
+  models: Array<{
+    id: string;
+    context_length: number;
+    top_provider?: { max_completion_tokens?: number | null };
+  }>
+): void {
+  for (const model of models) {
+    if (model.context_length > 0) {
+      modelContextLengths.set(model.id, model.context_length);
+    }
+    const completionLimit = model.top_provider?.max_completion_tokens;
+    if (completionLimit && completionLimit > 0) {
+      modelCompletionLimits.set(model.id, completionLimit);
+    }
+  }
+}
+
+/**
+ * Get a model's context length (falls back to a conservative default)
+ */
+export function getModelContextLength(model: string): number {
+  return (
+    modelContextLengths.get(model) ||
+    modelContextLengths.get(toCatalogModelId(model)) ||
+    DEFAULT_CONTEXT_LENGTH
+  );
+}
+
+/**
+ * Map a native Anthropic model ID ("claude-sonnet-4-5-20250929") to
+ * its OpenRouter catalog ID ("anthropic/claude-sonnet-4.5")
+ */
+export function toCatalogModelId(model: string): string {
+  if (model.includes("/") || !model.startsWith("claude-")) {
+    return model;
+  }
+  return (
+    "anthropic/" +
+    model
+      .replace(/-(\d{8}|latest)$/, "")
+      .replace(/(\d)-(\d)(?!\d)/g, "$1.$2")
+  );
+}
+
+/**
+ * Cap response tokens so at least half of the context window is left
+ * for the prompt (small local models often have 4k-8k windows), and
+ * to the provider's completion limit when known
+ */
+export function getResponseTokenLimit(model: string, maxTokens: number): number {
+  const completionLimit =
+    modelCompletionLimits.get(model) ||
+    modelCompletionLimits.get(toCatalogModelId(model)) ||
+    Infinity;
+  return Math.min(maxTokens, completionLimit, Math.floor(getModelContextLength(model) / 2));
+}
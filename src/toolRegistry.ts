@@ -0,0 +1,333 @@
+import type { ToolDefinition } from "./llmClient";
+import { agentTools } from "./agentTools";
+import { contextTools } from "./mcpTools";
+import { gitTools } from "./gitTools";
+import { testTools } from "./testRunner";
+
+/* ============================================================
+ * Tool Registry - One Typed Tool System
+ * ============================================================
+ * Every tool the agent can call lives here: the built-in code
+ * tools (agentTools.ts), the project context tools (mcpTools.ts),
+ * the git tools (gitTools.ts), run_tests (testRunner.ts), the
+ * editor tools (editorTools.ts), tools of connected MCP servers
+ * and tools registered by other extensions. Each tool declares
+ * JSON schema parameters and a permission level; prompt
+ * documentation, native tool definitions and the MCP tool
+ * server are all built from it.
+ */
+
+/**
+ * What a tool may do:
+ * - read: only reads the workspace or external data
+ * - write: changes files
+ * - exec: runs commands or calls external services
+ */
+export type ToolPermission = "read" | "write" | "exec";
+
+export interface JSONSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: unknown[];
+  default?: unknown;
+  [keyword: string]: unknown;
+}
+
+export interface ToolParameters extends JSONSchema {
+  type: "object";
+  properties: Record<string, JSONSchema>;
+  required?: string[];
+}
+
+export interface ToolContext {
+  workspacePath: string;
+  currentFile: string;
+  selectedCode?: string;
+  signal?: AbortSignal; // Cancels long-running tools (MCP calls)
+}
+
+export interface ToolResult {
+  success: boolean;
+  data: string; // Text sent back to the model
+  error?: string;
+  metadata?: any; // Structured details for callers (counts, paths, ...)
+}
+
+export interface Tool<P = any> {
+  name: string; // [a-zA-Z0-9_-], max 64 characters
+  description: string;
+  parameters: ToolParameters;
+  permission: ToolPermission;
+  category?: string; // Groups tools in the documentation ("code", "context", ...)
+  source?: string; // "builtin", "mcp:<server>" or the registering extension
+  execute: (params: P, context: ToolContext) => Promise<ToolResult>;
+}
+
+export interface ToolFilter {
+  permissions?: ToolPermission[];
+  source?: string;
+  category?: string;
+}
+
+export const BUILTIN_SOURCE = "builtin";
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+const tools = new Map<string, Tool>();
+
+for (const tool of [...agentTools, ...contextTools, ...gitTools, ...testTools]) {
+  tools.set(tool.name, { source: BUILTIN_SOURCE, ...tool });
+}
+
+/**
+ * Add a tool (names must be unique). Dispose the result to remove it.
+ */
+export function registerTool(tool: Tool): { dispose(): void } {
+  if (!TOOL_NAME_PATTERN.test(tool.name)) {
+    throw new Error(`Invalid tool name "${tool.name}" (use letters, digits, _ and -, max 64)`);
+  }
+  if (tools.has(tool.name)) {
+    throw new Error(`Tool already registered: ${tool.name}`);
+  }
+  if (!tool.parameters || tool.parameters.type !== "object") {
+    throw new Error(`Tool ${tool.name} needs an object JSON schema for its parameters`);
+  }
+
+  tools.set(tool.name, tool);
+  return {
+    dispose: () => {
+      if (tools.get(tool.name) === tool) {
+        tools.delete(tool.name);
+      }
+    },
+  };
+}
+
+/**
+ * Register several tools; all of them are removed on dispose
+ */
+export function registerTools(newTools: Tool[]): { dispose(): void } {
+  const registrations: Array<{ dispose(): void }> = [];
+  try {
+    for (const tool of newTools) {
+      registrations.push(registerTool(tool));
+    }
+  } catch (error) {
+    registrations.forEach((registration) => registration.dispose());
+    throw error;
+  }
+  return { dispose: () => registrations.forEach((registration) => registration.dispose()) };
+}
+
+export function getTool(name: string): Tool | undefined {
+  return tools.get(name);
+}
+
+/**
+ * Registered tools, built-ins first, in registration order
+ */
+export function listTools(filter: ToolFilter = {}): Tool[] {
+  return Array.from(tools.values()).filter(
+    (tool) =>
+      (!filter.permissions || filter.permissions.includes(tool.permission)) &&
+      (!filter.source || tool.source === filter.source) &&
+      (!filter.category || tool.category === filter.category)
+  );
+}
+
+/**
+ * Validate the parameters and run a tool. Errors (including
+ * exceptions thrown by the tool) come back as a failed ToolResult.
+ */
+export async function executeTool(
+  toolName: string,
+  params: any,
+  context: ToolContext,
+  permissions?: ToolPermission[]
+): Promise<ToolResult> {
+  const tool = tools.get(toolName);
+
+  if (!tool) {
+    return { success: false, data: "", error: `Tool not found: ${toolName}` };
+  }
+  if (permissions && !permissions.includes(tool.permission)) {
+    return { success: false, data: "", error: `Tool ${toolName} needs ${tool.permission} permission` };
+  }
+
+  const { values, errors } = checkToolParams(tool.parameters, params);
+  if (errors.length > 0) {
+    return { success: false, data: "", error: errors.join("; ") };
+  }
+
+  try {
+    return await tool.execute(values, context);
+  } catch (error) {
+    return {
+      success: false,
+      data: "",
+      error: `${toolName} failed: ${error instanceof Error ? error.message : error}`,
+    };
+  }
+}
+
+/**
+ * Check parameters against the tool's schema. Text tool calls only
+ * carry strings, so numbers and booleans given as strings are converted.
+ */
+export function checkToolParams(
+  schema: ToolParameters,
+  params: unknown
+): { values: Record<string, any>; errors: string[] } {
+  const input = params && typeof params === "object" ? (params as Record<string, any>) : {};
+  const values: Record<string, any> = { ...input };
+  const errors: string[] = [];
+
+  for (const name of schema.required || []) {
+    if (values[name] === undefined || values[name] === null || values[name] === "") {
+      errors.push(`Missing required parameter: ${name}`);
+    }
+  }
+
+  for (const [name, property] of Object.entries(schema.properties)) {
+    if (values[name] === undefined || values[name] === null) {
+      continue;
+    }
+    values[name] = coerceValue(values[name], property);
+    const types = property.type === undefined ? [] : ([] as string[]).concat(property.type);
+
+    if (types.length > 0 && !types.some((type) => matchesType(values[name], type))) {
+      errors.push(`Parameter ${name} must be ${types.join(" or ")}`);
+    } else if (property.enum && !property.enum.includes(values[name])) {
+      errors.push(`Parameter ${name} must be one of: ${property.enum.join(", ")}`);
+    }
+  }
+
+  return { values, errors };
+}
+
+function coerceValue(value: unknown, property: JSONSchema): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+
+  const types = ([] as string[]).concat(property.type || []);
+  if ((types.includes("number") || types.includes("integer")) && value.trim() !== "" && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (types.includes("boolean") && (value === "true" || value === "false")) {
+    return value === "true";
+  }
+  return value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && !isNaN(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+/* ============================================================
+ * Native Definitions & Documentation
+ * ============================================================
+ */
+
+/**
+ * Get tool definitions for native function calling
+ */
+export function getToolDefinitions(selected: Tool[] = listTools()): ToolDefinition[] {
+  return selected.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: { ...tool.parameters, required: tool.parameters.required || [] },
+  }));
+}
+
+/**
+ * Describe tools and their parameters (prompt text and Markdown docs)
+ */
+export function generateToolDocumentation(selected: Tool[] = listTools()): string {
+  let doc = "";
+
+  selected.forEach((tool) => {
+    doc += `**${tool.name}** (${tool.permission})\n`;
+    doc += `  Description: ${tool.description}\n`;
+
+    const required = tool.parameters.required || [];
+    const parameters = Object.entries(tool.parameters.properties);
+    if (parameters.length > 0) {
+      doc += `  Parameters:\n`;
+      for (const [name, property] of parameters) {
+        const type = ([] as string[]).concat(property.type || "any").join(" | ");
+        const values = property.enum ? ` (${property.enum.join(", ")})` : "";
+        doc += `    - ${name}: ${type} ${required.includes(name) ? "(required)" : "(optional)"} - ${property.description || ""}${values}\n`;
+      }
+    }
+    doc += `\n`;
+  });
+
+  return doc;
+}
+
+/**
+ * Get tools documentation for AI prompt
+ */
+export function getToolsDocumentation(selected: Tool[] = listTools()): string {
+  let doc = `\n\n=== Available Tools ===\n\n`;
+  doc += `You have access to the following tools to analyze and understand code:\n\n`;
+  doc += generateToolDocumentation(selected);
+
+  doc += `\nHow to use tools:\n`;
+  doc += `1. Think about what information you need\n`;
+  doc += `2. Use the appropriate tool to gather that information\n`;
+  doc += `3. Analyze the results\n`;
+  doc += `4. Make informed decisions about code changes\n`;
+  doc += `5. Always verify your understanding before suggesting changes\n\n`;
+
+  doc += `Best practices:\n`;
+  doc += `- Use read_file to understand the current code\n`;
+  doc += `- Use search_code to find similar patterns or related code\n`;
+  doc += `- Use analyze_code to identify complexity and issues\n`;
+  doc += `- Use find_related_files to understand dependencies\n`;
+  doc += `- Use run_tests (when allowed) to see which tests fail and why\n`;
+  doc += `- Use git_diff and git_log to see what changed recently and why\n`;
+  doc += `- Use go_to_definition, find_references and hover_type (when available) for real types and call sites\n`;
+  doc += `- Always consider the full context before making changes\n`;
+
+  return doc;
+}
+
+/**
+ * Generate MCP tools documentation for AI prompt
+ * (the project context tools)
+ */
+export function getMCPToolsDocumentation(): string {
+  let doc = `\n\n=== Available MCP Tools ===\n\n`;
+  doc += `You have access to the following tools to understand the project better:\n\n`;
+
+  listTools({ category: "context" }).forEach((tool, index) => {
+    doc += `${index + 1}. **${tool.name}**: ${tool.description}\n`;
+  });
+
+  doc += `\nThese tools help you understand:\n`;
+  doc += `- Project structure and file organization\n`;
+  doc += `- Dependencies and imports between files\n`;
+  doc += `- Related code that might affect the changes\n`;
+  doc += `- Full context of the codebase\n`;
+
+  return doc;
+}
@@ -0,0 +1,411 @@
+import * as vscode from "vscode";
+import type { ChatUsage } from "./llmClient";
+import { toCatalogModelId } from "./tokenBudget";
+
+/* ============================================================
+ * Usage Tracker - Token Usage, Cost Accounting & Budgets
+ * ============================================================
+ * Records prompt/completion tokens and cost of every request,
+ * sums them per day, per workspace and per model, and enforces
+ * the configured daily/monthly spend budgets. Prompt-cache reads
+ * and writes are priced separately to report cache savings.
+ */
+
+export interface TokenUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  cost: number; // USD
+  cacheSavings: number; // USD saved by prompt caching (net of cache writes)
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cacheReadTokens?: number; // Missing in ledgers recorded before caching
+  cost: number;
+  cacheSavings?: number;
+}
+
+interface DayUsage {
+  total: UsageTotals;
+  workspaces: { [workspacePath: string]: UsageTotals };
+  models: { [model: string]: UsageTotals };
+}
+
+interface UsageLedger {
+  days: { [date: string]: DayUsage };
+}
+
+export interface ModelPricing {
+  prompt: number; // USD per token
+  completion: number; // USD per token
+  cacheRead?: number; // USD per cached prompt token read
+  cacheWrite?: number; // USD per prompt token written to the cache
+}
+
+export interface BudgetStatus {
+  status: "ok" | "warn" | "blocked";
+  message?: string;
+  dailySpend: number;
+  monthlySpend: number;
+}
+
+export interface UsageReport {
+  today: UsageTotals;
+  month: UsageTotals;
+  byModel: { [model: string]: UsageTotals };
+  byWorkspace: { [workspacePath: string]: UsageTotals };
+}
+
+const LEDGER_KEY = "fixCode.usageLedger";
+const LEDGER_RETENTION_DAYS = 90;
+
+// Pricing per model ID, filled from the OpenRouter model list
+const modelPricing = new Map<string, ModelPricing>();
+
+let ledgerStore: vscode.Memento | null = null;
+
+/* ============================================================
+ * Initialization & Pricing
+ * ============================================================
+ */
+
+/**
+ * Attach persistent storage for the usage ledger
+ */
+export function initUsageTracker(store: vscode.Memento): void {
+  ledgerStore = store;
+}
+
+/**
+ * Register pricing from OpenRouter model metadata
+ * (prices are USD per token, as strings)
+ */
+export function registerModelPricing(
+  models: Array<{
+    id: string;
+    pricing: {
+      prompt: string;
+      completion: string;
+      input_cache_read?: string;
+      input_cache_write?: string;
+    };
+  }>
+): void {
+  for (const model of models) {
+    const prompt = parseFloat(model.pricing.prompt);
+    const completion = parseFloat(model.pricing.completion);
+    const cacheRead = parseFloat(model.pricing.input_cache_read ?? "");
+    const cacheWrite = parseFloat(model.pricing.input_cache_write ?? "");
+
+    if (!isNaN(prompt) && !isNaN(completion)) {
+      modelPricing.set(model.id, {
+        prompt,
+        completion,
+        cacheRead: isNaN(cacheRead) ? undefined : cacheRead,
+        cacheWrite: isNaN(cacheWrite) ? undefined : cacheWrite,
+      });
+    }
+  }
+}
+
+/**
+ * Check whether pricing is known for a model
+ */
+export function hasModelPricing(model: string): boolean {
+  return !!getModelPricing(model);
+}
+
+/**
+ * Calculate request cost in USD (0 when pricing is unknown, e.g. local models).
+ * Cached prompt tokens are billed at the cache read/write prices.
+ */
+export function calculateCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  cacheReadTokens: number = 0,
+  cacheWriteTokens: number = 0
+): number {
+  const pricing = getModelPricing(model);
+  if (!pricing) {
+    return 0;
+  }
+
+  const uncachedTokens = promptTokens - cacheReadTokens - cacheWriteTokens;
+  return (
+    uncachedTokens * pricing.prompt +
+    cacheReadTokens * (pricing.cacheRead ?? pricing.prompt) +
+    cacheWriteTokens * (pricing.cacheWrite ?? pricing.prompt) +
+    completionTokens * pricing.completion
+  );
+}
+
+/**
+ * Calculate what prompt caching saved in USD compared to uncached
+ * prompt tokens (cache writes cost extra, so this can be negative)
+ */
+export function calculateCacheSavings(
+  model: string,
+  cacheReadTokens: number,
+  cacheWriteTokens: number
+): number {
+  const pricing = getModelPricing(model);
+  if (!pricing) {
+    return 0;
+  }
+
+  const readDiscount = pricing.prompt - (pricing.cacheRead ?? pricing.prompt);
+  const writePremium = (pricing.cacheWrite ?? pricing.prompt) - pricing.prompt;
+  return cacheReadTokens * readDiscount - cacheWriteTokens * writePremium;
+}
+
+function getModelPricing(model: string): ModelPricing | undefined {
+  return modelPricing.get(model) || modelPricing.get(toCatalogModelId(model));
+}
+
+/* ============================================================
+ * Usage Accumulation
+ * ============================================================
+ */
+
+/**
+ * Create an empty usage record for a model
+ */
+export function createTokenUsage(model: string): TokenUsage {
+  return {
+    model,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    cost: 0,
+    cacheSavings: 0,
+  };
+}
+
+/**
+ * Add one response's token counts to a running usage record
+ */
+export function addTokenUsage(
+  usage: TokenUsage,
+  model: string,
+  tokens: ChatUsage | undefined
+): void {
+  if (!tokens) {
+    return;
+  }
+
+  const cacheReadTokens = tokens.cacheReadTokens || 0;
+  const cacheWriteTokens = tokens.cacheWriteTokens || 0;
+
+  usage.promptTokens += tokens.promptTokens;
+  usage.completionTokens += tokens.completionTokens;
+  usage.totalTokens += tokens.totalTokens;
+  usage.cacheReadTokens += cacheReadTokens;
+  usage.cacheWriteTokens += cacheWriteTokens;
+  usage.cost += calculateCost(
+    model,
+    tokens.promptTokens,
+    tokens.completionTokens,
+    cacheReadTokens,
+    cacheWriteTokens
+  );
+  usage.cacheSavings += calculateCacheSavings(model, cacheReadTokens, cacheWriteTokens);
+}
+
+/**
+ * Record a finished request in the persistent ledger
+ */
+export async function recordUsage(
+  usage: TokenUsage,
+  workspacePath: string | null
+): Promise<void> {
+  if (!ledgerStore || usage.totalTokens === 0) {
+    return;
+  }
+
+  const ledger = loadLedger();
+  const dateKey = toDateKey(new Date());
+  const day = ledger.days[dateKey] || {
+    total: emptyTotals(),
+    workspaces: {},
+    models: {},
+  };
+
+  const workspaceKey = workspacePath || "(no workspace)";
+  day.workspaces[workspaceKey] = day.workspaces[workspaceKey] || emptyTotals();
+  day.models[usage.model] = day.models[usage.model] || emptyTotals();
+
+  addToTotals(day.total, usage);
+  addToTotals(day.workspaces[workspaceKey], usage);
+  addToTotals(day.models[usage.model], usage);
+
+  ledger.days[dateKey] = day;
+  pruneLedger(ledger);
+
+  await ledgerStore.update(LEDGER_KEY, ledger);
+}
+
+/* ============================================================
+ * Budgets & Reports
+ * ============================================================
+ */
+
+/**
+ * Check spend against configured budgets (0 = unlimited)
+ */
+export function checkBudget(): BudgetStatus {
+  const config = vscode.workspace.getConfiguration("fixCode");
+  const dailyBudget = config.get<number>("dailyBudget", 0);
+  const monthlyBudget = config.get<number>("monthlyBudget", 0);
+  const warnPercent = config.get<number>("budgetWarningThreshold", 80);
+
+  const report = getUsageReport();
+  const dailySpend = report.today.cost;
+  const monthlySpend = report.month.cost;
+
+  const budgets = [
+    { label: "Daily", spend: dailySpend, limit: dailyBudget },
+    { label: "Monthly", spend: monthlySpend, limit: monthlyBudget },
+  ].filter((b) => b.limit > 0);
+
+  for (const budget of budgets) {
+    if (budget.spend >= budget.limit) {
+      return {
+        status: "blocked",
+        message: `${budget.label} budget reached: $${budget.spend.toFixed(2)} of $${budget.limit.toFixed(2)} spent`,
+        dailySpend,
+        monthlySpend,
+      };
+    }
+  }
+
+  for (const budget of budgets) {
+    if (budget.spend >= (budget.limit * warnPercent) / 100) {
+      return {
+        status: "warn",
+        message: `${budget.label} budget at ${Math.round((budget.spend / budget.limit) * 100)}%: $${budget.spend.toFixed(2)} of $${budget.limit.toFixed(2)} spent`,
+        dailySpend,
+        monthlySpend,
+      };
+    }
+  }
+
+  return { status: "ok", dailySpend, monthlySpend };
+}
+
+/**
+ * Summarize usage for today and the current month
+ */
+export function getUsageReport(): UsageReport {
+  const ledger = loadLedger();
+  const now = new Date();
+  const todayKey = toDateKey(now);
+  const monthPrefix = todayKey.slice(0, 7);
+
+  const report: UsageReport = {
+    today: emptyTotals(),
+    month: emptyTotals(),
+    byModel: {},
+    byWorkspace: {},
+  };
+
+  for (const [dateKey, day] of Object.entries(ledger.days)) {
+    if (!dateKey.startsWith(monthPrefix)) {
+      continue;
+    }
+
+    mergeTotals(report.month, day.total);
+    if (dateKey === todayKey) {
+      mergeTotals(report.today, day.total);
+    }
+
+    for (const [model, totals] of Object.entries(day.models)) {
+      report.byModel[model] = report.byModel[model] || emptyTotals();
+      mergeTotals(report.byModel[model], totals);
+    }
+    for (const [workspace, totals] of Object.entries(day.workspaces)) {
+      report.byWorkspace[workspace] = report.byWorkspace[workspace] || emptyTotals();
+      mergeTotals(report.byWorkspace[workspace], totals);
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Clear the usage ledger
+ */
+export async function clearUsage(): Promise<void> {
+  await ledgerStore?.update(LEDGER_KEY, undefined);
+}
+
+/**
+ * Format a USD amount for display
+ */
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+/* ============================================================
+ * Ledger Helpers
+ * ============================================================
+ */
+
+function loadLedger(): UsageLedger {
+  return ledgerStore?.get<UsageLedger>(LEDGER_KEY) || { days: {} };
+}
+
+function pruneLedger(ledger: UsageLedger): void {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - LEDGER_RETENTION_DAYS);
+  const cutoffKey = toDateKey(cutoff);
+
+  for (const dateKey of Object.keys(ledger.days)) {
+    if (dateKey < cutoffKey) {
+      delete ledger.days[dateKey];
+    }
+  }
+}
+
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    cacheReadTokens: 0,
+    cost: 0,
+    cacheSavings: 0,
+  };
+}
+
+function addToTotals(totals: UsageTotals, usage: TokenUsage): void {
+  totals.requests++;
+  totals.promptTokens += usage.promptTokens;
+  totals.completionTokens += usage.completionTokens;
+  totals.cacheReadTokens = (totals.cacheReadTokens || 0) + usage.cacheReadTokens;
+  totals.cost += usage.cost;
+  totals.cacheSavings = (totals.cacheSavings || 0) + usage.cacheSavings;
+}
+
+function mergeTotals(target: UsageTotals, source: UsageTotals): void {
+  target.requests += source.requests;
+  target.promptTokens += source.promptTokens;
+  target.completionTokens += source.completionTokens;
+  target.cacheReadTokens = (target.cacheReadTokens || 0) + (source.cacheReadTokens || 0);
+  target.cost += source.cost;
+  target.cacheSavings = (target.cacheSavings || 0) + (source.cacheSavings || 0);
+}
@@ -1,6 +1,4 @@
-import * as https from "https";
-import * as http from "http";
-import { URL } from "url";
+import { httpFetch } from "./httpClient";
 
 /* ============================================================
  * Web Search System - For Up-to-Date Information
@@ -36,6 +34,11 @@ export interface WebSearchResult {
 const searchCache = new Map<string, { results: SearchResult[]; timestamp: number }>();
 const CACHE_DURATION = 60 * 60 * 1000; // 1 hour
 
+// Fetch limits
+const FETCH_TIMEOUT = 10000; // 10 seconds
+const MAX_FETCH_REDIRECTS = 5;
+const MAX_FETCH_BYTES = 2 * 1024 * 1024; // 2 MB
+
 // Rate limiting
 let lastSearchTime = 0;
 const MIN_SEARCH_INTERVAL = 2000; // 2 seconds between searches
@@ -48,14 +51,21 @@ const MIN_SEARCH_INTERVAL = 2000; // 2 seconds between searches
 /**
  * Main search function - routes to appropriate provider
  */
-export async function searchWeb(request: SearchRequest): Promise<WebSearchResult> {
+export async function searchWeb(
+  request: SearchRequest,
+  signal?: AbortSignal
+): Promise<WebSearchResult> {
   // Check rate limiting
   const now = Date.now();
   if (now - lastSearchTime < MIN_SEARCH_INTERVAL) {
-    await sleep(MIN_SEARCH_INTERVAL - (now - lastSearchTime));
+    await sleep(MIN_SEARCH_INTERVAL - (now - lastSearchTime), signal);
   }
   lastSearchTime = Date.now();
 
+  if (signal?.aborted) {
+    return cancelledResult();
+  }
+
   // Check cache
   const cacheKey = `${request.type}:${request.query}`;
   const cached = searchCache.get(cacheKey);
@@ -73,18 +83,23 @@ export async function searchWeb(request: SearchRequest): Promise<WebSearchResult
 
     switch (request.type) {
       case "error":
-        results = await searchStackOverflow(request.query, request.maxResults);
+        results = await searchStackOverflow(request.query, request.maxResults, signal);
         break;
       case "github":
-        results = await searchGitHub(request.query, request.maxResults);
+        results = await searchGitHub(request.query, request.maxResults, signal);
         break;
       case "documentation":
       case "package":
       case "general":
-        results = await searchDuckDuckGo(request.query, request.maxResults);
+        results = await searchDuckDuckGo(request.query, request.maxResults, signal);
         break;
     }
 
+    // Don't cache partial results from an aborted search
+    if (signal?.aborted) {
+      return cancelledResult();
+    }
+
     // Cache results
     searchCache.set(cacheKey, {
       results,
@@ -112,13 +127,14 @@ export async function searchWeb(request: SearchRequest): Promise<WebSearchResult
  */
 async function searchDuckDuckGo(
   query: string,
-  maxResults: number = 5
+  maxResults: number = 5,
+  signal?: AbortSignal
 ): Promise<SearchResult[]> {
   try {
     const encodedQuery = encodeURIComponent(query);
     const url = `https://html.duckduckgo.com/html/?q=${encodedQuery}`;
 
-    const html = await fetchUrl(url);
+    const html = await fetchUrl(url, {}, signal);
 
     // Parse results from HTML (simplified)
     const results: SearchResult[] = [];
@@ -154,14 +170,15 @@ async function searchDuckDuckGo(
  */
 async function searchStackOverflow(
   query: string,
-  maxResults: number = 3
+  maxResults: number = 3,
+  signal?: AbortSignal
 ): Promise<SearchResult[]> {
   try {
     // Use Stack Exchange API (doesn't require key for basic search)
     const encodedQuery = encodeURIComponent(query);
     const url = `https://api.stackexchange.com/2.3/search/advanced?order=desc&sort=relevance&q=${encodedQuery}&accepted=True&site=stackoverflow`;
 
-    const response = await fetchUrl(url);
+    const response = await fetchUrl(url, {}, signal);
     const data = JSON.parse(response);
 
     const results: SearchResult[] = [];
@@ -192,16 +209,21 @@ async function searchStackOverflow(
  */
 async function searchGitHub(
   query: string,
-  maxResults: number = 3
+  maxResults: number = 3,
+  signal?: AbortSignal
 ): Promise<SearchResult[]> {
   try {
     // Use GitHub search API (limited without auth, but works for basic search)
     const encodedQuery = encodeURIComponent(query);
     const url = `https://api.github.com/search/code?q=${encodedQuery}&per_page=${maxResults}`;
 
-    const response = await fetchUrl(url, {
-      "User-Agent": "VSCode-Extension",
-    });
+    const response = await fetchUrl(
+      url,
+      {
+        "User-Agent": "VSCode-Extension",
+      },
+      signal
+    );
 
     const data = JSON.parse(response);
 
@@ -252,57 +274,32 @@ export async function fetchDocumentation(url: string): Promise<string> {
 }
 
 /**
- * Fetch URL content
+ * Fetch URL content (through the shared HTTP layer, with redirect
+ * and size limits)
  */
-function fetchUrl(url: string, headers: any = {}): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const parsedUrl = new URL(url);
-    const protocol = parsedUrl.protocol === "https:" ? https : http;
-
-    const options = {
-      hostname: parsedUrl.hostname,
-      path: parsedUrl.pathname + parsedUrl.search,
-      method: "GET",
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-        ...headers,
-      },
-    };
-
-    const req = protocol.request(options, (res) => {
-      let data = "";
-
-      // Handle redirects
-      if (res.statusCode === 301 || res.statusCode === 302) {
-        if (res.headers.location) {
-          return fetchUrl(res.headers.location, headers)
-            .then(resolve)
-            .catch(reject);
-        }
-      }
-
-      res.on("data", (chunk) => {
-        data += chunk;
-      });
-
-      res.on("end", () => {
-        if (res.statusCode === 200) {
-          resolve(data);
-        } else {
-          reject(new Error(`HTTP ${res.statusCode}`));
-        }
-      });
-    });
+async function fetchUrl(
+  url: string,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<string> {
+  const response = await httpFetch(url, {
+    headers: {
+      "User-Agent":
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+      ...headers,
+    },
+    signal,
+    timeoutMs: FETCH_TIMEOUT,
+    maxRedirects: MAX_FETCH_REDIRECTS,
+    maxResponseBytes: MAX_FETCH_BYTES,
+  });
 
-    req.on("error", reject);
-    req.setTimeout(10000, () => {
-      req.destroy();
-      reject(new Error("Request timeout"));
-    });
+  if (response.status !== 200) {
+    await response.body?.cancel();
+    throw new Error(`HTTP ${response.status}`);
+  }
 
-    req.end();
-  });
+  return response.text();
 }
 
 /**
@@ -342,10 +339,28 @@ function decodeHtml(html: string): string {
 }
 
 /**
- * Sleep utility
+ * Sleep utility (resolves early if the signal is aborted)
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Result returned when a search is cancelled
+ */
+function cancelledResult(): WebSearchResult {
+  return {
+    success: false,
+    results: [],
+    summary: "",
+    error: "Search cancelled",
+  };
 }
 
 /* ============================================================